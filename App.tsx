@@ -1,27 +1,184 @@
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { ImageCalibrator } from './components/ImageCalibrator';
 import { DraggableSign } from './components/DraggableSign';
-import { generateDesignVariants } from './services/geminiService';
-import { calculateQuote } from './utils/pricing';
-import { DesignVariant, SignType, InstallConfig, QuoteResult, LightingType, SignPlacement } from './types';
-import { PRICING, FONT_LIBRARY, getAllFonts } from './constants';
-import { Loader2, Download, Calculator, Palette, Wand2, Type, Star } from 'lucide-react';
-import jsPDF from 'jspdf';
+import { PricingAdmin } from './components/PricingAdmin';
+import { QuoteLibrary } from './components/QuoteLibrary';
+import { TierComparison } from './components/TierComparison';
+import { BrandSettings } from './components/BrandSettings';
+import { MeasurementLayer } from './components/MeasurementLayer';
+import { VariantEditor } from './components/VariantEditor';
+import { LayoutEditor } from './components/LayoutEditor';
+import { CompliancePanel } from './components/CompliancePanel';
+import { DESIGN_PROVIDER_LABELS, generateDesigns } from './services/designService';
+import { DEFAULT_PLACEMENT, DesignRequest, DesignResponse, VariantRefinement } from './services/designProvider';
+import { loadDesignSettings, saveDesignSettings } from './services/designProviderStore';
+import { findRulebook, loadActiveRulebook } from './services/rulebookStore';
+import { loadQuoteRevision, saveQuoteRevision } from './services/quoteStore';
+import { getBrandTemplate, listBrandTemplates, nextQuoteNumber, setActiveBrand } from './services/brandStore';
+import { calculateFabrication, calculateQuote } from './utils/pricing';
+import { formatLineItemLabel } from './utils/lineItems';
+import { formatFeetInches, formatMoney, formatPercent } from './utils/format';
+import { detectTaxProfile, getDefaultTaxProfile, resolveTaxProfile } from './utils/tax';
+import { loadFont, measureTextAsync, metricsKey } from './utils/textMetrics';
+import { arrangeLayout, hasLayout, layoutElements, overallSizeIn, unmeasuredLines } from './utils/layout';
+import { buildBrandPalette, formatContrast, loadPhotoPixels, logoColors, lowContrast, MIN_SIGN_CONTRAST, photoColors } from './utils/colorAnalysis';
+import { imageDistanceInches, Point } from './utils/perspective';
+import { applyTier, buildQuoteTiers, isTierSelected, withVariant } from './utils/tiers';
+import { downloadDayNightMockup, downloadMockup, renderMockup } from './utils/mockup';
+import { gradeLine, measurementCallouts, MeasureView, signCallouts } from './utils/measurements';
+import { buildShopDrawing, downloadShopDrawing } from './utils/shopDrawing';
+import { checkCompliance, complianceSite, detectBylawPack, measuredSiteSizes, resolveBylawPack } from './utils/compliance';
+import { formatCorrection } from './utils/designValidation';
+import { addCustomVariant, currentVersion, isVariantLocked, mergeGeneratedVariants, removeVariant, replaceVariant, restoreVariantVersion, toggleVariantLock, updateVariant, variantVersions } from './utils/variants';
+import { buildProposalPdf, buildTieredProposalPdf, ProposalData } from './utils/proposalPdf';
+import { buildPermitPackage, PermitPackageData } from './utils/permitPdf';
+import { proposalFileName } from './utils/brand';
+import { createLineItem, describeLineItem } from './utils/job';
+import { DesignVariant, SignType, InstallConfig, QuoteResult, LightingType, SignPlacement, PricingRulebook, SignLineItem, SignOptions, QuoteSnapshot, PerspectiveCalibration, ChannelPricingMethod, PriceLineItem, QuoteTier, TextMetrics, BrandTemplate, Measurement, DesignProviderId, DesignProviderSettings } from './types';
+import { PRICING, FONT_LIBRARY, getAllFonts, DEFAULT_PERMIT_TEMPLATE } from './constants';
+import { BYLAW_PACKS } from './constants/bylaws';
+import { Loader2, Download, Calculator, Palette, Wand2, Type, Star, Settings, Plus, Trash2, Save, FolderOpen, LayoutGrid, Sun, Moon, RefreshCw, MessageSquare, Lock, Unlock, ChevronLeft, ChevronRight } from 'lucide-react';
 
 const App: React.FC = () => {
   // State
   const [step, setStep] = useState(1);
-  const [imageFile, setImageFile] = useState<File | null>(null);
+  const [imageFile, setImageFile] = useState<Blob | null>(null);
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [imageId, setImageId] = useState<string | null>(null);
   const [pxPerInch, setPxPerInch] = useState<number | null>(null);
+  const [perspective, setPerspective] = useState<PerspectiveCalibration | null>(null);
+  const [photoSize, setPhotoSize] = useState<{ width: number; height: number } | null>(null);
+  const [measurements, setMeasurements] = useState<Measurement[]>([]);
+  const [gradePoint, setGradePoint] = useState<Point | null>(null);
+
+  // Saved Job
+  const [jobId, setJobId] = useState<string | null>(null);
+  const [revision, setRevision] = useState<number | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [showLibrary, setShowLibrary] = useState(false);
+  const [sessionKey, setSessionKey] = useState(0); // bumped on open/new so signs re-read saved positions
+  const [quoteNumber, setQuoteNumber] = useState<string | null>(null);
+
+  // Proposal Branding
+  const [brand, setBrand] = useState<BrandTemplate>(() => getBrandTemplate(null));
+  const [brands, setBrands] = useState<BrandTemplate[]>(() => listBrandTemplates());
+  const [showBrandSettings, setShowBrandSettings] = useState(false);
   
-  // Sign Config
-  const [signType, setSignType] = useState<SignType>(SignType.CHANNEL_LETTERS);
-  const [signText, setSignText] = useState("OPEN");
-  const [widthIn, setWidthIn] = useState<number>(0);
-  const [heightIn, setHeightIn] = useState<number>(18); // Default for channel letters
+  // Job: one or more signs sharing the photo and the install trip
+  const [items, setItems] = useState<SignLineItem[]>(() => [createLineItem()]);
+  const [activeItemId, setActiveItemId] = useState<string | null>(null);
   const [isRush, setIsRush] = useState(false);
-  const [lightboxDepth, setLightboxDepth] = useState(4);
-  const [hasLamination, setHasLamination] = useState(false);
+
+  const activeItem = items.find(i => i.id === activeItemId) || items[0];
+
+  const updateItem = (id: string, patch: Partial<SignLineItem>) => {
+    setItems(prev => prev.map(i => i.id === id ? { ...i, ...patch } : i));
+  };
+  const updateActiveItem = (patch: Partial<SignLineItem>) => updateItem(activeItem.id, patch);
+  const updateActiveOptions = (patch: Partial<SignOptions>) => updateActiveItem({ options: { ...activeItem.options, ...patch } });
+  const updateActiveDimensions = (patch: Partial<SignLineItem['dimensions']>) => updateActiveItem({ dimensions: { ...activeItem.dimensions, ...patch } });
+
+  // Sign Config (active line)
+  const { signType, text: signText, variants, selectedVariant, placement } = activeItem;
+  const { widthIn, heightIn } = activeItem.dimensions;
+  const { lightboxDepth = 4, hasLamination = false, pylonHeightFt = 0, doubleSided = true, isReface = false, channelPricing = 'PER_LETTER', returnDepthIn } = activeItem.options;
+  const setSignType = (t: SignType) => updateActiveItem({ signType: t });
+  const setSignText = (text: string) => updateActiveItem({ text });
+  const setWidthIn = (w: number) => updateActiveDimensions({ widthIn: w });
+  const setHeightIn = (h: number) => updateActiveDimensions({ heightIn: h });
+  const setLightboxDepth = (d: number) => updateActiveOptions({ lightboxDepth: d });
+  const setHasLamination = (v: boolean) => updateActiveOptions({ hasLamination: v });
+  const setPylonHeightFt = (ft: number) => updateActiveOptions({ pylonHeightFt: ft });
+  const setDoubleSided = (v: boolean) => updateActiveOptions({ doubleSided: v });
+  const setIsReface = (v: boolean) => updateActiveOptions({ isReface: v });
+  const setChannelPricing = (m: ChannelPricingMethod) => updateActiveOptions({ channelPricing: m });
+  const setReturnDepthIn = (d: number) => updateActiveOptions({ returnDepthIn: d });
+
+  const handleAddItem = () => {
+    const item = createLineItem(SignType.WINDOW_VINYL, "");
+    setItems(prev => [...prev, item]);
+    setActiveItemId(item.id);
+  };
+
+  const handleRemoveItem = (id: string) => {
+    if (items.length <= 1) return;
+    setItems(prev => prev.filter(i => i.id !== id));
+    if (activeItem.id === id) setActiveItemId(null);
+  };
+
+  // Channel letters: measure real letter widths and the overall run from the selected font
+  const pendingMeasurements = useRef(new Set<string>());
+  const channelMetricsKey = (item: SignLineItem) => item.selectedVariant
+    ? metricsKey(item.text, item.selectedVariant.fontFamily, item.dimensions.heightIn, item.selectedVariant.letterSpacing, pxPerInch)
+    : null;
+
+  useEffect(() => {
+    items.forEach(item => {
+      if (item.signType !== SignType.CHANNEL_LETTERS || !item.selectedVariant) return;
+      // Extra lines of a layout are measured the same way, each in its own font and height
+      unmeasuredLines(item, pxPerInch).forEach(({ line, element, key }) => {
+        if (pendingMeasurements.current.has(key)) return;
+        pendingMeasurements.current.add(key);
+        measureTextAsync(element.text, element.fontFamily, element.heightIn, element.letterSpacing, pxPerInch)
+          .then(metrics => {
+            setItems(prev => prev.map(i => {
+              const stale = !unmeasuredLines(i, pxPerInch).some(u => u.line.id === line.id && u.key === metrics.sourceKey);
+              return i.id !== item.id || !i.layout || stale
+                ? i
+                : { ...i, layout: { ...i.layout, lines: i.layout.lines.map(l => l.id === line.id ? { ...l, metrics } : l) } };
+            }));
+          })
+          .catch(e => console.error("Failed to measure letters:", e))
+          .finally(() => pendingMeasurements.current.delete(key));
+      });
+      if (!item.text.trim() || item.dimensions.heightIn <= 0) {
+        if (item.metrics) updateItem(item.id, { metrics: undefined });
+        return;
+      }
+      const key = channelMetricsKey(item)!;
+      if (item.metrics?.sourceKey === key || pendingMeasurements.current.has(key)) return;
+
+      pendingMeasurements.current.add(key);
+      const { fontFamily, letterSpacing } = item.selectedVariant;
+      measureTextAsync(item.text, fontFamily, item.dimensions.heightIn, letterSpacing, pxPerInch)
+        .then(metrics => {
+          // Drop the result if the line was edited while measuring
+          setItems(prev => prev.map(i => i.id === item.id && channelMetricsKey(i) === metrics.sourceKey
+            ? { ...i, metrics, dimensions: { ...i.dimensions, widthIn: Math.round(metrics.overallWidthIn * 10) / 10 } }
+            : i
+          ));
+        })
+        .catch(e => console.error("Failed to measure letters:", e))
+        .finally(() => pendingMeasurements.current.delete(key));
+    });
+  }, [items, pxPerInch]);
+
+  // Width of the detected placement zone on the wall, measured across its middle
+  const zoneWidthIn = (item: SignLineItem): number | null => {
+    if (!item.placement || !pxPerInch || !photoSize) return null;
+    const { xmin, xmax, ymin, ymax } = item.placement;
+    const midY = (ymin + ymax) / 2;
+    return imageDistanceInches({ x: xmin, y: midY }, { x: xmax, y: midY }, photoSize, pxPerInch, perspective);
+  };
+  const isWiderThanZone = (item: SignLineItem): boolean => {
+    const zone = zoneWidthIn(item);
+    return item.signType === SignType.CHANNEL_LETTERS && !!item.metrics && zone !== null && overallSizeIn(item).widthIn > zone;
+  };
+  const activeZoneWidthIn = zoneWidthIn(activeItem);
+
+  // Measurement layer: hand-drawn lines plus each placed sign's size and height above grade
+  const measureView: MeasureView | null = useMemo(
+    () => pxPerInch && photoSize ? { photoSize, pxPerInch, perspective } : null,
+    [pxPerInch, photoSize, perspective]
+  );
+  const sizeCallouts = useMemo(
+    () => measureView ? signCallouts(items, gradePoint, measureView) : [],
+    [items, gradePoint, measureView]
+  );
+  const drawnCallouts = useMemo(
+    () => measureView ? measurementCallouts(measurements, measureView) : [],
+    [measurements, measureView]
+  );
 
   // Font Config
   const [fontCategory, setFontCategory] = useState<string>("General Commercial");
@@ -36,7 +193,7 @@ const App: React.FC = () => {
   }, []);
 
   // Install Config
-  const [installConfig, setInstallConfig] = useState<InstallConfig>({
+  const defaultInstallConfig: InstallConfig = {
     heightFeet: 10,
     liftType: 'NONE',
     electricalWork: true,
@@ -44,40 +201,178 @@ const App: React.FC = () => {
     hardAccess: false,
     address: '',
     clientName: ''
-  });
+  };
+  const [installConfig, setInstallConfig] = useState<InstallConfig>(defaultInstallConfig);
+  const [taxProfileId, setTaxProfileId] = useState<string | null>(null); // null: from the address
+  const [bylawPackId, setBylawPackId] = useState<string | null>(null); // null: from the address
+
+  // Pricing Rulebook
+  const [rulebook, setRulebook] = useState<PricingRulebook>(() => loadActiveRulebook());
+  const [showPricingAdmin, setShowPricingAdmin] = useState(false);
 
   // AI & Design
   const [isGenerating, setIsGenerating] = useState(false);
-  const [variants, setVariants] = useState<DesignVariant[]>([]);
-  const [selectedVariant, setSelectedVariant] = useState<DesignVariant | null>(null);
-  const [placement, setPlacement] = useState<SignPlacement | undefined>(undefined);
+  const [designSettings, setDesignSettings] = useState<DesignProviderSettings>(() => loadDesignSettings());
+  const [designContext, setDesignContext] = useState(''); // e.g. "family pizzeria, rustic"
+  const [designNotice, setDesignNotice] = useState<string | null>(null);
+  const [designCorrections, setDesignCorrections] = useState<string[]>([]);
+  const [redesigningIndex, setRedesigningIndex] = useState<number | null>(null);
+  const [showVariantEditor, setShowVariantEditor] = useState(false);
+
+  // Colours measured from the photo and the active sign's logo, for the designer and the contrast check
+  const [photoPixels, setPhotoPixels] = useState<ImageData | null>(null);
+  const [logoPalette, setLogoPalette] = useState<string[]>([]);
+  const activeLogoUrl = activeItem.layout?.logo?.artwork?.imageUrl;
+
+  useEffect(() => {
+    setPhotoPixels(null);
+    if (!imageUrl) return;
+    let cancelled = false;
+    loadPhotoPixels(imageUrl)
+      .then(pixels => { if (!cancelled) setPhotoPixels(pixels); })
+      .catch(e => console.error("Failed to read photo colours:", e));
+    return () => { cancelled = true; };
+  }, [imageUrl]);
+
+  useEffect(() => {
+    setLogoPalette([]);
+    if (!activeLogoUrl) return;
+    let cancelled = false;
+    logoColors(activeLogoUrl)
+      .then(colors => { if (!cancelled) setLogoPalette(colors); })
+      .catch(e => console.error("Failed to read logo colours:", e));
+    return () => { cancelled = true; };
+  }, [activeLogoUrl]);
+
+  const brandPalette = useMemo(
+    () => buildBrandPalette(photoPixels ? photoColors(photoPixels, activeItem.placement || DEFAULT_PLACEMENT) : null, logoPalette),
+    [photoPixels, activeItem.placement, logoPalette]
+  );
+
+  const updateDesignSettings = (settings: DesignProviderSettings) => {
+    setDesignSettings(settings);
+    saveDesignSettings(settings);
+  };
+
+  const updateEndpoint = (patch: Partial<DesignProviderSettings['endpoint']>) =>
+    updateDesignSettings({ ...designSettings, endpoint: { ...designSettings.endpoint, ...patch } });
 
   // Quote
   const quote: QuoteResult | null = useMemo(() => {
-    if (!selectedVariant) return null;
-    return calculateQuote(
-      signType,
-      { widthIn: signType === SignType.CHANNEL_LETTERS ? widthIn : widthIn, heightIn },
-      signText,
-      selectedVariant,
-      installConfig,
+    if (!items.some(i => i.selectedVariant)) return null;
+    return calculateQuote(items, installConfig, isRush, rulebook, taxProfileId);
+  }, [items, installConfig, isRush, rulebook, taxProfileId]);
+
+  const taxProfile = resolveTaxProfile(rulebook, taxProfileId, installConfig.address);
+  const detectedTaxProfile = detectTaxProfile(installConfig.address, rulebook);
+
+  // Sign bylaw check against the install address's rule pack
+  const bylawSite = useMemo(
+    () => complianceSite(installConfig, items, [...drawnCallouts, ...sizeCallouts]),
+    [installConfig, items, drawnCallouts, sizeCallouts]
+  );
+  const compliance = useMemo(
+    () => checkCompliance(items, resolveBylawPack(bylawPackId, installConfig.address), bylawSite),
+    [items, bylawPackId, installConfig.address, bylawSite]
+  );
+  const money = (amount: number) => formatMoney(amount, taxProfile.currency);
+  const [showBreakdown, setShowBreakdown] = useState(false);
+
+  const renderPriceRow = (row: PriceLineItem, key: number) => (
+    <div key={key} className={`flex justify-between gap-2 ${row.visibility === 'INTERNAL' ? 'text-gray-400 italic' : 'text-gray-600'}`}>
+      <span>{formatLineItemLabel(row, taxProfile.currency)}{!row.taxable && ' (not taxed)'}</span>
+      {row.quantity !== 0 && <span className="font-mono shrink-0">{money(row.amount)}</span>}
+    </div>
+  );
+
+  // Both channel letter pricing methods for the active line, so they can be compared
+  const channelComparison = useMemo(() => {
+    if (activeItem.signType !== SignType.CHANNEL_LETTERS || !activeItem.selectedVariant) return null;
+    const price = (method: ChannelPricingMethod) => calculateFabrication(
+      { ...activeItem, options: { ...activeItem.options, channelPricing: method } },
+      activeItem.selectedVariant!,
       isRush,
-      hasLamination,
-      lightboxDepth
-    );
-  }, [signType, signText, widthIn, heightIn, selectedVariant, installConfig, isRush, lightboxDepth, hasLamination]);
+      rulebook
+    ).fabCost;
+    return {
+      perLetter: price('PER_LETTER'),
+      perimeter: activeItem.metrics ? price('PERIMETER') : null
+    };
+  }, [activeItem, isRush, rulebook]);
+  const activeLetterBreakdown = quote?.lines.find(l => l.itemId === activeItem.id)?.letterBreakdown;
+
+  // Good / Better / Best: the whole job priced with each design option
+  const [showTiers, setShowTiers] = useState(false);
+  const [tierMetrics, setTierMetrics] = useState<Record<string, TextMetrics>>({});
+  const [tierThumbnails, setTierThumbnails] = useState<Record<number, string>>({});
+  const canCompareTiers = items.some(i => i.variants.length > 1);
+  const tierMetricsFor = (item: SignLineItem): TextMetrics | undefined => {
+    const key = channelMetricsKey(item);
+    return key ? tierMetrics[key] : undefined;
+  };
+
+  const tiers: QuoteTier[] = useMemo(() => {
+    if (!showTiers) return [];
+    return buildQuoteTiers(items, installConfig, isRush, rulebook, taxProfileId, tierMetricsFor);
+  }, [showTiers, items, installConfig, isRush, rulebook, taxProfileId, tierMetrics, pxPerInch]);
+
+  // Measure channel letters in the fonts and heights of the options that aren't selected
+  useEffect(() => {
+    if (!showTiers) return;
+    items.forEach(item => {
+      if (item.signType !== SignType.CHANNEL_LETTERS || !item.text.trim()) return;
+      item.variants.forEach(variant => {
+        const candidate = withVariant(item, variant);
+        const key = channelMetricsKey(candidate);
+        if (!key || candidate === item || tierMetrics[key] || pendingMeasurements.current.has(key)) return;
+        if (candidate.dimensions.heightIn <= 0) return;
+
+        pendingMeasurements.current.add(key);
+        measureTextAsync(candidate.text, variant.fontFamily, candidate.dimensions.heightIn, variant.letterSpacing, pxPerInch)
+          .then(metrics => setTierMetrics(prev => ({ ...prev, [metrics.sourceKey]: metrics })))
+          .catch(e => console.error("Failed to measure letters:", e))
+          .finally(() => pendingMeasurements.current.delete(key));
+      });
+    });
+  }, [showTiers, items, pxPerInch, tierMetrics]);
+
+  const renderTierThumbnails = async (forTiers: QuoteTier[]): Promise<Record<number, string>> => {
+    if (!imageUrl || !pxPerInch || !photoSize) return {};
+    const view = { pxPerInch, displaySize: photoSize, perspective };
+    const images = await Promise.all(forTiers.map(tier => renderMockup(imageUrl, tier.items, view, { width: 480 })));
+    return Object.fromEntries(forTiers.map((tier, i) => [tier.variantIndex, images[i]]));
+  };
+
+  useEffect(() => {
+    if (tiers.length === 0) return;
+    let cancelled = false;
+    renderTierThumbnails(tiers)
+      .then(thumbnails => { if (!cancelled) setTierThumbnails(thumbnails); })
+      .catch(e => console.error("Failed to render mockups:", e));
+    return () => { cancelled = true; };
+  }, [tiers, imageUrl, photoSize, perspective]);
+
+  const selectedTier = tiers.find(tier => isTierSelected(items, tier)) || null;
+
+  const handleChooseTier = (tier: QuoteTier) => {
+    setItems(prev => applyTier(prev, tier.variantIndex, tierMetricsFor));
+  };
 
   // Handlers
-  const handleImageLoaded = (file: File) => {
+  const handleImageLoaded = (file: File, url: string) => {
     setImageFile(file);
+    setImageUrl(url);
+    setImageId(crypto.randomUUID());
+    setMeasurements([]);
+    setGradePoint(null);
     setStep(1); // Stay on step 1 until calibrated
-    setPlacement(undefined); // Reset placement on new image
-    setVariants([]);
-    setSelectedVariant(null);
+    // Reset designs and placement on new image
+    setItems(prev => prev.map(i => ({ ...i, placement: undefined, variants: [], selectedVariant: null })));
   };
 
-  const handleCalibrated = (val: number) => {
+  const handleCalibrated = (val: number, plane: PerspectiveCalibration | null = null) => {
     setPxPerInch(val);
+    setPerspective(val > 0 ? plane : null);
     if (val > 0) setStep(2);
   };
 
@@ -87,7 +382,7 @@ const App: React.FC = () => {
     );
   };
 
-  const fileToBase64 = (file: File): Promise<string> => {
+  const fileToBase64 = (file: Blob): Promise<string> => {
     return new Promise((resolve, reject) => {
       const reader = new FileReader();
       reader.readAsDataURL(file);
@@ -101,127 +396,422 @@ const App: React.FC = () => {
     });
   };
 
+  const buildDesignRequest = async (refine?: VariantRefinement): Promise<DesignRequest> => {
+    let imageBase64: string | undefined = undefined;
+    if (imageFile) {
+      imageBase64 = await fileToBase64(imageFile);
+    }
+
+    // Determine allowed fonts based on toggle and selection
+    let allowedFonts: string[] = [];
+    if (useSelectedFontsOnly && selectedFonts.length > 0) {
+      allowedFonts = selectedFonts;
+    } else {
+      // Fallback to all fonts in the current category if none selected, or if toggle is off
+      // Requirement: "If no fonts selected, fall back to the default category list."
+      // We'll interpret 'default category list' as the fonts in the currently visible category, 
+      // or effectively the currently active category.
+      allowedFonts = FONT_LIBRARY[fontCategory];
+    }
+
+    return { text: signText, signType, allowedFonts, imageBase64, userContext: designContext.trim() || undefined, palette: brandPalette, refine };
+  };
+
+  const showDesignReport = (response: DesignResponse, firstIndex = 0) => {
+    setDesignNotice(response.warning || null);
+    setDesignCorrections((response.corrections || []).map(c => formatCorrection(c, firstIndex)));
+  };
+
   const handleGenerateDesigns = async () => {
     if (!signText) return;
     setIsGenerating(true);
+    setDesignNotice(null);
+    setDesignCorrections([]);
     try {
-      let imageBase64: string | undefined = undefined;
-      if (imageFile) {
-        imageBase64 = await fileToBase64(imageFile);
+      const response = await generateDesigns(await buildDesignRequest(), designSettings);
+      showDesignReport(response);
+      const merged = mergeGeneratedVariants(activeItem, response.variants);
+      const selectedIndex = activeItem.selectedVariant ? activeItem.variants.indexOf(activeItem.selectedVariant) : -1;
+      // A locked option that was picked stays picked; otherwise start from Option A again
+      if (selectedIndex >= 0 && isVariantLocked(activeItem, selectedIndex)) {
+        updateActiveItem({ ...merged, placement: response.placement, position: undefined });
+      } else {
+        const first = merged.variants![0];
+        updateActiveItem({
+          ...merged,
+          placement: response.placement,
+          position: undefined,
+          selectedVariant: first || null,
+          // Auto-update height if AI recommends it
+          dimensions: first && signType === SignType.CHANNEL_LETTERS
+            ? { ...activeItem.dimensions, heightIn: first.recommendedLetterHeightIn }
+            : activeItem.dimensions
+        });
       }
+      setStep(3);
+    } catch (e) {
+      console.error(e);
+      alert("Failed to generate designs. Please try again.");
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  // Changes to one option; if it was the picked one, the sign follows it like clicking its card
+  const applyVariantChange = (patch: Partial<SignLineItem>) => {
+    const next = { ...activeItem, ...patch, selectedVariant: activeItem.selectedVariant };
+    updateActiveItem(patch.selectedVariant && patch.selectedVariant !== activeItem.selectedVariant
+      ? withVariant(next, patch.selectedVariant)
+      : patch);
+  };
+
+  // Regenerates one option, or revises it with the client's instruction
+  const handleRedesignVariant = async (index: number, withInstruction: boolean) => {
+    const variant = variants[index];
+    let instruction: string | undefined;
+    if (withInstruction) {
+      const answer = prompt(`How should ${variant.name.replace(" (Recommended)", "")} change? e.g. "in gold with wider spacing"`);
+      if (!answer?.trim()) return;
+      instruction = answer.trim();
+    }
+    setRedesigningIndex(index);
+    setDesignNotice(null);
+    setDesignCorrections([]);
+    try {
+      const response = await generateDesigns(await buildDesignRequest({ index, variant, instruction }), designSettings);
+      showDesignReport(response, index);
+      if (response.variants[0]) applyVariantChange(replaceVariant(activeItem, index, response.variants[0]));
+    } catch (e) {
+      console.error(e);
+      alert(withInstruction
+        ? `Failed to refine the design. ${e instanceof Error ? e.message : ''}`
+        : "Failed to regenerate the design. Please try again.");
+    } finally {
+      setRedesigningIndex(null);
+    }
+  };
+
+  // Editor changes apply live. A designer's option is never changed: the first edit
+  // copies it to a custom option at the current letter height, and later edits change that.
+  const handleEditVariant = (patch: Partial<DesignVariant>) => {
+    if (!selectedVariant) return;
+    const index = variants.indexOf(selectedVariant);
+    if (selectedVariant.custom && index >= 0) {
+      updateActiveItem(updateVariant(activeItem, index, patch));
+    } else {
+      updateActiveItem(addCustomVariant(activeItem, selectedVariant, signType === SignType.CHANNEL_LETTERS
+        ? { ...patch, recommendedLetterHeightIn: activeItem.dimensions.heightIn }
+        : patch));
+    }
+  };
+
+  // A job keeps its number across revisions; a new one is only taken the first time
+  const ensureQuoteNumber = (): string => {
+    if (quoteNumber) return quoteNumber;
+    const number = nextQuoteNumber(brand);
+    setQuoteNumber(number);
+    return number;
+  };
+
+  const handleSelectBrand = (id: string) => {
+    setBrand(getBrandTemplate(id));
+    setActiveBrand(id);
+  };
+
+  const handleSaveJob = async () => {
+    const note = prompt(`Note for revision v${(revision || 0) + 1} (optional)`);
+    if (note === null) return;
+    setIsSaving(true);
+    try {
+      const number = ensureQuoteNumber();
+      const snapshot: QuoteSnapshot = {
+        items,
+        installConfig,
+        isRush,
+        pxPerInch,
+        perspective,
+        measurements,
+        gradePoint,
+        imageId,
+        rulebookVersion: rulebook.versionLabel,
+        taxProfileId,
+        bylawPackId,
+        brandId: brand.id,
+        quoteNumber: number,
+        quote
+      };
+      const saved = await saveQuoteRevision({ jobId, snapshot, image: imageFile, note });
+      setJobId(saved.jobId);
+      setRevision(saved.revision);
+    } catch (e) {
+      console.error(e);
+      alert("Failed to save the quote. Please try again.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleOpenJob = async (id: string, rev?: number) => {
+    try {
+      const { revision: saved, image } = await loadQuoteRevision(id, rev);
+      const { snapshot } = saved;
+      if (imageUrl) URL.revokeObjectURL(imageUrl);
+      setImageFile(image);
+      setImageUrl(image ? URL.createObjectURL(image) : null);
+      setImageId(snapshot.imageId);
+      setPxPerInch(snapshot.pxPerInch);
+      setPerspective(snapshot.perspective || null);
+      setMeasurements(snapshot.measurements || []);
+      setGradePoint(snapshot.gradePoint ?? null);
+      setItems(snapshot.items);
+      setActiveItemId(null);
+      setInstallConfig(snapshot.installConfig);
+      setIsRush(snapshot.isRush);
+      setTaxProfileId(snapshot.taxProfileId ?? null);
+      setBylawPackId(snapshot.bylawPackId ?? null);
+      setBrand(getBrandTemplate(snapshot.brandId));
+      setQuoteNumber(snapshot.quoteNumber ?? null);
+      setJobId(saved.jobId);
+      setRevision(saved.revision);
+      setStep(snapshot.pxPerInch ? 3 : 1);
+      setSessionKey(k => k + 1);
+      setShowLibrary(false);
 
-      // Determine allowed fonts based on toggle and selection
-      let allowedFonts: string[] = [];
-      if (useSelectedFontsOnly && selectedFonts.length > 0) {
-        allowedFonts = selectedFonts;
+      // Reopened quotes keep the rates they were quoted at; say so when those rates are gone
+      const quotedRulebook = findRulebook(snapshot.rulebookVersion);
+      if (quotedRulebook) {
+        setRulebook(quotedRulebook);
       } else {
-        // Fallback to all fonts in the current category if none selected, or if toggle is off
-        // Requirement: "If no fonts selected, fall back to the default category list."
-        // We'll interpret 'default category list' as the fonts in the currently visible category, 
-        // or effectively the currently active category.
-        allowedFonts = FONT_LIBRARY[fontCategory];
+        const was = snapshot.quote;
+        const now = was && calculateQuote(snapshot.items, snapshot.installConfig, snapshot.isRush, rulebook, snapshot.taxProfileId ?? null);
+        const difference = was && now ? ` It was ${formatMoney(was.total, was.currency)} and is now ${formatMoney(now.total, now.currency)}.` : '';
+        alert(`Rates ${snapshot.rulebookVersion} aren't saved on this device, so this quote is repriced with ${rulebook.versionLabel}.${difference}`);
       }
+    } catch (e) {
+      console.error(e);
+      alert("Failed to open the quote.");
+    }
+  };
 
-      const response = await generateDesignVariants(signText, signType, allowedFonts, imageBase64);
-      setVariants(response.variants);
-      setPlacement(response.placement);
+  const handleNewJob = () => {
+    if (imageUrl) URL.revokeObjectURL(imageUrl);
+    setImageFile(null);
+    setImageUrl(null);
+    setImageId(null);
+    setPxPerInch(null);
+    setPerspective(null);
+    setMeasurements([]);
+    setGradePoint(null);
+    setItems([createLineItem()]);
+    setActiveItemId(null);
+    setInstallConfig(defaultInstallConfig);
+    setIsRush(false);
+    setTaxProfileId(null);
+    setBylawPackId(null);
+    setRulebook(loadActiveRulebook());
+    setQuoteNumber(null);
+    setJobId(null);
+    setRevision(null);
+    setStep(1);
+    setSessionKey(k => k + 1);
+    setShowLibrary(false);
+  };
 
-      if (response.variants.length > 0) {
-        setSelectedVariant(response.variants[0]);
-        // Auto-update height if AI recommends it
-        if (signType === SignType.CHANNEL_LETTERS) {
-            setHeightIn(response.variants[0].recommendedLetterHeightIn);
+  const handleExportPDF = async () => {
+    if (!quote) return;
+    const number = ensureQuoteNumber();
+    let mockup: ProposalData['mockup'] = null;
+    if (imageUrl && pxPerInch && photoSize) {
+      try {
+        const width = 1600;
+        const dataUrl = await renderMockup(imageUrl, items, { pxPerInch, displaySize: photoSize, perspective }, { width });
+        mockup = { dataUrl, width, height: width * photoSize.height / photoSize.width };
+      } catch (e) {
+        console.error("Failed to render the mockup:", e);
+      }
+    }
+    try {
+      const doc = buildProposalPdf({ template: brand, quote, items, installConfig, rulebook, quoteNumber: number, revision, mockup });
+      doc.save(proposalFileName(number, revision, installConfig.clientName));
+    } catch (e) {
+      console.error(e);
+      alert("Failed to export the proposal.");
+    }
+  };
+
+  const [mockupCallouts, setMockupCallouts] = useState(false);
+  const [isExportingMockup, setIsExportingMockup] = useState(false);
+  // 0 day, 1 night; the preview and image exports both follow it
+  const [nightLevel, setNightLevel] = useState(0);
+
+  // Full-resolution photo with the signs drawn in, for emails and landlord approvals
+  const handleDownloadMockup = async (mimeType: 'image/png' | 'image/jpeg', dayAndNight = false) => {
+    if (!imageUrl || !pxPerInch || !photoSize) return;
+    setIsExportingMockup(true);
+    try {
+      const base = proposalFileName(quoteNumber || 'mockup', revision, installConfig.clientName, dayAndNight ? '-day-night' : '').replace(/\.pdf$/, '');
+      await (dayAndNight ? downloadDayNightMockup : downloadMockup)(
+        imageUrl,
+        items,
+        { pxPerInch, displaySize: photoSize, perspective },
+        `${base}.${mimeType === 'image/png' ? 'png' : 'jpg'}`,
+        {
+          mimeType,
+          nightLevel,
+          callouts: mockupCallouts && measureView ? [...measurementCallouts(measurements, measureView), ...sizeCallouts] : undefined,
+          gradeLine: mockupCallouts && measureView && gradePoint ? gradeLine(gradePoint, measureView) : null
         }
+      );
+    } catch (e) {
+      console.error(e);
+      alert("Failed to export the mockup image.");
+    } finally {
+      setIsExportingMockup(false);
+    }
+  };
+
+  // Channel letters with every line measured, as the shop drawing needs them
+  const withDrawingMetrics = async (item: SignLineItem, variant: DesignVariant): Promise<SignLineItem> => {
+    if (item.signType !== SignType.CHANNEL_LETTERS) return item;
+    let target = item;
+    await loadFont(variant.fontFamily);
+    if (!item.metrics) {
+      target = { ...item, metrics: await measureTextAsync(item.text, variant.fontFamily, item.dimensions.heightIn, variant.letterSpacing, pxPerInch) };
+    }
+    const lines = unmeasuredLines(target, pxPerInch);
+    if (lines.length > 0 && target.layout) {
+      const measured = await Promise.all(lines.map(({ element }) =>
+        measureTextAsync(element.text, element.fontFamily, element.heightIn, element.letterSpacing, pxPerInch)));
+      target = {
+        ...target,
+        layout: { ...target.layout, lines: target.layout.lines.map(l => {
+          const i = lines.findIndex(u => u.line.id === l.id);
+          return i >= 0 ? { ...l, metrics: measured[i] } : l;
+        }) }
+      };
+    }
+    return target;
+  };
+
+  // True-scale outlines, section, mounting and title block for the fabricators, per sign
+  const handleDownloadShopDrawing = async (format: 'svg' | 'dxf') => {
+    const item = activeItem;
+    const variant = item.selectedVariant;
+    if (!variant) return;
+    try {
+      const target = await withDrawingMetrics(item, variant);
+      const siteMeasurements = measureView
+        ? [...measurementCallouts(measurements, measureView), ...sizeCallouts.filter(c => c.id.startsWith(`${item.id}-`))]
+        : [];
+      const drawing = buildShopDrawing({
+        item: target,
+        installConfig,
+        companyName: brand.companyName,
+        quoteNumber,
+        revision,
+        measurements: siteMeasurements,
+        pxPerInch,
+        rulebook
+      });
+      const index = items.indexOf(item) + 1;
+      const base = proposalFileName(quoteNumber || 'shop-drawing', revision, installConfig.clientName, `-sign${index}`).replace(/\.pdf$/, '');
+      downloadShopDrawing(drawing, format, `${base}.${format}`);
+    } catch (e) {
+      console.error(e);
+      alert("Failed to export the shop drawing.");
+    }
+  };
+
+  // Permit submission in the city's format: application, site photo, elevations, electrical and mounting
+  const [isExportingPermit, setIsExportingPermit] = useState(false);
+  const handleExportPermitPackage = async () => {
+    if (!quote) return;
+    setIsExportingPermit(true);
+    const number = ensureQuoteNumber();
+    let sitePhoto: PermitPackageData['sitePhoto'] = null;
+    if (imageUrl && measureView) {
+      try {
+        const width = 1600;
+        const dataUrl = await renderMockup(imageUrl, items, { pxPerInch: measureView.pxPerInch, displaySize: measureView.photoSize, perspective }, {
+          width,
+          callouts: [...drawnCallouts, ...sizeCallouts],
+          gradeLine: gradePoint ? gradeLine(gradePoint, measureView) : null
+        });
+        sitePhoto = { dataUrl, width, height: width * measureView.photoSize.height / measureView.photoSize.width };
+      } catch (e) {
+        console.error("Failed to render the site photo:", e);
       }
-      setStep(3);
+    }
+    // Mounting is described per sign by its shop drawing
+    const mounting: Record<string, string[]> = {};
+    for (const item of items) {
+      if (!item.selectedVariant) continue;
+      try {
+        const drawing = buildShopDrawing({
+          item: await withDrawingMetrics(item, item.selectedVariant),
+          installConfig,
+          companyName: brand.companyName,
+          quoteNumber: number,
+          revision,
+          pxPerInch,
+          rulebook
+        });
+        mounting[item.id] = drawing.mounting;
+      } catch (e) {
+        console.error("Failed to describe the mounting:", e);
+      }
+    }
+    try {
+      const doc = buildPermitPackage({
+        template: compliance.pack?.permitPackage || DEFAULT_PERMIT_TEMPLATE,
+        brand,
+        compliance,
+        site: bylawSite,
+        quote,
+        items,
+        installConfig,
+        rulebook,
+        quoteNumber: number,
+        sitePhoto,
+        mounting
+      });
+      doc.save(proposalFileName(number, revision, installConfig.clientName, '-permit'));
     } catch (e) {
       console.error(e);
-      alert("Failed to generate designs. Please try again.");
+      alert("Failed to export the permit package.");
     } finally {
-      setIsGenerating(false);
+      setIsExportingPermit(false);
     }
   };
 
-  const handleExportPDF = () => {
-    if (!quote || !selectedVariant) return;
-    const doc = new jsPDF();
-    
-    doc.setFontSize(20);
-    doc.text("Signage Quote", 20, 20);
-    
-    doc.setFontSize(12);
-    doc.text(`Client: ${installConfig.clientName}`, 20, 35);
-    doc.text(`Address: ${installConfig.address}`, 20, 42);
-    doc.text(`Date: ${new Date().toLocaleDateString()}`, 20, 49);
-
-    doc.setLineWidth(0.5);
-    doc.line(20, 55, 190, 55);
-
-    doc.setFontSize(14);
-    doc.text("Sign Specifications", 20, 65);
-    doc.setFontSize(10);
-    doc.text(`Type: ${signType}`, 20, 72);
-    doc.text(`Content: "${signText}"`, 20, 77);
-    doc.text(`Dimensions: ${signType === SignType.CHANNEL_LETTERS ? `Height ${heightIn}"` : `${widthIn}" x ${heightIn}"`}`, 20, 82);
-    
-    // Updated PDF fields
-    doc.text(`Option: ${selectedVariant.name}`, 20, 87);
-    doc.setFont("helvetica", "italic");
-    doc.setFontSize(9);
-    const splitDesc = doc.splitTextToSize(selectedVariant.description || "", 170);
-    doc.text(splitDesc, 20, 92);
-    
-    doc.setFont("helvetica", "normal");
-    doc.setFontSize(10);
-    doc.text(`Font: ${selectedVariant.fontFamily}`, 20, 105);
-    doc.text(`Lighting: ${selectedVariant.lighting}`, 20, 110);
-
-    let y = 120;
-    doc.setFontSize(14);
-    doc.text("Pricing Breakdown", 20, y);
-    y += 8;
-    
-    doc.setFontSize(10);
-    doc.setFont("helvetica", "bold");
-    doc.text("Fabrication", 20, y);
-    y += 5;
-    doc.setFont("helvetica", "normal");
-    
-    quote.breakdown.fabAdders.forEach(line => {
-      doc.text(`- ${line}`, 25, y);
-      y += 5;
-    });
-    
-    y += 5;
-    doc.setFont("helvetica", "bold");
-    doc.text("Installation", 20, y);
-    y += 5;
-    doc.setFont("helvetica", "normal");
-    quote.breakdown.installAdders.forEach(line => {
-      doc.text(`- ${line}`, 25, y);
-      y += 5;
-    });
+  // One proposal with every option side by side and a box for the client to tick
+  const handleExportTieredPDF = async () => {
+    if (tiers.length === 0) return;
+    let thumbnails = tierThumbnails;
+    if (tiers.some(tier => !thumbnails[tier.variantIndex])) {
+      try {
+        thumbnails = await renderTierThumbnails(tiers);
+      } catch (e) {
+        console.error("Failed to render mockups:", e);
+      }
+    }
 
-    y += 10;
-    doc.line(20, y, 190, y);
-    y += 10;
-    
-    doc.setFontSize(12);
-    doc.text(`Subtotal: $${quote.subtotal.toFixed(2)}`, 140, y);
-    y += 7;
-    doc.text(`GST (5%): $${quote.gst.toFixed(2)}`, 140, y);
-    y += 10;
-    doc.setFontSize(16);
-    doc.setFont("helvetica", "bold");
-    doc.text(`Total: $${quote.total.toFixed(2)}`, 140, y);
-
-    // Disclaimer
-    y += 30;
-    doc.setFontSize(8);
-    doc.setFont("helvetica", "italic");
-    doc.text("Valid for 30 days. 50% deposit required to begin production.", 20, y);
-
-    doc.save("sign_quote.pdf");
+    const number = ensureQuoteNumber();
+    try {
+      const doc = buildTieredProposalPdf({
+        template: brand,
+        tiers,
+        installConfig,
+        quoteNumber: number,
+        revision,
+        thumbnails,
+        photoAspect: photoSize ? photoSize.height / photoSize.width : null
+      });
+      doc.save(proposalFileName(number, revision, installConfig.clientName, '-options'));
+    } catch (e) {
+      console.error(e);
+      alert("Failed to export the options proposal.");
+    }
   };
 
   return (
@@ -229,11 +819,41 @@ const App: React.FC = () => {
       {/* Left Panel: Controls */}
       <div className="w-full md:w-96 bg-white shadow-xl z-10 flex flex-col h-screen overflow-y-auto border-r border-gray-200">
         <div className="p-6 bg-slate-900 text-white sticky top-0 z-20">
-          <h1 className="text-2xl font-bold flex items-center gap-2">
-            <Palette className="w-6 h-6 text-blue-400" />
-            SignQuote Pro
-          </h1>
-          <p className="text-slate-400 text-xs mt-1">Mockup & Estimate Tool</p>
+          <div className="flex items-center justify-between">
+            <h1 className="text-2xl font-bold flex items-center gap-2">
+              <Palette className="w-6 h-6 text-blue-400" />
+              SignQuote Pro
+            </h1>
+            <div className="flex items-center gap-1">
+              <button
+                onClick={() => setShowLibrary(true)}
+                className="p-1 rounded text-slate-400 hover:text-white hover:bg-slate-800"
+                title="Saved quotes"
+              >
+                <FolderOpen className="w-5 h-5" />
+              </button>
+              <button
+                onClick={handleSaveJob}
+                disabled={isSaving}
+                className="p-1 rounded text-slate-400 hover:text-white hover:bg-slate-800"
+                title="Save quote"
+              >
+                {isSaving ? <Loader2 className="w-5 h-5 animate-spin" /> : <Save className="w-5 h-5" />}
+              </button>
+              <button
+                onClick={() => setShowPricingAdmin(true)}
+                className="p-1 rounded text-slate-400 hover:text-white hover:bg-slate-800"
+                title="Pricing rulebook"
+              >
+                <Settings className="w-5 h-5" />
+              </button>
+            </div>
+          </div>
+          <p className="text-slate-400 text-xs mt-1">
+            Mockup & Estimate Tool · Rates {rulebook.versionLabel}
+            {quoteNumber && ` · ${quoteNumber}`}
+            {revision !== null && ` · Saved v${revision}`}
+          </p>
         </div>
 
         <div className="p-6 space-y-8 flex-1">
@@ -243,6 +863,43 @@ const App: React.FC = () => {
               <span className="bg-blue-100 text-blue-700 w-6 h-6 rounded-full flex items-center justify-center text-xs">1</span>
               Specs
             </h2>
+
+            <div>
+              <label className="block text-xs font-semibold text-gray-500 uppercase mb-1">Signs in this Job</label>
+              <div className="space-y-1">
+                {items.map((item, idx) => (
+                  <div
+                    key={item.id}
+                    onClick={() => setActiveItemId(item.id)}
+                    className={`flex items-center justify-between p-2 rounded border text-xs cursor-pointer
+                      ${item.id === activeItem.id ? 'border-blue-600 bg-blue-50' : 'border-gray-200 hover:border-blue-300'}
+                    `}
+                  >
+                    <span className="truncate">{idx + 1}. {describeLineItem(item)}</span>
+                    <div className="flex items-center gap-2 shrink-0">
+                      {quote?.lines.find(l => l.itemId === item.id) && (
+                        <span className="font-mono text-gray-500">{money(quote.lines.find(l => l.itemId === item.id)!.fabricationCost)}</span>
+                      )}
+                      {items.length > 1 && (
+                        <button
+                          onClick={(e) => { e.stopPropagation(); handleRemoveItem(item.id); }}
+                          className="text-gray-400 hover:text-red-600"
+                          title="Remove sign"
+                        >
+                          <Trash2 className="w-3 h-3" />
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+              <button
+                onClick={handleAddItem}
+                className="mt-2 text-xs text-blue-600 flex items-center gap-1 hover:underline"
+              >
+                <Plus className="w-3 h-3" /> Add sign
+              </button>
+            </div>
             
             <div>
               <label className="block text-xs font-semibold text-gray-500 uppercase mb-1">Sign Type</label>
@@ -266,6 +923,14 @@ const App: React.FC = () => {
               />
             </div>
 
+            <LayoutEditor
+              layout={activeItem.layout}
+              signType={signType}
+              mainHeightIn={heightIn}
+              designFont={activeItem.selectedVariant?.fontFamily}
+              onChange={layout => updateActiveItem({ layout })}
+            />
+
             <div className="grid grid-cols-2 gap-3">
               <div>
                  <label className="block text-xs font-semibold text-gray-500 uppercase mb-1">Height (in)</label>
@@ -289,6 +954,93 @@ const App: React.FC = () => {
               )}
             </div>
 
+            {signType === SignType.CHANNEL_LETTERS && activeItem.metrics && (
+               <div className="text-xs bg-gray-50 border rounded-lg p-2 space-y-1">
+                  <div className="flex justify-between">
+                    <span className="text-gray-500">Overall run ({layoutElements(activeItem).reduce((sum, e) => sum + e.text.replace(/\s/g, '').length, 0)} letters)</span>
+                    <span className="font-mono font-semibold">{formatFeetInches(overallSizeIn(activeItem).widthIn)}</span>
+                  </div>
+                  {activeZoneWidthIn !== null && (
+                    <div className="flex justify-between">
+                      <span className="text-gray-500">Detected zone</span>
+                      <span className="font-mono">{formatFeetInches(activeZoneWidthIn)}</span>
+                    </div>
+                  )}
+                  {isWiderThanZone(activeItem) && (
+                    <p className="text-red-600 font-semibold">
+                      Letters run {formatFeetInches(overallSizeIn(activeItem).widthIn - activeZoneWidthIn!)} wider than the zone. Reduce the height or pick a narrower font.
+                    </p>
+                  )}
+               </div>
+            )}
+
+            {signType === SignType.CHANNEL_LETTERS && (
+               <div className="space-y-2">
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                      <label className="block text-xs font-semibold text-gray-500 uppercase mb-1">Pricing</label>
+                      <select
+                        value={channelPricing}
+                        onChange={(e) => setChannelPricing(e.target.value as ChannelPricingMethod)}
+                        className="w-full p-2 border rounded-lg bg-gray-50"
+                      >
+                        <option value="PER_LETTER">Per letter</option>
+                        <option value="PERIMETER">Perimeter &amp; face</option>
+                      </select>
+                    </div>
+                    {channelPricing === 'PERIMETER' && (
+                      <div>
+                        <label className="block text-xs font-semibold text-gray-500 uppercase mb-1">Return Depth (in)</label>
+                        <input 
+                          type="number" 
+                          value={returnDepthIn ?? rulebook.FABRICATION[SignType.CHANNEL_LETTERS].DEFAULT_RETURN_DEPTH}
+                          onChange={(e) => setReturnDepthIn(Number(e.target.value))}
+                          className="w-full p-2 border rounded-lg"
+                        />
+                      </div>
+                    )}
+                  </div>
+                  {channelComparison && (
+                    <div className="text-xs grid grid-cols-2 gap-2">
+                      <div className={`p-2 rounded border ${channelPricing === 'PER_LETTER' ? 'border-blue-600 bg-blue-50' : 'border-gray-200'}`}>
+                        <p className="text-gray-500">Per letter</p>
+                        <p className="font-mono font-semibold">{money(channelComparison.perLetter)}</p>
+                      </div>
+                      <div className={`p-2 rounded border ${channelPricing === 'PERIMETER' ? 'border-blue-600 bg-blue-50' : 'border-gray-200'}`}>
+                        <p className="text-gray-500">Perimeter &amp; face</p>
+                        <p className="font-mono font-semibold">
+                          {channelComparison.perimeter !== null ? money(channelComparison.perimeter) : 'Measuring…'}
+                        </p>
+                      </div>
+                    </div>
+                  )}
+                  {activeLetterBreakdown && (
+                    <table className="w-full text-[11px]">
+                      <thead>
+                        <tr className="text-gray-500 text-left">
+                          <th className="font-semibold">Letter</th>
+                          <th className="font-semibold text-right">Return ft</th>
+                          <th className="font-semibold text-right">Face sqft</th>
+                          <th className="font-semibold text-right">LEDs</th>
+                          <th className="font-semibold text-right">Cost</th>
+                        </tr>
+                      </thead>
+                      <tbody className="font-mono">
+                        {activeLetterBreakdown.map((l, i) => (
+                          <tr key={i} className="border-t">
+                            <td>{l.char}</td>
+                            <td className="text-right">{l.returnFt.toFixed(1)}</td>
+                            <td className="text-right">{l.faceSqFt.toFixed(2)}</td>
+                            <td className="text-right">{l.ledModules}</td>
+                            <td className="text-right">{money(l.cost)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+               </div>
+            )}
+
             {signType === SignType.LIGHTBOX && (
                <div>
                   <label className="block text-xs font-semibold text-gray-500 uppercase mb-1">Depth (in)</label>
@@ -313,6 +1065,39 @@ const App: React.FC = () => {
                </div>
             )}
 
+            {signType === SignType.PYLON && (
+               <div>
+                  <label className="block text-xs font-semibold text-gray-500 uppercase mb-1">Overall Height (ft)</label>
+                  <input 
+                    type="number" 
+                    value={pylonHeightFt}
+                    onChange={(e) => setPylonHeightFt(Number(e.target.value))}
+                    className="w-full p-2 border rounded-lg"
+                  />
+               </div>
+            )}
+
+            {(signType === SignType.PYLON || signType === SignType.BLADE) && (
+               <div className="flex items-center gap-4">
+                  <label className="flex items-center gap-2 text-sm cursor-pointer">
+                    <input 
+                      type="checkbox" 
+                      checked={doubleSided}
+                      onChange={(e) => setDoubleSided(e.target.checked)}
+                    />
+                    Double-Sided
+                  </label>
+                  <label className="flex items-center gap-2 text-sm cursor-pointer">
+                    <input 
+                      type="checkbox" 
+                      checked={isReface}
+                      onChange={(e) => setIsReface(e.target.checked)}
+                    />
+                    Reface Only
+                  </label>
+               </div>
+            )}
+
             {/* Font Selection */}
             <div className="border-t pt-4">
               <h3 className="text-sm font-bold text-gray-700 mb-2 flex items-center gap-2">
@@ -369,6 +1154,76 @@ const App: React.FC = () => {
               </div>
             </div>
 
+            {/* Designer */}
+            <div className="border-t pt-4 space-y-2">
+              <div>
+                <label className="block text-xs font-semibold text-gray-500 uppercase mb-1">Designer</label>
+                <select
+                  value={designSettings.providerId}
+                  onChange={(e) => updateDesignSettings({ ...designSettings, providerId: e.target.value as DesignProviderId })}
+                  className="w-full p-2 text-sm border rounded bg-gray-50"
+                >
+                  {(Object.keys(DESIGN_PROVIDER_LABELS) as DesignProviderId[]).map(id => (
+                    <option key={id} value={id}>{DESIGN_PROVIDER_LABELS[id]}</option>
+                  ))}
+                </select>
+              </div>
+
+              {designSettings.providerId === 'OPENAI_COMPATIBLE' && (
+                <div className="space-y-2 p-2 bg-gray-50 border rounded">
+                  <input
+                    value={designSettings.endpoint.baseUrl}
+                    onChange={(e) => updateEndpoint({ baseUrl: e.target.value })}
+                    placeholder="Base URL, e.g. http://localhost:11434/v1"
+                    className="w-full p-1.5 text-xs border rounded"
+                  />
+                  <input
+                    value={designSettings.endpoint.model}
+                    onChange={(e) => updateEndpoint({ model: e.target.value })}
+                    placeholder="Model, e.g. llama3.1"
+                    className="w-full p-1.5 text-xs border rounded"
+                  />
+                  <input
+                    type="password"
+                    value={designSettings.endpoint.apiKey}
+                    onChange={(e) => updateEndpoint({ apiKey: e.target.value })}
+                    placeholder="API key (if the server needs one)"
+                    className="w-full p-1.5 text-xs border rounded"
+                  />
+                  <label className="flex items-center gap-2 text-xs cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={designSettings.endpoint.sendImage}
+                      onChange={(e) => updateEndpoint({ sendImage: e.target.checked })}
+                    />
+                    Send the site photo (vision models only)
+                  </label>
+                </div>
+              )}
+
+              <input
+                value={designContext}
+                onChange={(e) => setDesignContext(e.target.value)}
+                placeholder="Business / style (optional), e.g. family pizzeria"
+                className="w-full p-2 text-sm border rounded-lg"
+              />
+
+              {(brandPalette.wall || brandPalette.logo.length > 0) && (
+                <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-[10px] text-gray-500">
+                  {([['Wall', brandPalette.wall], ['Fascia', brandPalette.fascia], ['Awning / trim', brandPalette.accent]] as const).map(([label, color]) => color && (
+                    <span key={label} className="flex items-center gap-1" title={color}>
+                      <span className="w-3 h-3 rounded-sm border" style={{ backgroundColor: color }} /> {label}
+                    </span>
+                  ))}
+                  {brandPalette.logo.length > 0 && (
+                    <span className="flex items-center gap-1">
+                      {brandPalette.logo.map(color => <span key={color} className="w-3 h-3 rounded-sm border" style={{ backgroundColor: color }} title={color} />)} Logo
+                    </span>
+                  )}
+                </div>
+              )}
+            </div>
+
             <button 
               onClick={handleGenerateDesigns}
               disabled={isGenerating || !pxPerInch}
@@ -380,6 +1235,17 @@ const App: React.FC = () => {
               {isGenerating ? 'Designing...' : 'Generate Variations'}
             </button>
             {!pxPerInch && <p className="text-xs text-red-500 text-center">Please calibrate photo first</p>}
+            {designNotice && <p className="text-xs text-amber-600 text-center">{designNotice}</p>}
+            {designCorrections.length > 0 && (
+              <details className="text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded p-2">
+                <summary className="cursor-pointer font-medium">
+                  {designCorrections.length} design value{designCorrections.length === 1 ? '' : 's'} corrected
+                </summary>
+                <ul className="mt-1 space-y-0.5 list-disc pl-4">
+                  {designCorrections.map((c, i) => <li key={i}>{c}</li>)}
+                </ul>
+              </details>
+            )}
           </section>
 
           {/* Step 2: Design Selection */}
@@ -389,15 +1255,25 @@ const App: React.FC = () => {
                 <span className="bg-blue-100 text-blue-700 w-6 h-6 rounded-full flex items-center justify-center text-xs">2</span>
                 Design Styles
               </h2>
+              {items.length > 1 && <p className="text-xs text-gray-500 -mt-2">For {describeLineItem(activeItem)}</p>}
               <div className="grid grid-cols-1 gap-3">
                 {variants.map((v, idx) => {
                   const isRecommended = v.name.includes("Recommended");
+                  const isLocked = isVariantLocked(activeItem, idx);
+                  const versions = variantVersions(activeItem, idx);
+                  const version = currentVersion(activeItem, idx);
+                  const isBusy = redesigningIndex === idx;
+                  const contrast = brandPalette.wall ? lowContrast(v, signType, brandPalette.wall) : null;
                   return (
                     <div 
                       key={idx}
                       onClick={() => {
-                          setSelectedVariant(v);
-                          if(signType === SignType.CHANNEL_LETTERS) setHeightIn(v.recommendedLetterHeightIn);
+                          updateActiveItem({
+                            selectedVariant: v,
+                            dimensions: signType === SignType.CHANNEL_LETTERS
+                              ? { ...activeItem.dimensions, heightIn: v.recommendedLetterHeightIn }
+                              : activeItem.dimensions
+                          });
                       }}
                       className={`relative p-3 rounded-lg border-2 cursor-pointer transition flex flex-col gap-1
                         ${selectedVariant === v ? 'border-blue-600 bg-blue-50' : 'border-gray-200 hover:border-blue-300'}
@@ -422,10 +1298,89 @@ const App: React.FC = () => {
                         <span className="bg-gray-100 px-1 rounded">{v.fontFamily}</span>
                         <span className="bg-gray-100 px-1 rounded">{v.lighting}</span>
                       </div>
+
+                      {contrast && (
+                        <p className="text-[10px] text-red-600 font-semibold flex items-center gap-1">
+                          <span className="w-3 h-3 rounded-sm border" style={{ backgroundColor: v.color || '#ffffff' }} />
+                          <span className="w-3 h-3 rounded-sm border -ml-1.5" style={{ backgroundColor: contrast.background }} />
+                          Low contrast: {formatContrast(contrast.ratio)} against {contrast.against}, needs {MIN_SIGN_CONTRAST}:1
+                        </p>
+                      )}
+
+                      <div className="mt-1 flex items-center gap-1 text-xs text-gray-500" onClick={e => e.stopPropagation()}>
+                        {v.custom ? (
+                          <button
+                            onClick={() => updateActiveItem(removeVariant(activeItem, idx))}
+                            className="p-1 rounded hover:bg-gray-100 hover:text-red-600"
+                            title="Delete this custom option"
+                          >
+                            <Trash2 className="w-3 h-3" />
+                          </button>
+                        ) : (
+                          <>
+                            <button
+                              onClick={() => handleRedesignVariant(idx, false)}
+                              disabled={isLocked || redesigningIndex !== null || isGenerating}
+                              className="p-1 rounded hover:bg-gray-100 disabled:opacity-40"
+                              title="Regenerate this option"
+                            >
+                              {isBusy ? <Loader2 className="w-3 h-3 animate-spin" /> : <RefreshCw className="w-3 h-3" />}
+                            </button>
+                            <button
+                              onClick={() => handleRedesignVariant(idx, true)}
+                              disabled={isLocked || redesigningIndex !== null || isGenerating}
+                              className="px-1 py-0.5 rounded hover:bg-gray-100 disabled:opacity-40 flex items-center gap-1"
+                              title="Change this option, e.g. &quot;in gold with wider spacing&quot;"
+                            >
+                              <MessageSquare className="w-3 h-3" /> Refine
+                            </button>
+                            <button
+                              onClick={() => updateActiveItem(toggleVariantLock(activeItem, idx))}
+                              className={`p-1 rounded hover:bg-gray-100 ${isLocked ? 'text-blue-600' : ''}`}
+                              title={isLocked ? 'Unlock: let Generate Variations replace it' : 'Lock: keep it when regenerating'}
+                            >
+                              {isLocked ? <Lock className="w-3 h-3" /> : <Unlock className="w-3 h-3" />}
+                            </button>
+                          </>
+                        )}
+                        {versions.length > 1 && (
+                          <div className="ml-auto flex items-center gap-1">
+                            <button
+                              onClick={() => applyVariantChange(restoreVariantVersion(activeItem, idx, version - 1))}
+                              disabled={version <= 0 || isLocked}
+                              className="p-1 rounded hover:bg-gray-100 disabled:opacity-40"
+                              title="Previous version"
+                            >
+                              <ChevronLeft className="w-3 h-3" />
+                            </button>
+                            <span className="font-mono text-[10px]">v{version + 1}/{versions.length}</span>
+                            <button
+                              onClick={() => applyVariantChange(restoreVariantVersion(activeItem, idx, version + 1))}
+                              disabled={version >= versions.length - 1 || isLocked}
+                              className="p-1 rounded hover:bg-gray-100 disabled:opacity-40"
+                              title="Next version"
+                            >
+                              <ChevronRight className="w-3 h-3" />
+                            </button>
+                          </div>
+                        )}
+                      </div>
                     </div>
                   );
                 })}
               </div>
+
+              {selectedVariant && (
+                <button
+                  onClick={() => setShowVariantEditor(!showVariantEditor)}
+                  className="w-full py-1.5 text-xs rounded border hover:bg-gray-50 flex items-center justify-center gap-1"
+                >
+                  <Palette className="w-3 h-3" /> {showVariantEditor ? 'Hide design editor' : 'Customize the selected design'}
+                </button>
+              )}
+              {selectedVariant && showVariantEditor && (
+                <VariantEditor variant={selectedVariant} signType={signType} onChange={handleEditVariant} />
+              )}
             </section>
           )}
 
@@ -449,6 +1404,19 @@ const App: React.FC = () => {
                   value={installConfig.address}
                   onChange={e => setInstallConfig({...installConfig, address: e.target.value})}
                 />
+                <div>
+                  <label className="block text-xs text-gray-500">Tax &amp; Currency</label>
+                  <select
+                    value={taxProfileId || ''}
+                    onChange={e => setTaxProfileId(e.target.value || null)}
+                    className="w-full p-2 border rounded text-sm"
+                  >
+                    <option value="">
+                      From address: {(detectedTaxProfile || getDefaultTaxProfile(rulebook)).label}{detectedTaxProfile ? '' : ' (default)'}
+                    </option>
+                    {rulebook.TAX.PROFILES.map(p => <option key={p.id} value={p.id}>{p.label} · {p.currency}</option>)}
+                  </select>
+                </div>
                 
                 <div className="grid grid-cols-2 gap-2">
                   <div>
@@ -492,6 +1460,17 @@ const App: React.FC = () => {
                       Rush Order
                    </label>
                 </div>
+
+                <CompliancePanel
+                  result={compliance}
+                  packs={BYLAW_PACKS}
+                  packId={bylawPackId}
+                  detectedPack={detectBylawPack(installConfig.address)}
+                  installConfig={installConfig}
+                  measured={measuredSiteSizes(drawnCallouts)}
+                  onPackChange={setBylawPackId}
+                  onInstallChange={patch => setInstallConfig({ ...installConfig, ...patch })}
+                />
               </div>
           </section>
         </div>
@@ -501,14 +1480,134 @@ const App: React.FC = () => {
           <div className="p-4 bg-gray-50 border-t border-gray-200">
              <div className="flex justify-between items-end mb-4">
                 <div className="text-sm text-gray-600">Total Estimate</div>
-                <div className="text-2xl font-bold text-gray-900">${quote.total.toFixed(2)}</div>
+                <div className="text-2xl font-bold text-gray-900">{money(quote.total)}</div>
+             </div>
+             <button onClick={() => setShowBreakdown(v => !v)} className="text-xs text-blue-600 hover:underline mb-2">
+               {showBreakdown ? 'Hide breakdown' : 'Show breakdown'}
+             </button>
+             {showBreakdown && (
+               <div className="text-xs mb-3 space-y-2 max-h-64 overflow-y-auto">
+                 {quote.lines.map(line => {
+                   const item = items.find(i => i.id === line.itemId);
+                   return (
+                     <div key={line.itemId}>
+                       <p className="font-semibold text-gray-700">{item ? describeLineItem(item) : 'Sign'}</p>
+                       {line.fabItems.map(renderPriceRow)}
+                     </div>
+                   );
+                 })}
+                 <div>
+                   <p className="font-semibold text-gray-700">Installation</p>
+                   {quote.breakdown.installItems.map(renderPriceRow)}
+                 </div>
+               </div>
+             )}
+             <div className="text-xs text-gray-500 mb-3 space-y-0.5">
+               <div className="flex justify-between"><span>Subtotal</span><span className="font-mono">{money(quote.subtotal)}</span></div>
+               {quote.taxes.map(tax => (
+                 <div key={tax.name} className="flex justify-between">
+                   <span>{tax.name} ({formatPercent(tax.rate)})</span>
+                   <span className="font-mono">{money(tax.amount)}</span>
+                 </div>
+               ))}
+               {quote.taxes.length === 0 && <div>No sales tax ({taxProfile.label})</div>}
+             </div>
+             {quote.electrical && (
+               <p className="text-xs text-gray-500 mb-3">
+                 Electrical: {quote.electrical.powerSupplyCount} power supplies, {quote.electrical.inputWatts.toFixed(0)}W / {quote.electrical.amps.toFixed(1)}A, {quote.electrical.circuits} circuit{quote.electrical.circuits === 1 ? '' : 's'}
+               </p>
+             )}
+             <div className="flex items-center gap-2 mb-2 text-xs">
+               <label className="text-gray-500">Brand</label>
+               <select
+                 value={brand.id}
+                 onChange={e => handleSelectBrand(e.target.value)}
+                 className="flex-1 p-1 border rounded"
+               >
+                 {brands.map(b => <option key={b.id} value={b.id}>{b.name}</option>)}
+               </select>
+               <button onClick={() => setShowBrandSettings(true)} className="p-1 rounded text-gray-400 hover:text-gray-700" title="Proposal brands">
+                 <Settings className="w-4 h-4" />
+               </button>
              </div>
              <button 
               onClick={handleExportPDF}
               className="w-full py-2 bg-slate-800 text-white rounded hover:bg-slate-900 flex items-center justify-center gap-2"
              >
-               <Download className="w-4 h-4" /> Export PDF Quote
+               <Download className="w-4 h-4" /> Export PDF Proposal
              </button>
+             {imageUrl && pxPerInch && (
+               <div className="flex items-center gap-2 mt-2 text-xs">
+                 <span className="text-gray-500">Mockup image</span>
+                 <button
+                   onClick={() => handleDownloadMockup('image/png')}
+                   disabled={isExportingMockup}
+                   className="px-2 py-1 border rounded hover:bg-gray-100 disabled:opacity-50"
+                 >
+                   PNG
+                 </button>
+                 <button
+                   onClick={() => handleDownloadMockup('image/jpeg')}
+                   disabled={isExportingMockup}
+                   className="px-2 py-1 border rounded hover:bg-gray-100 disabled:opacity-50"
+                 >
+                   JPEG
+                 </button>
+                 <button
+                   onClick={() => handleDownloadMockup('image/jpeg', true)}
+                   disabled={isExportingMockup}
+                   className="px-2 py-1 border rounded hover:bg-gray-100 disabled:opacity-50"
+                   title="Day and night side by side"
+                 >
+                   Day + Night
+                 </button>
+                 {isExportingMockup && <Loader2 className="w-3 h-3 animate-spin" />}
+                 <label className="ml-auto flex items-center gap-1 cursor-pointer">
+                   <input type="checkbox" checked={mockupCallouts} onChange={e => setMockupCallouts(e.target.checked)} />
+                   Measurements
+                 </label>
+               </div>
+             )}
+             {activeItem.selectedVariant && (
+               <div className="flex items-center gap-2 mt-2 text-xs">
+                 <span className="text-gray-500">Shop drawing</span>
+                 <button
+                   onClick={() => handleDownloadShopDrawing('svg')}
+                   className="px-2 py-1 border rounded hover:bg-gray-100"
+                 >
+                   SVG
+                 </button>
+                 <button
+                   onClick={() => handleDownloadShopDrawing('dxf')}
+                   className="px-2 py-1 border rounded hover:bg-gray-100"
+                 >
+                   DXF
+                 </button>
+                 {items.length > 1 && <span className="text-gray-400 truncate">{describeLineItem(activeItem)}</span>}
+               </div>
+             )}
+             {installConfig.permit && (
+               <div className="flex items-center gap-2 mt-2 text-xs">
+                 <span className="text-gray-500">Permit package</span>
+                 <button
+                   onClick={handleExportPermitPackage}
+                   disabled={isExportingPermit}
+                   className="px-2 py-1 border rounded hover:bg-gray-100 disabled:opacity-50"
+                 >
+                   PDF
+                 </button>
+                 {isExportingPermit && <Loader2 className="w-3 h-3 animate-spin" />}
+                 <span className="text-gray-400 truncate">{(compliance.pack?.permitPackage ? compliance.pack.municipality : 'Standard')} template</span>
+               </div>
+             )}
+             {canCompareTiers && (
+               <button
+                onClick={() => setShowTiers(true)}
+                className="w-full mt-2 py-2 border border-slate-800 text-slate-800 rounded hover:bg-slate-100 flex items-center justify-center gap-2"
+               >
+                 <LayoutGrid className="w-4 h-4" /> Compare Good / Better / Best
+               </button>
+             )}
           </div>
         )}
       </div>
@@ -517,24 +1616,71 @@ const App: React.FC = () => {
       <div className="flex-1 bg-gray-100 flex items-center justify-center p-8 relative overflow-hidden">
         <div className="bg-white shadow-2xl rounded-xl overflow-hidden max-w-5xl w-full relative">
            <ImageCalibrator 
+             imageUrl={imageUrl}
              onImageLoaded={handleImageLoaded}
              onCalibrated={handleCalibrated}
              pxPerInch={pxPerInch}
+             perspective={perspective}
+             onDisplaySizeChange={setPhotoSize}
+             nightLevel={nightLevel}
            >
-              {pxPerInch && selectedVariant && (
+              {pxPerInch && items.map(item => item.selectedVariant && (
                 <DraggableSign 
-                  variant={selectedVariant}
-                  text={signText}
-                  signType={signType}
-                  dimensions={{ widthIn, heightIn }}
+                  key={`${sessionKey}-${item.id}`}
+                  variant={item.selectedVariant}
+                  text={item.text}
+                  signType={item.signType}
+                  dimensions={item.dimensions}
+                  options={item.options}
                   pxPerInch={pxPerInch}
-                  placement={placement}
+                  perspective={perspective}
+                  placement={item.placement}
+                  position={item.position}
+                  onPositionChange={pos => updateItem(item.id, { position: pos })}
+                  isActive={item.id === activeItem.id}
+                  onSelect={() => setActiveItemId(item.id)}
+                  metrics={item.signType === SignType.CHANNEL_LETTERS ? item.metrics : undefined}
+                  zoneOverflow={isWiderThanZone(item)}
+                  nightLevel={nightLevel}
+                  arrangement={hasLayout(item) ? arrangeLayout(item) : null}
+                />
+              ))}
+              {measureView && (
+                <MeasurementLayer
+                  measurements={measurements}
+                  gradePoint={gradePoint}
+                  signCallouts={sizeCallouts}
+                  view={measureView}
+                  onChange={setMeasurements}
+                  onGradePointChange={setGradePoint}
                 />
               )}
            </ImageCalibrator>
+
+           {/* Day / dusk / night preview */}
+           {pxPerInch && (
+             <div className="absolute bottom-4 left-4 z-30 bg-white/90 rounded-lg shadow px-3 py-2 flex items-center gap-2 text-xs text-gray-700">
+               <button onClick={() => setNightLevel(0)} title="Day" className="hover:text-amber-500">
+                 <Sun className="w-4 h-4" />
+               </button>
+               <input
+                 type="range"
+                 min={0}
+                 max={1}
+                 step={0.05}
+                 value={nightLevel}
+                 onChange={e => setNightLevel(Number(e.target.value))}
+                 className="w-32"
+                 title="Dusk"
+               />
+               <button onClick={() => setNightLevel(1)} title="Night" className="hover:text-indigo-600">
+                 <Moon className="w-4 h-4" />
+               </button>
+             </div>
+           )}
            
            {/* Help Overlay if needed */}
-           {pxPerInch && !selectedVariant && (
+           {pxPerInch && !items.some(i => i.selectedVariant) && (
              <div className="absolute top-4 right-4 bg-white/90 p-4 rounded-lg shadow-lg max-w-xs z-10 pointer-events-none">
                <h3 className="font-bold text-gray-800 mb-1">Ready to Design</h3>
                <p className="text-sm text-gray-600">Use the left panel to configure your sign and generate AI designs.</p>
@@ -542,6 +1688,51 @@ const App: React.FC = () => {
            )}
         </div>
       </div>
+
+      {showLibrary && (
+        <QuoteLibrary
+          currentJobId={jobId}
+          onOpen={handleOpenJob}
+          onNewJob={handleNewJob}
+          onClose={() => setShowLibrary(false)}
+        />
+      )}
+
+      {showTiers && tiers.length > 0 && (
+        <TierComparison
+          tiers={tiers}
+          thumbnails={tierThumbnails}
+          selectedVariantIndex={selectedTier?.variantIndex ?? null}
+          currency={taxProfile.currency}
+          onChoose={handleChooseTier}
+          onExport={handleExportTieredPDF}
+          onClose={() => setShowTiers(false)}
+        />
+      )}
+
+      {showBrandSettings && (
+        <BrandSettings
+          brandId={brand.id}
+          onApply={template => {
+            setBrands(listBrandTemplates());
+            setBrand(template);
+            setActiveBrand(template.id);
+          }}
+          onClose={() => {
+            setBrands(listBrandTemplates());
+            setBrand(getBrandTemplate(brand.id));
+            setShowBrandSettings(false);
+          }}
+        />
+      )}
+
+      {showPricingAdmin && (
+        <PricingAdmin
+          rulebook={rulebook}
+          onApply={setRulebook}
+          onClose={() => setShowPricingAdmin(false)}
+        />
+      )}
     </div>
   );
 };
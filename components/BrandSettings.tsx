@@ -0,0 +1,266 @@
+import React, { useState, useMemo } from 'react';
+import { BrandTemplate, ProposalSection } from '../types';
+import { DEFAULT_BRAND_TEMPLATE } from '../constants';
+import { formatQuoteNumber, validateBrandTemplate } from '../utils/brand';
+import { deleteBrandTemplate, listBrandTemplates, saveBrandTemplate } from '../services/brandStore';
+import { ArrowDown, ArrowUp, Plus, Save, Trash2, X } from 'lucide-react';
+
+interface Props {
+  brandId: string;
+  onApply: (template: BrandTemplate) => void;
+  onClose: () => void;
+}
+
+const SECTION_LABELS: Record<ProposalSection, string> = {
+  COVER: 'Cover with mockup',
+  SPECS: 'Spec sheet',
+  PRICING: 'Itemized pricing',
+  TERMS: 'Terms & signature',
+};
+
+export const BrandSettings: React.FC<Props> = ({ brandId, onApply, onClose }) => {
+  const [brands, setBrands] = useState<BrandTemplate[]>(() => listBrandTemplates());
+  const [draft, setDraft] = useState<BrandTemplate>(() => brands.find(b => b.id === brandId) || brands[0]);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const issues = useMemo(() => validateBrandTemplate(draft), [draft]);
+  const isSaved = brands.some(b => b.id === draft.id);
+
+  const update = (patch: Partial<BrandTemplate>) => {
+    setDraft(prev => ({ ...prev, ...patch }));
+    setSaveError(null);
+  };
+
+  const moveSection = (index: number, offset: number) => {
+    const sections = [...draft.sections];
+    const [section] = sections.splice(index, 1);
+    sections.splice(index + offset, 0, section);
+    update({ sections });
+  };
+
+  const toggleSection = (section: ProposalSection) => {
+    update({
+      sections: draft.sections.includes(section)
+        ? draft.sections.filter(s => s !== section)
+        : [...draft.sections, section]
+    });
+  };
+
+  const handleLogo = (file: File | undefined) => {
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => update({ logoDataUrl: reader.result as string });
+    reader.onerror = () => alert("Failed to read the logo.");
+    reader.readAsDataURL(file);
+  };
+
+  const handleSave = () => {
+    try {
+      const saved = saveBrandTemplate(draft);
+      setBrands(listBrandTemplates());
+      onApply(saved);
+    } catch (e) {
+      setSaveError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const handleDelete = (brand: BrandTemplate) => {
+    if (!confirm(`Delete the ${brand.name} brand?`)) return;
+    deleteBrandTemplate(brand.id);
+    const remaining = listBrandTemplates();
+    setBrands(remaining);
+    setDraft(remaining.find(b => b.id === brand.id) || remaining[0]);
+  };
+
+  const handleNew = () => {
+    setDraft({ ...DEFAULT_BRAND_TEMPLATE, id: crypto.randomUUID(), name: 'New brand' });
+    setSaveError(null);
+  };
+
+  const textField = (label: string, field: 'name' | 'companyName' | 'quotePrefix' | 'quoteNumberFormat' | 'footer') => (
+    <label className="block text-xs">
+      <span className="text-gray-600">{label}</span>
+      <input
+        value={draft[field]}
+        onChange={e => update({ [field]: e.target.value })}
+        className="w-full p-1 border rounded"
+      />
+    </label>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col">
+        <div className="p-4 border-b flex items-center justify-between">
+          <h2 className="text-lg font-bold text-gray-900">Proposal Brands</h2>
+          <button onClick={onClose} className="p-1 rounded hover:bg-gray-100">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 grid grid-cols-1 md:grid-cols-3 gap-6">
+          <aside className="space-y-2">
+            <h3 className="text-sm font-bold text-gray-700 border-b pb-1">Brands</h3>
+            {brands.map(brand => (
+              <div
+                key={brand.id}
+                onClick={() => { setDraft(brand); setSaveError(null); }}
+                className={`flex items-center justify-between text-xs p-2 rounded border cursor-pointer
+                  ${brand.id === draft.id ? 'border-blue-600 bg-blue-50' : 'border-gray-200 hover:border-blue-300'}
+                `}
+              >
+                <span className="font-semibold truncate">{brand.name}</span>
+                {brand !== DEFAULT_BRAND_TEMPLATE && (
+                  <button
+                    onClick={e => { e.stopPropagation(); handleDelete(brand); }}
+                    className="text-gray-400 hover:text-red-600"
+                    title={brand.id === DEFAULT_BRAND_TEMPLATE.id ? 'Restore shipped template' : 'Delete brand'}
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                )}
+              </div>
+            ))}
+            <button onClick={handleNew} className="text-xs text-blue-600 flex items-center gap-1 hover:underline">
+              <Plus className="w-3 h-3" /> New brand
+            </button>
+          </aside>
+
+          <div className="md:col-span-2 grid grid-cols-1 md:grid-cols-2 gap-6">
+            <section className="space-y-2">
+              <h3 className="text-sm font-bold text-gray-700 border-b pb-1">Letterhead</h3>
+              {textField('Brand name', 'name')}
+              {textField('Company name', 'companyName')}
+              <label className="block text-xs">
+                <span className="text-gray-600">Address &amp; contact lines</span>
+                <textarea
+                  rows={4}
+                  value={draft.letterhead.join('\n')}
+                  onChange={e => update({ letterhead: e.target.value.split('\n') })}
+                  className="w-full p-1 border rounded"
+                />
+              </label>
+              <div className="flex items-center gap-2 text-xs">
+                {draft.logoDataUrl && <img src={draft.logoDataUrl} alt="Logo" className="h-10 border rounded" />}
+                <label className="text-blue-600 hover:underline cursor-pointer">
+                  {draft.logoDataUrl ? 'Replace logo' : 'Upload logo'}
+                  <input type="file" accept="image/png,image/jpeg" className="hidden" onChange={e => handleLogo(e.target.files?.[0])} />
+                </label>
+                {draft.logoDataUrl && (
+                  <button onClick={() => update({ logoDataUrl: null })} className="text-gray-500 hover:underline">Remove</button>
+                )}
+              </div>
+              <div className="grid grid-cols-2 gap-2 text-xs">
+                <label>
+                  <span className="text-gray-600">Accent colour</span>
+                  <input
+                    type="color"
+                    value={draft.accentColor}
+                    onChange={e => update({ accentColor: e.target.value })}
+                    className="w-full h-7 border rounded"
+                  />
+                </label>
+                <label>
+                  <span className="text-gray-600">Header</span>
+                  <select
+                    value={draft.headerLayout}
+                    onChange={e => update({ headerLayout: e.target.value as BrandTemplate['headerLayout'] })}
+                    className="w-full p-1 border rounded"
+                  >
+                    <option value="LEFT">Logo left</option>
+                    <option value="CENTERED">Centred</option>
+                  </select>
+                </label>
+              </div>
+              {textField('Page footer', 'footer')}
+            </section>
+
+            <section className="space-y-2">
+              <h3 className="text-sm font-bold text-gray-700 border-b pb-1">Pages</h3>
+              {draft.sections.map((section, i) => (
+                <div key={section} className="flex items-center gap-2 text-xs">
+                  <input type="checkbox" checked onChange={() => toggleSection(section)} />
+                  <span className="flex-1">{SECTION_LABELS[section]}</span>
+                  <button disabled={i === 0} onClick={() => moveSection(i, -1)} className="text-gray-400 hover:text-gray-700 disabled:opacity-30" title="Move up">
+                    <ArrowUp className="w-3 h-3" />
+                  </button>
+                  <button disabled={i === draft.sections.length - 1} onClick={() => moveSection(i, 1)} className="text-gray-400 hover:text-gray-700 disabled:opacity-30" title="Move down">
+                    <ArrowDown className="w-3 h-3" />
+                  </button>
+                </div>
+              ))}
+              {(Object.keys(SECTION_LABELS) as ProposalSection[]).filter(s => !draft.sections.includes(s)).map(section => (
+                <label key={section} className="flex items-center gap-2 text-xs text-gray-400">
+                  <input type="checkbox" checked={false} onChange={() => toggleSection(section)} />
+                  {SECTION_LABELS[section]}
+                </label>
+              ))}
+
+              <h3 className="text-sm font-bold text-gray-700 border-b pb-1 pt-2">Quote Numbers</h3>
+              <div className="grid grid-cols-2 gap-2">
+                {textField('Prefix', 'quotePrefix')}
+                {textField('Format', 'quoteNumberFormat')}
+              </div>
+              <p className="text-[10px] text-gray-400">
+                Tokens: {'{PREFIX} {YYYY} {YY} {MM} {SEQ}'} · Next looks like {formatQuoteNumber(draft, 42)}
+              </p>
+            </section>
+
+            <section className="space-y-2 md:col-span-2">
+              <h3 className="text-sm font-bold text-gray-700 border-b pb-1">Terms</h3>
+              <div className="grid grid-cols-2 gap-2 text-xs">
+                <label>
+                  <span className="text-gray-600">Valid for (days)</span>
+                  <input
+                    type="number"
+                    value={draft.validDays}
+                    onChange={e => update({ validDays: Number(e.target.value) })}
+                    className="w-full p-1 border rounded"
+                  />
+                </label>
+                <label>
+                  <span className="text-gray-600">Deposit (%)</span>
+                  <input
+                    type="number"
+                    step="any"
+                    value={Number((draft.depositPercent * 100).toFixed(4))}
+                    onChange={e => update({ depositPercent: Number(e.target.value) / 100 })}
+                    className="w-full p-1 border rounded"
+                  />
+                </label>
+              </div>
+              <label className="block text-xs">
+                <span className="text-gray-600">Terms (blank line between paragraphs)</span>
+                <textarea
+                  rows={6}
+                  value={draft.terms}
+                  onChange={e => update({ terms: e.target.value })}
+                  className="w-full p-1 border rounded"
+                />
+              </label>
+            </section>
+          </div>
+        </div>
+
+        <div className="p-4 border-t space-y-2">
+          {issues.length > 0 && (
+            <ul className="text-xs text-red-600 list-disc pl-4">
+              {issues.map(issue => <li key={issue.field}>{issue.field} {issue.message}</li>)}
+            </ul>
+          )}
+          {saveError && <p className="text-xs text-red-600">{saveError}</p>}
+          <div className="flex items-center gap-2">
+            {!isSaved && <span className="text-xs text-gray-500">Not saved yet</span>}
+            <button
+              onClick={handleSave}
+              disabled={issues.length > 0}
+              className="ml-auto px-4 py-2 bg-slate-800 text-white rounded hover:bg-slate-900 disabled:bg-gray-300 flex items-center gap-2 text-sm"
+            >
+              <Save className="w-4 h-4" /> Save & Use
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,101 @@
+import React from 'react';
+import { BylawRulePack, InstallConfig } from '../types';
+import { ComplianceResult, SiteSize } from '../utils/compliance';
+import { AlertTriangle, CheckCircle2, Landmark, XCircle } from 'lucide-react';
+
+interface Props {
+  result: ComplianceResult;
+  packs: BylawRulePack[];
+  packId: string | null; // null: from the address
+  detectedPack: BylawRulePack | null;
+  installConfig: InstallConfig;
+  measured: Partial<Record<SiteSize, number>>; // read off the measurements, shown until typed over
+  onPackChange: (packId: string | null) => void;
+  onInstallChange: (patch: Partial<InstallConfig>) => void;
+}
+
+const SITE_FIELDS: { key: SiteSize; label: string }[] = [
+  { key: 'frontageWidthIn', label: 'Frontage W' },
+  { key: 'frontageHeightIn', label: 'Frontage H' },
+  { key: 'windowWidthIn', label: 'Window W' },
+  { key: 'windowHeightIn', label: 'Window H' },
+];
+
+export const CompliancePanel: React.FC<Props> = ({ result, packs, packId, detectedPack, installConfig, measured, onPackChange, onInstallChange }) => {
+  const { pack, issues, permitRequired, permitReasons } = result;
+  const violations = issues.filter(i => i.severity === 'VIOLATION');
+  const warnings = issues.filter(i => i.severity === 'WARNING');
+
+  return (
+    <div className="p-3 border rounded-lg bg-gray-50 space-y-2 text-xs">
+      <h3 className="font-bold text-gray-700 flex items-center gap-2">
+        <Landmark className="w-4 h-4" /> Sign Bylaw
+      </h3>
+      <select
+        value={packId || ''}
+        onChange={e => onPackChange(e.target.value || null)}
+        className="w-full p-1 border rounded bg-white"
+      >
+        <option value="">From address: {detectedPack ? detectedPack.municipality : 'no rule pack'}</option>
+        {packs.map(p => <option key={p.id} value={p.id}>{p.municipality}</option>)}
+      </select>
+
+      {pack && (
+        <>
+          <p className="text-gray-400">{pack.source}{pack.reviewed ? `, checked ${pack.reviewed}` : ', not checked against the bylaw yet'}</p>
+          <div className="grid grid-cols-4 gap-1">
+            {SITE_FIELDS.map(({ key, label }) => (
+              <label key={key} className="text-gray-500">
+                {label}
+                <input
+                  type="number"
+                  min={0}
+                  value={installConfig[key] || ''}
+                  placeholder={measured[key] ? String(Math.round(measured[key]!)) : 'in'}
+                  onChange={e => onInstallChange({ [key]: Number(e.target.value) || undefined })}
+                  className="w-full p-1 border rounded bg-white"
+                />
+              </label>
+            ))}
+          </div>
+
+          {violations.map((issue, i) => (
+            <p key={`v${i}`} className="flex gap-1 text-red-600"><XCircle className="w-3 h-3 shrink-0 mt-0.5" /> {issue.message}</p>
+          ))}
+          {warnings.map((issue, i) => (
+            <p key={`w${i}`} className="flex gap-1 text-amber-600"><AlertTriangle className="w-3 h-3 shrink-0 mt-0.5" /> {issue.message}</p>
+          ))}
+          {issues.length === 0 && permitRequired !== null && (
+            <p className="flex gap-1 text-green-600"><CheckCircle2 className="w-3 h-3 shrink-0 mt-0.5" /> Within the bylaw limits.</p>
+          )}
+
+          {permitRequired !== null && <div className="pt-2 border-t">
+            {permitRequired ? (
+              <>
+                <p className="font-medium text-gray-700">Permit required</p>
+                <ul className="list-disc pl-4 text-gray-500">
+                  {permitReasons.map(reason => <li key={reason}>{reason}</li>)}
+                </ul>
+                {!installConfig.permit && (
+                  <button onClick={() => onInstallChange({ permit: true })} className="text-blue-600 hover:underline">
+                    Add the permit allowance
+                  </button>
+                )}
+              </>
+            ) : (
+              <>
+                <p className="font-medium text-gray-700">No permit needed</p>
+                {installConfig.permit && (
+                  <button onClick={() => onInstallChange({ permit: false })} className="text-blue-600 hover:underline">
+                    Remove the permit allowance
+                  </button>
+                )}
+              </>
+            )}
+          </div>}
+        </>
+      )}
+      {!pack && <p className="text-gray-400">No rule pack for this address, so limits and permits aren't checked.</p>}
+    </div>
+  );
+};
@@ -1,22 +1,55 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { DesignVariant, SignType, LightingType, SignPlacement } from '../types';
+import { DesignVariant, SignType, LightingType, SignPlacement, SignOptions, PerspectiveCalibration, TextMetrics } from '../types';
+import { applyHomography, invertMatrix3, multiplyMatrix3, toCssMatrix3d, wallToImageMatrix } from '../utils/perspective';
+import { isIlluminated } from '../utils/electrical';
+import { ambientRgb, underAmbient, withAlpha } from '../utils/lighting';
+import { SignArrangement } from '../utils/layout';
 
 interface Props {
   variant: DesignVariant;
   text: string;
   signType: SignType;
   dimensions: { widthIn: number; heightIn: number };
+  options?: SignOptions;
   pxPerInch: number;
+  perspective?: PerspectiveCalibration | null;
   placement?: SignPlacement;
+  position?: { x: number; y: number };
+  onPositionChange?: (position: { x: number; y: number }) => void;
+  isActive?: boolean;
+  onSelect?: () => void;
+  metrics?: TextMetrics;
+  zoneOverflow?: boolean;
+  nightLevel?: number; // 0 day, 1 night
+  arrangement?: SignArrangement | null; // stacked lines and a logo space, in place of the one line of text
 }
 
-export const DraggableSign: React.FC<Props> = ({ variant, text, signType, dimensions, pxPerInch, placement }) => {
+export const DraggableSign: React.FC<Props> = ({ variant, text, signType, dimensions, options = {}, pxPerInch, perspective, placement, position: savedPosition, onPositionChange, isActive = true, onSelect, metrics, zoneOverflow = false, nightLevel = 0, arrangement = null }) => {
   // Store position in pixels relative to the image container
   const [position, setPosition] = useState({ x: 0, y: 0 });
   const [isDragging, setIsDragging] = useState(false);
   const [hasInitialized, setHasInitialized] = useState(false);
   const dragStart = useRef({ x: 0, y: 0 });
+  const positionRef = useRef(position);
+  const appliedPlacement = useRef<SignPlacement | undefined>(undefined);
   const ref = useRef<HTMLDivElement>(null);
+  const wrapperRef = useRef<HTMLDivElement>(null);
+  const [stageSize, setStageSize] = useState({ width: 0, height: 0 });
+  positionRef.current = position;
+
+  // The photo container; the projected wrapper sits between it and the sign in 4-point mode
+  const getStage = (): HTMLElement | null =>
+    ((wrapperRef.current || ref.current)?.offsetParent as HTMLElement | null) || null;
+
+  useEffect(() => {
+    const measure = () => {
+      const stage = getStage();
+      if (stage) setStageSize({ width: stage.clientWidth, height: stage.clientHeight });
+    };
+    measure();
+    window.addEventListener('resize', measure);
+    return () => window.removeEventListener('resize', measure);
+  }, [perspective]);
 
   // Calculate pixel dimensions
   const heightPx = dimensions.heightIn * pxPerInch;
@@ -24,16 +57,22 @@ export const DraggableSign: React.FC<Props> = ({ variant, text, signType, dimens
 
   // Initialize position based on placement or default to center
   useEffect(() => {
-    if (ref.current && ref.current.offsetParent) {
-      const parent = ref.current.offsetParent as HTMLElement;
+    const parent = getStage();
+    if (parent) {
       
       let newX = 0;
       let newY = 0;
 
-      if (placement) {
+      if (!hasInitialized && savedPosition) {
+        // Restore where the sign was dragged to in a saved job
+        newX = savedPosition.x * parent.clientWidth;
+        newY = savedPosition.y * parent.clientHeight;
+        appliedPlacement.current = placement;
+      } else if (placement && placement !== appliedPlacement.current) {
         // Use detected placement center
         newX = ((placement.xmin + placement.xmax) / 2) * parent.clientWidth;
         newY = ((placement.ymin + placement.ymax) / 2) * parent.clientHeight;
+        appliedPlacement.current = placement;
       } else if (!hasInitialized) {
         // Default to center if first run and no placement
         newX = parent.clientWidth / 2;
@@ -49,6 +88,7 @@ export const DraggableSign: React.FC<Props> = ({ variant, text, signType, dimens
 
   const handleMouseDown = (e: React.MouseEvent) => {
     e.stopPropagation(); // Prevent drag from bubbling to image
+    onSelect?.();
     setIsDragging(true);
     dragStart.current = {
       x: e.clientX - position.x,
@@ -66,6 +106,13 @@ export const DraggableSign: React.FC<Props> = ({ variant, text, signType, dimens
 
   const handleMouseUp = () => {
     setIsDragging(false);
+    const parent = getStage();
+    if (parent && onPositionChange) {
+      onPositionChange({
+        x: positionRef.current.x / parent.clientWidth,
+        y: positionRef.current.y / parent.clientHeight
+      });
+    }
   };
 
   useEffect(() => {
@@ -87,7 +134,7 @@ export const DraggableSign: React.FC<Props> = ({ variant, text, signType, dimens
     if (!placement) return null;
     return (
       <div 
-        className="absolute border-2 border-dashed border-yellow-400/70 pointer-events-none z-10 flex items-start justify-center"
+        className={`absolute border-2 border-dashed pointer-events-none z-10 flex items-start justify-center ${zoneOverflow ? 'border-red-500/80' : 'border-yellow-400/70'}`}
         style={{
           top: `${placement.ymin * 100}%`,
           left: `${placement.xmin * 100}%`,
@@ -95,8 +142,8 @@ export const DraggableSign: React.FC<Props> = ({ variant, text, signType, dimens
           height: `${(placement.ymax - placement.ymin) * 100}%`,
         }}
       >
-        <span className="bg-yellow-400/90 text-black text-[10px] px-1 font-bold uppercase tracking-wider rounded-b">
-          Detected Zone
+        <span className={`text-[10px] px-1 font-bold uppercase tracking-wider rounded-b ${zoneOverflow ? 'bg-red-500/90 text-white' : 'bg-yellow-400/90 text-black'}`}>
+          {zoneOverflow ? 'Sign wider than zone' : 'Detected Zone'}
         </span>
       </div>
     );
@@ -110,28 +157,33 @@ export const DraggableSign: React.FC<Props> = ({ variant, text, signType, dimens
     transform: 'translate(-50%, -50%)', // Center the sign on the position point
     cursor: isDragging ? 'grabbing' : 'grab',
     userSelect: 'none',
-    zIndex: 20,
+    zIndex: isActive ? 21 : 20,
     fontFamily: variant.fontFamily,
-    color: variant.color || '#fff',
+    color: underAmbient(variant.color || '#fff', nightLevel),
     letterSpacing: variant.letterSpacing,
     whiteSpace: 'nowrap',
     lineHeight: 1, // Crucial for accurate height alignment
   };
 
-  // Specific Styles based on Type
-  if (signType === SignType.CHANNEL_LETTERS) {
+  // 3D return, highlight and wall light for letters of the given cap height
+  const letterShadow = (letterPx: number): string => {
     // 3D Depth Logic
     // Depth scales with letter height (e.g. 500px height -> 15-20px depth)
-    const depthPx = Math.max(2, Math.round(heightPx * 0.04));
+    const depthPx = Math.max(2, Math.round(letterPx * 0.04));
     
     // Base shadows array
     const shadows: string[] = [];
 
+    // 0. Lit faces glow as it gets dark
+    if (variant.lighting === LightingType.FRONT_LIT && nightLevel > 0) {
+        shadows.push(`0 0 ${letterPx * 0.15 * nightLevel}px ${variant.color || '#fff'}`);
+    }
+
     // 1. Highlight (Top-Left Edge) for realism - simulates light hitting top edge
-    shadows.push(`-1px -1px 1px rgba(255,255,255,0.5)`);
+    shadows.push(`-1px -1px 1px rgba(255,255,255,${0.5 * (1 - nightLevel)})`);
 
     // 2. 3D Thickness (The "Return") - Solid stack
-    const returnColor = '#1a1a1a'; // Dark casing color
+    const returnColor = underAmbient('#1a1a1a', nightLevel); // Dark casing color
     for (let i = 1; i <= depthPx; i++) {
         shadows.push(`${i}px ${i}px 0px ${returnColor}`);
     }
@@ -143,13 +195,15 @@ export const DraggableSign: React.FC<Props> = ({ variant, text, signType, dimens
         // Halo effect: Glow is BEHIND the can (after thickness)
         const glowColor = variant.color || '#ffffff';
         // Add multiple blur layers for smooth glow
-        shadows.push(`${castDistance}px ${castDistance}px ${heightPx * 0.1}px ${glowColor}`);
-        shadows.push(`${castDistance}px ${castDistance}px ${heightPx * 0.3}px ${glowColor}`);
+        // and spills further across the wall at night
+        const spread = 1 + nightLevel;
+        shadows.push(`${castDistance}px ${castDistance}px ${letterPx * 0.1 * spread}px ${glowColor}`);
+        shadows.push(`${castDistance}px ${castDistance}px ${letterPx * 0.3 * spread}px ${glowColor}`);
         // Add a dark "blocker" shadow right behind the can to separate it from the glow slightly?
         // No, standard halo is enough.
     } else if (variant.lighting === LightingType.FRONT_LIT) {
         // Cast shadow on wall
-        shadows.push(`${castDistance}px ${castDistance}px ${heightPx * 0.15}px rgba(0,0,0,0.6)`);
+        shadows.push(`${castDistance}px ${castDistance}px ${letterPx * 0.15}px rgba(0,0,0,${0.6 * (1 - nightLevel)})`);
         
         // Add a slight bloom to the face itself by adding a 0-offset glow at the beginning?
         // Note: text-shadow renders back-to-front. 
@@ -157,30 +211,43 @@ export const DraggableSign: React.FC<Props> = ({ variant, text, signType, dimens
         // But we can simulate inner glow using the text color itself or brightness.
     } else {
         // Non-lit: Just a standard drop shadow
-        shadows.push(`${castDistance}px ${castDistance}px ${heightPx * 0.08}px rgba(0,0,0,0.5)`);
+        shadows.push(`${castDistance}px ${castDistance}px ${letterPx * 0.08}px rgba(0,0,0,${0.5 * (1 - nightLevel)})`);
     }
 
-    containerStyle.textShadow = shadows.join(', ');
+    return shadows.join(', ');
+  };
+
+  // Specific Styles based on Type
+  if (signType === SignType.CHANNEL_LETTERS) {
+    if (variant.lighting === LightingType.FRONT_LIT && nightLevel > 0) {
+        containerStyle.color = variant.color || '#fff';
+    }
+    // Stacked lines each carry their own shadow
+    if (!arrangement) containerStyle.textShadow = letterShadow(heightPx);
     
-    // Improve Font Sizing Logic: Cap Height approx
-    const adjustedFontSize = heightPx / 0.7;
+    // Use the measured font size when available, otherwise approximate cap height
+    const adjustedFontSize = metrics ? metrics.fontSizeIn * pxPerInch : heightPx / 0.7;
     containerStyle.fontSize = `${adjustedFontSize}px`; 
 
     if (variant.stroke) {
-      containerStyle.WebkitTextStroke = `${variant.strokeWidth} ${variant.backgroundColor || '#000'}`;
+      containerStyle.WebkitTextStroke = `${variant.strokeWidth} ${underAmbient(variant.backgroundColor || '#000', nightLevel)}`;
     }
 
     if (variant.roundedBacker) {
-      containerStyle.backgroundColor = variant.backgroundColor || '#333';
+      containerStyle.backgroundColor = underAmbient(variant.backgroundColor || '#333', nightLevel);
       containerStyle.padding = `${heightPx * 0.1}px ${heightPx * 0.2}px`;
       containerStyle.borderRadius = `${heightPx * 0.5}px`;
-      containerStyle.boxShadow = '5px 5px 15px rgba(0,0,0,0.5)';
+      containerStyle.boxShadow = `5px 5px 15px rgba(0,0,0,${0.5 * (1 - nightLevel)})`;
     }
   } else {
-    // Lightbox or Vinyl - Fixed box size
+    // Cabinet, panel or vinyl - Fixed box size
     containerStyle.width = `${widthPx}px`;
     containerStyle.height = `${heightPx}px`;
-    containerStyle.backgroundColor = variant.backgroundColor || (signType === SignType.WINDOW_VINYL ? 'transparent' : '#fff');
+    const isLit = isIlluminated(signType, variant);
+    const faceColor = variant.backgroundColor || (signType === SignType.WINDOW_VINYL ? 'transparent' : '#fff');
+    // A lit face is lit from inside, so it keeps its daytime colours
+    containerStyle.backgroundColor = isLit ? faceColor : underAmbient(faceColor, nightLevel);
+    if (isLit) containerStyle.color = variant.color || '#fff';
     containerStyle.display = 'flex';
     containerStyle.alignItems = 'center';
     containerStyle.justifyContent = 'center';
@@ -188,25 +255,186 @@ export const DraggableSign: React.FC<Props> = ({ variant, text, signType, dimens
     containerStyle.overflow = 'hidden';
     containerStyle.padding = '10px'; // Prevent text hitting edge
     
-    if (signType === SignType.LIGHTBOX) {
-       containerStyle.border = '4px solid #333';
-       if (variant.lighting === LightingType.FRONT_LIT) {
-         containerStyle.boxShadow = `0 0 ${heightPx * 0.1}px rgba(255,255,255,0.5)`;
+    if (signType === SignType.LIGHTBOX || signType === SignType.PYLON || signType === SignType.BLADE) {
+       containerStyle.border = `4px solid ${underAmbient('#333333', nightLevel)}`;
+       if (isLit) {
+         containerStyle.boxShadow = `0 0 ${heightPx * 0.1 * (1 + 2 * nightLevel)}px ${withAlpha(faceColor, 0.5 + 0.4 * nightLevel)}`;
        }
     }
+
+    if (signType === SignType.FLAT_PANEL) {
+       // Thin aluminum panel: just an edge shadow, no cabinet frame
+       containerStyle.boxShadow = `2px 2px 4px rgba(0,0,0,${0.4 * (1 - nightLevel)})`;
+    }
+
+    // Pole and bracket hang outside the cabinet, so they can't be clipped
+    if (signType === SignType.PYLON || signType === SignType.BLADE) {
+       containerStyle.overflow = 'visible';
+    }
   }
 
-  return (
-    <>
-      {renderBoundingBox()}
-      <div 
-        ref={ref}
-        style={containerStyle} 
-        title="Drag to fine-tune position"
-        onMouseDown={handleMouseDown}
+  // Structure drawn outside the sign face
+  const renderStructure = () => {
+    if (signType === SignType.PYLON) {
+      // Pole runs from the bottom of the cabinet down to grade
+      const poleHeightPx = Math.max(0, (options.pylonHeightFt || 0) * 12 - dimensions.heightIn) * pxPerInch;
+      const poleWidthPx = Math.max(4, 10 * pxPerInch);
+      return (
+        <div
+          className="absolute pointer-events-none"
+          style={{
+            top: '100%',
+            left: '50%',
+            transform: 'translateX(-50%)',
+            width: poleWidthPx,
+            height: poleHeightPx,
+            background: `linear-gradient(90deg, ${underAmbient('#555555', nightLevel)}, ${underAmbient('#999999', nightLevel)} 40%, ${underAmbient('#444444', nightLevel)})`,
+          }}
+        />
+      );
+    }
+    if (signType === SignType.BLADE) {
+      // Wall bracket across the top, projecting from the left
+      const bracketPx = Math.max(3, 2 * pxPerInch);
+      return (
+        <div
+          className="absolute pointer-events-none"
+          style={{
+            bottom: `calc(100% + ${bracketPx}px)`,
+            left: -bracketPx * 4,
+            width: `calc(100% + ${bracketPx * 4}px)`,
+            height: bracketPx,
+            backgroundColor: underAmbient('#222222', nightLevel),
+          }}
+        />
+      );
+    }
+    return null;
+  };
+
+  // A logo on the wall gets the same return and cast shadow as the letters; a printed one only dims at night
+  const logoFilter = (logoPx: number, onWall: boolean): string => {
+    const lit = isIlluminated(signType, variant);
+    const filters = lit ? [] : [`brightness(${Math.max(...ambientRgb(nightLevel)) / 255})`];
+    if (onWall) {
+      const depthPx = Math.max(2, Math.round(logoPx * 0.04));
+      filters.push(`drop-shadow(${depthPx}px ${depthPx}px 0 ${underAmbient('#1a1a1a', nightLevel)})`);
+      filters.push(lit && variant.lighting === LightingType.BACK_LIT
+        ? `drop-shadow(3px 3px ${logoPx * 0.1 * (1 + nightLevel)}px ${variant.color || '#ffffff'})`
+        : `drop-shadow(3px 3px ${logoPx * 0.08}px rgba(0,0,0,${0.5 * (1 - nightLevel)}))`);
+    }
+    return filters.join(' ') || 'none';
+  };
+
+  // Every line at its own place, height and font, plus the logo or the space kept for it
+  const renderArrangement = (layout: SignArrangement) => {
+    const isLetters = signType === SignType.CHANNEL_LETTERS;
+    return (
+      <div
+        style={isLetters
+          ? { position: 'relative', width: layout.widthIn * pxPerInch, height: layout.heightIn * pxPerInch }
+          : { position: 'absolute', inset: 0 }}
       >
-        {text}
+        {layout.elements.map(element => {
+          const capPx = element.heightIn * pxPerInch;
+          return (
+            <span
+              key={element.id}
+              style={{
+                position: 'absolute',
+                left: element.xIn * pxPerInch,
+                top: (element.topIn + element.heightIn / 2) * pxPerInch,
+                transform: 'translateY(-50%)',
+                fontFamily: element.fontFamily,
+                fontSize: element.metrics ? element.metrics.fontSizeIn * pxPerInch : capPx / 0.7,
+                textShadow: isLetters ? letterShadow(capPx) : undefined,
+              }}
+            >
+              {element.text}
+            </span>
+          );
+        })}
+        {layout.logo?.artwork && (
+          <img
+            src={layout.logo.artwork.imageUrl}
+            alt={layout.logo.artwork.fileName}
+            draggable={false}
+            className="absolute max-w-none"
+            style={{
+              left: layout.logo.xIn * pxPerInch,
+              top: layout.logo.topIn * pxPerInch,
+              width: layout.logo.widthIn * pxPerInch,
+              height: layout.logo.heightIn * pxPerInch,
+              filter: logoFilter(layout.logo.heightIn * pxPerInch, isLetters),
+            }}
+          />
+        )}
+        {layout.logo && !layout.logo.artwork && (
+          <div
+            className="absolute flex items-center justify-center border-2 border-dashed font-sans font-bold"
+            style={{
+              left: layout.logo.xIn * pxPerInch,
+              top: layout.logo.topIn * pxPerInch,
+              width: layout.logo.widthIn * pxPerInch,
+              height: layout.logo.heightIn * pxPerInch,
+              borderColor: 'currentColor',
+              fontSize: Math.min(layout.logo.heightIn * pxPerInch * 0.3, 14),
+              letterSpacing: 0,
+            }}
+          >
+            LOGO
+          </div>
+        )}
       </div>
+    );
+  };
+
+  const sign = (
+    <div 
+      ref={ref}
+      style={containerStyle} 
+      title="Drag to fine-tune position"
+      onMouseDown={handleMouseDown}
+    >
+      {arrangement ? renderArrangement(arrangement) : text}
+      {renderStructure()}
+    </div>
+  );
+
+  // 4-point calibration: lay the sign out flat at pxPerInch (1 inch = pxPerInch local px)
+  // around its centre on the wall, then project that onto the photo with the homography.
+  let projection: string | null = null;
+  if (perspective && stageSize.width > 0) {
+    try {
+      const wallToImage = wallToImageMatrix(perspective, stageSize.width, stageSize.height);
+      const wallCenter = applyHomography(invertMatrix3(wallToImage), position);
+      const localToWall = [1 / pxPerInch, 0, wallCenter.x, 0, 1 / pxPerInch, wallCenter.y, 0, 0, 1];
+      projection = toCssMatrix3d(multiplyMatrix3(wallToImage, localToWall));
+    } catch (e) {
+      projection = null; // Degenerate calibration: fall back to the flat preview
+    }
+  }
+
+  return (
+    <>
+      {isActive && renderBoundingBox()}
+      {projection ? (
+        <div
+          ref={wrapperRef}
+          style={{
+            position: 'absolute',
+            left: 0,
+            top: 0,
+            width: 0,
+            height: 0,
+            transformOrigin: '0 0',
+            transform: projection,
+            zIndex: containerStyle.zIndex,
+          }}
+        >
+          {React.cloneElement(sign, { style: { ...containerStyle, left: 0, top: 0 } })}
+        </div>
+      ) : sign}
     </>
   );
 };
\ No newline at end of file
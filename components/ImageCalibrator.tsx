@@ -1,15 +1,30 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Ruler, Upload } from 'lucide-react';
+import { Ruler, Upload, Grid3x3 } from 'lucide-react';
+import { PerspectiveCalibration } from '../types';
+import { averagePxPerInch, wallToImageMatrix } from '../utils/perspective';
+import { ambientColor } from '../utils/lighting';
 
 interface Props {
+  imageUrl: string | null;
   onImageLoaded: (file: File, imageUrl: string) => void;
-  onCalibrated: (pxPerInch: number) => void;
+  onCalibrated: (pxPerInch: number, perspective?: PerspectiveCalibration | null) => void;
   pxPerInch: number | null;
+  perspective?: PerspectiveCalibration | null;
+  onDisplaySizeChange?: (size: { width: number; height: number }) => void;
+  nightLevel?: number; // 0 day, 1 night
   children?: React.ReactNode;
 }
 
-export const ImageCalibrator: React.FC<Props> = ({ onImageLoaded, onCalibrated, pxPerInch, children }) => {
-  const [imageUrl, setImageUrl] = useState<string | null>(null);
+type CalibrationMode = 'LINE' | 'PLANE';
+
+const CORNER_LABELS = ['top-left', 'top-right', 'bottom-right', 'bottom-left'];
+
+export const ImageCalibrator: React.FC<Props> = ({ imageUrl, onImageLoaded, onCalibrated, pxPerInch, perspective, onDisplaySizeChange, nightLevel = 0, children }) => {
+  const [mode, setMode] = useState<CalibrationMode>('LINE');
+  // 4-point mode: corners clicked so far, as 0-1 of the photo
+  const [corners, setCorners] = useState<{ x: number; y: number }[]>([]);
+  const [rectWidth, setRectWidth] = useState<string>('');
+  const [rectHeight, setRectHeight] = useState<string>('');
   const [isDrawing, setIsDrawing] = useState(false);
   const [startPoint, setStartPoint] = useState<{ x: number; y: number } | null>(null);
   const [endPoint, setEndPoint] = useState<{ x: number; y: number } | null>(null);
@@ -18,16 +33,26 @@ export const ImageCalibrator: React.FC<Props> = ({ onImageLoaded, onCalibrated,
   
   const imageRef = useRef<HTMLImageElement>(null);
 
+  const reportDisplaySize = () => {
+    if (!imageRef.current || !onDisplaySizeChange) return;
+    onDisplaySizeChange({ width: imageRef.current.clientWidth, height: imageRef.current.clientHeight });
+  };
+
+  useEffect(() => {
+    window.addEventListener('resize', reportDisplaySize);
+    return () => window.removeEventListener('resize', reportDisplaySize);
+  });
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
       const file = e.target.files[0];
       const url = URL.createObjectURL(file);
-      setImageUrl(url);
       onImageLoaded(file, url);
       // Reset calibration
       onCalibrated(0);
       setStartPoint(null);
       setEndPoint(null);
+      setCorners([]);
       setShowInput(false);
     }
   };
@@ -44,6 +69,15 @@ export const ImageCalibrator: React.FC<Props> = ({ onImageLoaded, onCalibrated,
   const handleMouseDown = (e: React.MouseEvent) => {
     if (!imageUrl || pxPerInch) return; // Don't allow recalibrating easily to avoid accidental clicks (UX choice for MVP)
     if (showInput) return;
+
+    if (mode === 'PLANE') {
+      if (!imageRef.current || corners.length >= 4) return;
+      const { x, y } = getCoords(e);
+      const next = [...corners, { x: x / imageRef.current.clientWidth, y: y / imageRef.current.clientHeight }];
+      setCorners(next);
+      if (next.length === 4) setShowInput(true);
+      return;
+    }
     
     setIsDrawing(true);
     const coords = getCoords(e);
@@ -62,6 +96,26 @@ export const ImageCalibrator: React.FC<Props> = ({ onImageLoaded, onCalibrated,
     setShowInput(true);
   };
 
+  const submitPlaneCalibration = () => {
+    if (!imageRef.current || corners.length !== 4) return;
+    const widthIn = parseFloat(rectWidth);
+    const heightIn = parseFloat(rectHeight);
+    if (isNaN(widthIn) || widthIn <= 0 || isNaN(heightIn) || heightIn <= 0) return;
+
+    const calibration: PerspectiveCalibration = { corners, widthIn, heightIn };
+    const { clientWidth, clientHeight } = imageRef.current;
+    try {
+      wallToImageMatrix(calibration, clientWidth, clientHeight);
+    } catch (e) {
+      alert("Those corners don't form a usable rectangle. Please click them again.");
+      setCorners([]);
+      setShowInput(false);
+      return;
+    }
+    onCalibrated(averagePxPerInch(calibration, clientWidth, clientHeight), calibration);
+    setShowInput(false);
+  };
+
   const submitCalibration = () => {
     if (!startPoint || !endPoint) return;
     const dx = endPoint.x - startPoint.x;
@@ -79,6 +133,9 @@ export const ImageCalibrator: React.FC<Props> = ({ onImageLoaded, onCalibrated,
     onCalibrated(0);
     setStartPoint(null);
     setEndPoint(null);
+    setCorners([]);
+    setRectWidth('');
+    setRectHeight('');
     setShowInput(false);
     setRealDistance('');
   };
@@ -108,18 +165,63 @@ export const ImageCalibrator: React.FC<Props> = ({ onImageLoaded, onCalibrated,
               onMouseMove={handleMouseMove}
               onMouseUp={handleMouseUp}
               onDragStart={(e) => e.preventDefault()}
+              onLoad={reportDisplaySize}
             />
+
+            {/* Dusk / night: darken and tint the photo, the signs light themselves */}
+            {nightLevel > 0 && (
+              <div
+                className="absolute inset-0 pointer-events-none"
+                style={{ backgroundColor: ambientColor(nightLevel), mixBlendMode: 'multiply' }}
+              />
+            )}
             
             {/* Children Elements (Sign Overlay) */}
             {children}
 
             {/* Overlay Instructions if not calibrated */}
             {!pxPerInch && !showInput && (
-              <div className="absolute top-4 left-4 bg-black/70 text-white px-4 py-2 rounded-lg pointer-events-none backdrop-blur-sm z-30">
-                <p className="flex items-center gap-2"><Ruler className="w-4 h-4" /> Click and drag a known length (e.g. door width) to calibrate.</p>
+              <div className="absolute top-4 left-4 z-30 flex flex-col gap-2 items-start">
+                <div className="flex rounded-lg overflow-hidden shadow text-xs font-medium">
+                  <button
+                    onClick={() => { setMode('LINE'); setCorners([]); }}
+                    className={`px-3 py-1 flex items-center gap-1 ${mode === 'LINE' ? 'bg-blue-600 text-white' : 'bg-white/90 text-gray-700'}`}
+                  >
+                    <Ruler className="w-3 h-3" /> Line
+                  </button>
+                  <button
+                    onClick={() => { setMode('PLANE'); setStartPoint(null); setEndPoint(null); }}
+                    className={`px-3 py-1 flex items-center gap-1 ${mode === 'PLANE' ? 'bg-blue-600 text-white' : 'bg-white/90 text-gray-700'}`}
+                  >
+                    <Grid3x3 className="w-3 h-3" /> 4-Point
+                  </button>
+                </div>
+                <div className="bg-black/70 text-white px-4 py-2 rounded-lg pointer-events-none backdrop-blur-sm">
+                  {mode === 'LINE' ? (
+                    <p className="flex items-center gap-2"><Ruler className="w-4 h-4" /> Click and drag a known length (e.g. door width) to calibrate.</p>
+                  ) : (
+                    <p className="flex items-center gap-2">
+                      <Grid3x3 className="w-4 h-4" /> Click the {CORNER_LABELS[corners.length]} corner of a known rectangle (e.g. a door or window).
+                    </p>
+                  )}
+                </div>
               </div>
             )}
 
+            {/* Reference Rectangle (4-point mode) */}
+            {(perspective?.corners || corners).length > 0 && (
+              <svg className="absolute inset-0 pointer-events-none w-full h-full z-40" viewBox="0 0 1 1" preserveAspectRatio="none">
+                <polygon
+                  points={(perspective?.corners || corners).map(c => `${c.x},${c.y}`).join(' ')}
+                  fill="rgba(239,68,68,0.1)"
+                  stroke="#ef4444"
+                  strokeWidth="2"
+                  strokeDasharray={perspective ? '6 4' : undefined}
+                  vectorEffect="non-scaling-stroke"
+                />
+              </svg>
+            )}
+
             {/* Drawing Line */}
             {startPoint && endPoint && (
               <svg className="absolute inset-0 pointer-events-none w-full h-full z-40">
@@ -136,8 +238,47 @@ export const ImageCalibrator: React.FC<Props> = ({ onImageLoaded, onCalibrated,
               </svg>
             )}
 
+            {/* Input Dialog (4-point) */}
+            {showInput && mode === 'PLANE' && (
+              <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 bg-white p-4 rounded-lg shadow-xl z-50 w-64">
+                <h3 className="font-bold text-gray-900 mb-2">Calibration</h3>
+                <p className="text-sm text-gray-600 mb-3">How big is this rectangle, in inches?</p>
+                <div className="grid grid-cols-2 gap-2 mb-2">
+                  <input 
+                    type="number" 
+                    value={rectWidth}
+                    onChange={(e) => setRectWidth(e.target.value)}
+                    className="border rounded px-2 py-1 w-full"
+                    placeholder="Width"
+                    autoFocus
+                  />
+                  <input 
+                    type="number" 
+                    value={rectHeight}
+                    onChange={(e) => setRectHeight(e.target.value)}
+                    className="border rounded px-2 py-1 w-full"
+                    placeholder="Height"
+                  />
+                </div>
+                <div className="flex gap-2 justify-end">
+                  <button 
+                    onClick={() => { setCorners([]); setShowInput(false); }}
+                    className="px-3 py-1 rounded text-gray-600 hover:bg-gray-100"
+                  >
+                    Redo
+                  </button>
+                  <button 
+                    onClick={submitPlaneCalibration}
+                    className="bg-blue-600 text-white px-3 py-1 rounded hover:bg-blue-700"
+                  >
+                    Set
+                  </button>
+                </div>
+              </div>
+            )}
+
             {/* Input Dialog */}
-            {showInput && (
+            {showInput && mode === 'LINE' && (
               <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 bg-white p-4 rounded-lg shadow-xl z-50 w-64">
                 <h3 className="font-bold text-gray-900 mb-2">Calibration</h3>
                 <p className="text-sm text-gray-600 mb-3">How many inches is this line?</p>
@@ -0,0 +1,238 @@
+import React, { useState } from 'react';
+import { ElementAlign, LayoutLine, LayoutLogo, LogoFabrication, SignLayout, SignType } from '../types';
+import { FONT_LIBRARY } from '../constants';
+import { createLayout, createLayoutLine } from '../utils/layout';
+import { LOGO_FILE_TYPES, logoGeometry, resizeLogo, traceLogo } from '../utils/logo';
+import { AlignCenter, AlignLeft, AlignRight, ImageIcon, Loader2, Plus, Rows3, Upload, X } from 'lucide-react';
+
+interface Props {
+  layout?: SignLayout;
+  signType: SignType;
+  mainHeightIn: number;
+  designFont?: string; // the selected design's font, used by lines without their own
+  onChange: (layout: SignLayout | undefined) => void;
+}
+
+const ALIGN_ICONS: Record<ElementAlign, React.ElementType> = {
+  LEFT: AlignLeft,
+  CENTER: AlignCenter,
+  RIGHT: AlignRight,
+};
+
+const LOGO_SIDES: { side: LayoutLogo['side']; label: string }[] = [
+  { side: 'LEFT', label: 'Left' },
+  { side: 'ABOVE', label: 'Above' },
+  { side: 'RIGHT', label: 'Right' },
+];
+
+// Face area and outline length at the logo's size, as it will be priced
+const logoSummary = (logo: LayoutLogo): string => {
+  const shape = logoGeometry(logo);
+  return logo.fabrication === 'CUT_OUT'
+    ? `${shape.shapes} shapes, ${shape.faceSqFt.toFixed(1)} sqft, ${shape.returnFt.toFixed(1)} ft of return`
+    : `${shape.outlineSqFt.toFixed(1)} sqft, ${shape.outlineFt.toFixed(1)} ft outline`;
+};
+
+const FABRICATION_LABELS: Record<LogoFabrication, string> = {
+  CABINET: 'Logo cabinet',
+  CUT_OUT: 'Formed shapes',
+};
+
+export const LayoutEditor: React.FC<Props> = ({ layout, signType, mainHeightIn, designFont, onChange }) => {
+  const current = layout || createLayout();
+  const [isTracing, setIsTracing] = useState(false);
+  // Back to a plain one-line sign once nothing is left but the main line
+  const update = (patch: Partial<SignLayout>) => {
+    const next = { ...current, ...patch };
+    onChange(next.lines.length > 0 || next.logo ? next : undefined);
+  };
+  const updateLine = (id: string, patch: Partial<LayoutLine>) =>
+    update({ lines: current.lines.map(line => line.id === id ? { ...line, ...patch, metrics: undefined } : line) });
+
+  const handleLogoUpload = async (file: File | undefined) => {
+    if (!file) return;
+    setIsTracing(true);
+    try {
+      const artwork = await traceLogo(file);
+      const logo = current.logo || { widthIn: mainHeightIn, heightIn: mainHeightIn, side: 'LEFT' as const };
+      update({ logo: resizeLogo({ ...logo, artwork, fabrication: logo.fabrication || 'CABINET' }, { heightIn: logo.heightIn }) });
+    } catch (e) {
+      console.error("Failed to trace logo:", e);
+      alert(e instanceof Error ? e.message : "Failed to trace the logo.");
+    } finally {
+      setIsTracing(false);
+    }
+  };
+
+  const uploadButton = (label: string) => (
+    <label className={`flex items-center gap-1 text-blue-600 hover:underline ${isTracing ? 'opacity-50 pointer-events-none' : 'cursor-pointer'}`}>
+      {isTracing ? <Loader2 className="w-3 h-3 animate-spin" /> : <Upload className="w-3 h-3" />}
+      {isTracing ? 'Tracing…' : label}
+      <input
+        type="file"
+        accept={LOGO_FILE_TYPES.join(',')}
+        className="hidden"
+        onChange={e => {
+          handleLogoUpload(e.target.files?.[0]);
+          e.target.value = '';
+        }}
+      />
+    </label>
+  );
+
+  const alignButtons = (value: ElementAlign, onPick: (align: ElementAlign) => void) => (
+    <div className="flex rounded overflow-hidden border shrink-0">
+      {(Object.keys(ALIGN_ICONS) as ElementAlign[]).map(align => {
+        const Icon = ALIGN_ICONS[align];
+        return (
+          <button
+            key={align}
+            onClick={() => onPick(align)}
+            title={`Align ${align.toLowerCase()}`}
+            className={`p-1 ${value === align ? 'bg-blue-600 text-white' : 'bg-white text-gray-500 hover:bg-gray-100'}`}
+          >
+            <Icon className="w-3 h-3" />
+          </button>
+        );
+      })}
+    </div>
+  );
+
+  return (
+    <div className="p-3 border rounded-lg bg-gray-50 space-y-2 text-xs">
+      <div className="flex items-center justify-between">
+        <h3 className="font-bold text-gray-700 flex items-center gap-2">
+          <Rows3 className="w-4 h-4" /> Layout
+        </h3>
+        <div className="flex items-center gap-2">
+          <span className="text-gray-500">Main line</span>
+          {alignButtons(current.align, align => update({ align }))}
+        </div>
+      </div>
+
+      {current.lines.map(line => (
+        <div key={line.id} className="p-2 bg-white border rounded space-y-1">
+          <div className="flex items-center gap-1">
+            <input
+              type="text"
+              value={line.text}
+              onChange={e => updateLine(line.id, { text: e.target.value })}
+              placeholder="e.g. WOOD-FIRED OVEN"
+              className="flex-1 min-w-0 p-1 border rounded"
+            />
+            {alignButtons(line.align, align => updateLine(line.id, { align }))}
+            <button onClick={() => update({ lines: current.lines.filter(l => l.id !== line.id) })} title="Remove line" className="p-1 text-gray-400 hover:text-red-600">
+              <X className="w-3 h-3" />
+            </button>
+          </div>
+          <div className="flex items-center gap-1">
+            <input
+              type="number"
+              min={1}
+              value={line.heightIn}
+              onChange={e => updateLine(line.id, { heightIn: Number(e.target.value) })}
+              className="w-14 p-1 border rounded"
+            />
+            <span className="text-gray-500">in</span>
+            <select
+              value={line.fontFamily || ''}
+              onChange={e => updateLine(line.id, { fontFamily: e.target.value || undefined })}
+              className="flex-1 min-w-0 p-1 border rounded bg-white"
+              style={{ fontFamily: line.fontFamily || designFont }}
+            >
+              <option value="">Design font{designFont ? ` (${designFont})` : ''}</option>
+              {Object.entries(FONT_LIBRARY).map(([category, fonts]) => (
+                <optgroup key={category} label={category}>
+                  {fonts.map(font => <option key={font} value={font} style={{ fontFamily: font }}>{font}</option>)}
+                </optgroup>
+              ))}
+            </select>
+          </div>
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between gap-2">
+        <button onClick={() => update({ lines: [...current.lines, createLayoutLine(mainHeightIn)] })} className="flex items-center gap-1 text-blue-600 hover:underline">
+          <Plus className="w-3 h-3" /> Add a line
+        </button>
+        {(current.lines.length > 0 || current.logo) && (
+          <label className="flex items-center gap-1 text-gray-500">
+            Gap
+            <input
+              type="number"
+              min={0}
+              value={current.lineGapIn}
+              onChange={e => update({ lineGapIn: Math.max(0, Number(e.target.value)) })}
+              className="w-12 p-1 border rounded"
+            />
+            in
+          </label>
+        )}
+      </div>
+
+      {current.logo ? (
+        <div className="p-2 bg-white border rounded space-y-1">
+          <div className="flex items-center gap-1">
+            <ImageIcon className="w-3 h-3 text-gray-500 shrink-0" />
+            <input
+              type="number"
+              min={1}
+              value={current.logo.widthIn}
+              onChange={e => update({ logo: resizeLogo(current.logo!, { widthIn: Number(e.target.value) }) })}
+              className="w-12 p-1 border rounded"
+            />
+            <span className="text-gray-500">×</span>
+            <input
+              type="number"
+              min={1}
+              value={current.logo.heightIn}
+              onChange={e => update({ logo: resizeLogo(current.logo!, { heightIn: Number(e.target.value) }) })}
+              className="w-12 p-1 border rounded"
+            />
+            <span className="text-gray-500">in</span>
+            <select
+              value={current.logo.side}
+              onChange={e => update({ logo: { ...current.logo!, side: e.target.value as LayoutLogo['side'] } })}
+              className="flex-1 min-w-0 p-1 border rounded bg-white"
+            >
+              {LOGO_SIDES.map(({ side, label }) => <option key={side} value={side}>{label}</option>)}
+            </select>
+            <button onClick={() => update({ logo: undefined })} title="Remove logo" className="p-1 text-gray-400 hover:text-red-600">
+              <X className="w-3 h-3" />
+            </button>
+          </div>
+          {current.logo.artwork ? (
+            <div className="flex items-center gap-2">
+              <img src={current.logo.artwork.imageUrl} alt="" className="w-8 h-8 object-contain border rounded bg-gray-50" />
+              <div className="flex-1 min-w-0">
+                <p className="truncate text-gray-700">{current.logo.artwork.fileName}</p>
+                <p className="text-gray-400">{logoSummary(current.logo)}</p>
+              </div>
+              {uploadButton('Replace')}
+            </div>
+          ) : uploadButton('Upload logo (PNG or SVG)')}
+          {current.logo.artwork && signType === SignType.CHANNEL_LETTERS && (
+            <div className="flex rounded overflow-hidden border">
+              {(Object.keys(FABRICATION_LABELS) as LogoFabrication[]).map(fabrication => (
+                <button
+                  key={fabrication}
+                  onClick={() => update({ logo: { ...current.logo!, fabrication } })}
+                  className={`flex-1 px-2 py-1 ${(current.logo!.fabrication || 'CABINET') === fabrication ? 'bg-blue-600 text-white' : 'bg-white text-gray-600 hover:bg-gray-100'}`}
+                >
+                  {FABRICATION_LABELS[fabrication]}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      ) : (
+        <div className="flex items-center justify-between gap-2">
+          {uploadButton('Upload a logo')}
+          <button onClick={() => update({ logo: { widthIn: mainHeightIn, heightIn: mainHeightIn, side: 'LEFT' } })} className="flex items-center gap-1 text-gray-500 hover:underline">
+            <Plus className="w-3 h-3" /> Keep space for one
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
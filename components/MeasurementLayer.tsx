@@ -0,0 +1,218 @@
+import React, { useState, useRef, useMemo } from 'react';
+import { Measurement } from '../types';
+import { Callout, GRADE_COLOR, gradeLine, MEASUREMENT_COLOR, measurementCallouts, MeasureView, SIGN_CALLOUT_COLOR } from '../utils/measurements';
+import { formatFeetInches } from '../utils/format';
+import { Point } from '../utils/perspective';
+import { ArrowDownToLine, Eye, EyeOff, Ruler, Trash2 } from 'lucide-react';
+
+interface Props {
+  measurements: Measurement[];
+  gradePoint: Point | null;
+  signCallouts: Callout[];
+  view: MeasureView;
+  onChange: (measurements: Measurement[]) => void;
+  onGradePointChange: (point: Point | null) => void;
+}
+
+type LayerMode = 'VIEW' | 'MEASURE' | 'GRADE';
+
+// Lines shorter than this (0-1 of the photo) are treated as stray clicks
+const MIN_LINE_LENGTH = 0.01;
+
+export const MeasurementLayer: React.FC<Props> = ({ measurements, gradePoint, signCallouts, view, onChange, onGradePointChange }) => {
+  const [mode, setMode] = useState<LayerMode>('VIEW');
+  const [isVisible, setIsVisible] = useState(true);
+  const [draft, setDraft] = useState<{ start: Point; end: Point } | null>(null);
+  // The end of an existing line being dragged
+  const [dragging, setDragging] = useState<{ id: string; end: 'start' | 'end' } | null>(null);
+  const layerRef = useRef<HTMLDivElement>(null);
+
+  const { width, height } = view.photoSize;
+  const callouts = useMemo(() => {
+    const lines = [...measurements];
+    if (draft) lines.push({ id: 'draft', label: '', ...draft });
+    return [...measurementCallouts(lines, view), ...signCallouts];
+  }, [measurements, draft, signCallouts, view]);
+  const ground = useMemo(() => gradePoint ? gradeLine(gradePoint, view) : null, [gradePoint, view]);
+
+  const getPoint = (e: React.PointerEvent): Point => {
+    const rect = layerRef.current!.getBoundingClientRect();
+    return {
+      x: Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)),
+      y: Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height))
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (mode === 'VIEW') return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = getPoint(e);
+    if (mode === 'GRADE') {
+      onGradePointChange(point);
+      setMode('VIEW');
+      return;
+    }
+    setDraft({ start: point, end: point });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (draft) {
+      setDraft({ ...draft, end: getPoint(e) });
+    } else if (dragging) {
+      const point = getPoint(e);
+      onChange(measurements.map(m => m.id === dragging.id ? { ...m, [dragging.end]: point } : m));
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (draft && Math.hypot(draft.end.x - draft.start.x, draft.end.y - draft.start.y) >= MIN_LINE_LENGTH) {
+      onChange([...measurements, { id: crypto.randomUUID(), label: `Measurement ${measurements.length + 1}`, ...draft }]);
+    }
+    setDraft(null);
+    setDragging(null);
+  };
+
+  const startDrag = (e: React.PointerEvent, id: string, end: 'start' | 'end') => {
+    if (mode !== 'MEASURE') return;
+    e.stopPropagation();
+    layerRef.current?.setPointerCapture(e.pointerId);
+    setDragging({ id, end });
+  };
+
+  const renderCallout = (callout: Callout) => {
+    const a = { x: callout.start.x * width, y: callout.start.y * height };
+    const b = { x: callout.end.x * width, y: callout.end.y * height };
+    const length = Math.hypot(b.x - a.x, b.y - a.y) || 1;
+    const nx = -(b.y - a.y) / length * 5;
+    const ny = (b.x - a.x) / length * 5;
+    const color = callout.auto ? SIGN_CALLOUT_COLOR : MEASUREMENT_COLOR;
+    const editable = mode === 'MEASURE' && !callout.auto && callout.id !== 'draft';
+    return (
+      <g key={callout.id}>
+        <path
+          d={`M${a.x},${a.y} L${b.x},${b.y} M${a.x - nx},${a.y - ny} L${a.x + nx},${a.y + ny} M${b.x - nx},${b.y - ny} L${b.x + nx},${b.y + ny}`}
+          stroke={color}
+          strokeWidth={1.5}
+          style={{ filter: 'drop-shadow(0 0 1px rgba(0,0,0,0.9))' }}
+        />
+        <text
+          x={(a.x + b.x) / 2}
+          y={(a.y + b.y) / 2}
+          dy="-0.5em"
+          textAnchor="middle"
+          fontSize={12}
+          fontWeight="bold"
+          fill={color}
+          stroke="rgba(0,0,0,0.75)"
+          strokeWidth={3}
+          paintOrder="stroke"
+        >
+          {callout.label} {formatFeetInches(callout.inches)}
+        </text>
+        {editable && (['start', 'end'] as const).map(end => (
+          <circle
+            key={end}
+            cx={end === 'start' ? a.x : b.x}
+            cy={end === 'start' ? a.y : b.y}
+            r={5}
+            fill={color}
+            stroke="#000"
+            className="cursor-move"
+            style={{ pointerEvents: 'all' }}
+            onPointerDown={e => startDrag(e, callout.id, end)}
+          />
+        ))}
+      </g>
+    );
+  };
+
+  return (
+    <>
+      <div
+        ref={layerRef}
+        className={`absolute inset-0 z-[25] ${mode === 'VIEW' ? 'pointer-events-none' : 'cursor-crosshair'}`}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+      >
+        {isVisible && (
+          <svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox={`0 0 ${width} ${height}`} preserveAspectRatio="none">
+            {ground && (
+              <line
+                x1={ground[0].x * width} y1={ground[0].y * height}
+                x2={ground[1].x * width} y2={ground[1].y * height}
+                stroke={GRADE_COLOR}
+                strokeWidth={1.5}
+                strokeDasharray="8 6"
+              />
+            )}
+            {callouts.map(renderCallout)}
+          </svg>
+        )}
+      </div>
+
+      <div className="absolute top-4 left-4 z-30 flex flex-col gap-2 items-start">
+        <div className="flex rounded-lg overflow-hidden shadow text-xs font-medium">
+          <button
+            onClick={() => setMode(mode === 'MEASURE' ? 'VIEW' : 'MEASURE')}
+            className={`px-3 py-1 flex items-center gap-1 ${mode === 'MEASURE' ? 'bg-blue-600 text-white' : 'bg-white/90 text-gray-700'}`}
+            title="Drag on the photo to measure; drag the ends to adjust"
+          >
+            <Ruler className="w-3 h-3" /> Measure
+          </button>
+          <button
+            onClick={() => setMode(mode === 'GRADE' ? 'VIEW' : 'GRADE')}
+            className={`px-3 py-1 flex items-center gap-1 ${mode === 'GRADE' ? 'bg-blue-600 text-white' : 'bg-white/90 text-gray-700'}`}
+            title="Click a point on the ground below the signs"
+          >
+            <ArrowDownToLine className="w-3 h-3" /> Grade
+          </button>
+          <button
+            onClick={() => setIsVisible(!isVisible)}
+            className="px-2 py-1 bg-white/90 text-gray-700"
+            title={isVisible ? 'Hide measurements' : 'Show measurements'}
+          >
+            {isVisible ? <Eye className="w-3 h-3" /> : <EyeOff className="w-3 h-3" />}
+          </button>
+        </div>
+
+        {mode === 'GRADE' && (
+          <div className="bg-black/70 text-white text-xs px-3 py-1 rounded-lg pointer-events-none">
+            Click the ground (e.g. the bottom of the door) to measure heights above grade.
+          </div>
+        )}
+
+        {mode === 'MEASURE' && (
+          <div className="bg-white/95 rounded-lg shadow p-2 text-xs w-64 space-y-1">
+            {measurements.length === 0 && <p className="text-gray-500">Drag on the photo to add a dimension line.</p>}
+            {measurementCallouts(measurements, view).map(callout => (
+              <div key={callout.id} className="flex items-center gap-1">
+                <input
+                  value={callout.label}
+                  onChange={e => onChange(measurements.map(m => m.id === callout.id ? { ...m, label: e.target.value } : m))}
+                  className="flex-1 min-w-0 px-1 border rounded"
+                />
+                <span className="w-14 text-right font-mono">{formatFeetInches(callout.inches)}</span>
+                <button
+                  onClick={() => onChange(measurements.filter(m => m.id !== callout.id))}
+                  className="text-gray-400 hover:text-red-600"
+                  title="Delete measurement"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              </div>
+            ))}
+            {gradePoint && (
+              <div className="flex items-center gap-1 border-t pt-1">
+                <span className="flex-1" style={{ color: GRADE_COLOR }}>Grade line set</span>
+                <button onClick={() => onGradePointChange(null)} className="text-gray-400 hover:text-red-600" title="Clear grade">
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </>
+  );
+};
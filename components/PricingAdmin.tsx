@@ -0,0 +1,381 @@
+import React, { useState, useMemo } from 'react';
+import { PricingRulebook, SignType } from '../types';
+import { PRICING } from '../constants';
+import { cloneRulebook, validateRulebook } from '../utils/rulebook';
+import { listRulebooks, nextVersionLabel, saveRulebook, setActiveRulebook } from '../services/rulebookStore';
+import { Plus, Save, Trash2, X, RotateCcw } from 'lucide-react';
+
+interface Props {
+  rulebook: PricingRulebook;
+  onApply: (rulebook: PricingRulebook) => void;
+  onClose: () => void;
+}
+
+interface FieldDef {
+  label: string;
+  get: (r: PricingRulebook) => number;
+  set: (r: PricingRulebook, value: number) => void;
+  percent?: boolean;
+}
+
+const SECTIONS: { title: string; fields: FieldDef[] }[] = [
+  {
+    title: SignType.CHANNEL_LETTERS,
+    fields: [
+      { label: 'Base per letter ($)', get: r => r.FABRICATION[SignType.CHANNEL_LETTERS].BASE_PER_LETTER, set: (r, v) => { r.FABRICATION[SignType.CHANNEL_LETTERS].BASE_PER_LETTER = v; } },
+      { label: 'Per inch of height ($/letter)', get: r => r.FABRICATION[SignType.CHANNEL_LETTERS].PER_INCH_HEIGHT, set: (r, v) => { r.FABRICATION[SignType.CHANNEL_LETTERS].PER_INCH_HEIGHT = v; } },
+      { label: 'Front lit ($/letter)', get: r => r.FABRICATION[SignType.CHANNEL_LETTERS].LIGHTING_ADDER.FRONT_LIT, set: (r, v) => { r.FABRICATION[SignType.CHANNEL_LETTERS].LIGHTING_ADDER.FRONT_LIT = v; } },
+      { label: 'Back lit ($/letter)', get: r => r.FABRICATION[SignType.CHANNEL_LETTERS].LIGHTING_ADDER.BACK_LIT, set: (r, v) => { r.FABRICATION[SignType.CHANNEL_LETTERS].LIGHTING_ADDER.BACK_LIT = v; } },
+      { label: 'Raceway/backer ($)', get: r => r.FABRICATION[SignType.CHANNEL_LETTERS].BACKER_ADDER, set: (r, v) => { r.FABRICATION[SignType.CHANNEL_LETTERS].BACKER_ADDER = v; } },
+      { label: 'Raceway/backer ($/ft of run)', get: r => r.FABRICATION[SignType.CHANNEL_LETTERS].BACKER_PER_FT, set: (r, v) => { r.FABRICATION[SignType.CHANNEL_LETTERS].BACKER_PER_FT = v; } },
+      { label: 'Minimum ($)', get: r => r.FABRICATION[SignType.CHANNEL_LETTERS].MIN_PRICE, set: (r, v) => { r.FABRICATION[SignType.CHANNEL_LETTERS].MIN_PRICE = v; } },
+      { label: 'Perimeter: return ($/ft per inch deep)', get: r => r.FABRICATION[SignType.CHANNEL_LETTERS].RETURN_PER_FT_PER_INCH, set: (r, v) => { r.FABRICATION[SignType.CHANNEL_LETTERS].RETURN_PER_FT_PER_INCH = v; } },
+      { label: 'Perimeter: default return depth (in)', get: r => r.FABRICATION[SignType.CHANNEL_LETTERS].DEFAULT_RETURN_DEPTH, set: (r, v) => { r.FABRICATION[SignType.CHANNEL_LETTERS].DEFAULT_RETURN_DEPTH = v; } },
+      { label: 'Perimeter: face ($/sqft)', get: r => r.FABRICATION[SignType.CHANNEL_LETTERS].FACE_PER_SQFT, set: (r, v) => { r.FABRICATION[SignType.CHANNEL_LETTERS].FACE_PER_SQFT = v; } },
+    ]
+  },
+  {
+    title: SignType.LIGHTBOX,
+    fields: [
+      { label: 'Per sqft ($)', get: r => r.FABRICATION[SignType.LIGHTBOX].PER_SQFT, set: (r, v) => { r.FABRICATION[SignType.LIGHTBOX].PER_SQFT = v; } },
+      { label: 'Included depth (in)', get: r => r.FABRICATION[SignType.LIGHTBOX].DEPTH_BASE, set: (r, v) => { r.FABRICATION[SignType.LIGHTBOX].DEPTH_BASE = v; } },
+      { label: 'Extra depth ($/in)', get: r => r.FABRICATION[SignType.LIGHTBOX].DEPTH_ADDER_PER_INCH, set: (r, v) => { r.FABRICATION[SignType.LIGHTBOX].DEPTH_ADDER_PER_INCH = v; } },
+      { label: 'Illumination ($)', get: r => r.FABRICATION[SignType.LIGHTBOX].LIGHTING_ADDER_FRONT_LIT, set: (r, v) => { r.FABRICATION[SignType.LIGHTBOX].LIGHTING_ADDER_FRONT_LIT = v; } },
+      { label: 'Minimum ($)', get: r => r.FABRICATION[SignType.LIGHTBOX].MIN_PRICE, set: (r, v) => { r.FABRICATION[SignType.LIGHTBOX].MIN_PRICE = v; } },
+    ]
+  },
+  {
+    title: SignType.WINDOW_VINYL,
+    fields: [
+      { label: 'Per sqft ($)', get: r => r.FABRICATION[SignType.WINDOW_VINYL].PER_SQFT, set: (r, v) => { r.FABRICATION[SignType.WINDOW_VINYL].PER_SQFT = v; } },
+      { label: 'Lamination', percent: true, get: r => r.FABRICATION[SignType.WINDOW_VINYL].LAMINATION_PERCENT, set: (r, v) => { r.FABRICATION[SignType.WINDOW_VINYL].LAMINATION_PERCENT = v; } },
+      { label: 'Minimum ($)', get: r => r.FABRICATION[SignType.WINDOW_VINYL].MIN_PRICE, set: (r, v) => { r.FABRICATION[SignType.WINDOW_VINYL].MIN_PRICE = v; } },
+    ]
+  },
+  {
+    title: SignType.PYLON,
+    fields: [
+      { label: 'Cabinet face per sqft ($)', get: r => r.FABRICATION[SignType.PYLON].PER_SQFT, set: (r, v) => { r.FABRICATION[SignType.PYLON].PER_SQFT = v; } },
+      { label: 'Second face', percent: true, get: r => r.FABRICATION[SignType.PYLON].DOUBLE_SIDED_PERCENT, set: (r, v) => { r.FABRICATION[SignType.PYLON].DOUBLE_SIDED_PERCENT = v; } },
+      { label: 'Illumination ($/sqft)', get: r => r.FABRICATION[SignType.PYLON].LIGHTING_PER_SQFT, set: (r, v) => { r.FABRICATION[SignType.PYLON].LIGHTING_PER_SQFT = v; } },
+      { label: 'Pole structure ($/ft)', get: r => r.FABRICATION[SignType.PYLON].STRUCTURE_PER_FT, set: (r, v) => { r.FABRICATION[SignType.PYLON].STRUCTURE_PER_FT = v; } },
+      { label: 'Foundation base ($)', get: r => r.FABRICATION[SignType.PYLON].FOUNDATION_BASE, set: (r, v) => { r.FABRICATION[SignType.PYLON].FOUNDATION_BASE = v; } },
+      { label: 'Foundation ($/ft of height)', get: r => r.FABRICATION[SignType.PYLON].FOUNDATION_PER_FT, set: (r, v) => { r.FABRICATION[SignType.PYLON].FOUNDATION_PER_FT = v; } },
+      { label: 'Minimum ($)', get: r => r.FABRICATION[SignType.PYLON].MIN_PRICE, set: (r, v) => { r.FABRICATION[SignType.PYLON].MIN_PRICE = v; } },
+    ]
+  },
+  {
+    title: SignType.BLADE,
+    fields: [
+      { label: 'Face per sqft ($)', get: r => r.FABRICATION[SignType.BLADE].PER_SQFT, set: (r, v) => { r.FABRICATION[SignType.BLADE].PER_SQFT = v; } },
+      { label: 'Second face', percent: true, get: r => r.FABRICATION[SignType.BLADE].DOUBLE_SIDED_PERCENT, set: (r, v) => { r.FABRICATION[SignType.BLADE].DOUBLE_SIDED_PERCENT = v; } },
+      { label: 'Illumination ($)', get: r => r.FABRICATION[SignType.BLADE].LIGHTING_ADDER, set: (r, v) => { r.FABRICATION[SignType.BLADE].LIGHTING_ADDER = v; } },
+      { label: 'Projecting bracket ($)', get: r => r.FABRICATION[SignType.BLADE].BRACKET, set: (r, v) => { r.FABRICATION[SignType.BLADE].BRACKET = v; } },
+      { label: 'Minimum ($)', get: r => r.FABRICATION[SignType.BLADE].MIN_PRICE, set: (r, v) => { r.FABRICATION[SignType.BLADE].MIN_PRICE = v; } },
+    ]
+  },
+  {
+    title: SignType.FLAT_PANEL,
+    fields: [
+      { label: 'Per sqft ($)', get: r => r.FABRICATION[SignType.FLAT_PANEL].PER_SQFT, set: (r, v) => { r.FABRICATION[SignType.FLAT_PANEL].PER_SQFT = v; } },
+      { label: 'Minimum ($)', get: r => r.FABRICATION[SignType.FLAT_PANEL].MIN_PRICE, set: (r, v) => { r.FABRICATION[SignType.FLAT_PANEL].MIN_PRICE = v; } },
+    ]
+  },
+  {
+    title: 'Logos',
+    fields: [
+      { label: 'Logo cabinet face ($/sqft)', get: r => r.FABRICATION.LOGO.CABINET_PER_SQFT, set: (r, v) => { r.FABRICATION.LOGO.CABINET_PER_SQFT = v; } },
+      { label: 'Logo cabinet return ($/ft)', get: r => r.FABRICATION.LOGO.CABINET_RETURN_PER_FT, set: (r, v) => { r.FABRICATION.LOGO.CABINET_RETURN_PER_FT = v; } },
+      { label: 'Minimum ($)', get: r => r.FABRICATION.LOGO.MIN_PRICE, set: (r, v) => { r.FABRICATION.LOGO.MIN_PRICE = v; } },
+    ]
+  },
+  {
+    title: 'Installation',
+    fields: [
+      { label: 'Base trip ($)', get: r => r.INSTALLATION.BASE_TRIP, set: (r, v) => { r.INSTALLATION.BASE_TRIP = v; } },
+      { label: 'Labour rate ($/hr)', get: r => r.INSTALLATION.LABOR_RATE, set: (r, v) => { r.INSTALLATION.LABOR_RATE = v; } },
+      { label: 'Scissor lift ($)', get: r => r.INSTALLATION.LIFT.SCISSOR, set: (r, v) => { r.INSTALLATION.LIFT.SCISSOR = v; } },
+      { label: 'Boom lift ($)', get: r => r.INSTALLATION.LIFT.BOOM, set: (r, v) => { r.INSTALLATION.LIFT.BOOM = v; } },
+      { label: 'Electrical ($)', get: r => r.INSTALLATION.ELECTRICAL, set: (r, v) => { r.INSTALLATION.ELECTRICAL = v; } },
+      { label: 'Permit allowance ($)', get: r => r.INSTALLATION.PERMIT, set: (r, v) => { r.INSTALLATION.PERMIT = v; } },
+      { label: 'Hard access ($)', get: r => r.INSTALLATION.HARD_ACCESS, set: (r, v) => { r.INSTALLATION.HARD_ACCESS = v; } },
+      { label: 'Contingency', percent: true, get: r => r.INSTALLATION.CONTINGENCY_PERCENT, set: (r, v) => { r.INSTALLATION.CONTINGENCY_PERCENT = v; } },
+      { label: 'Labour per extra sign', percent: true, get: r => r.INSTALLATION.ADDITIONAL_SIGN_LABOR_PERCENT, set: (r, v) => { r.INSTALLATION.ADDITIONAL_SIGN_LABOR_PERCENT = v; } },
+    ]
+  },
+  {
+    title: 'Electrical',
+    fields: [
+      { label: 'LED modules per sqft (letters)', get: r => r.ELECTRICAL.LETTER_MODULES_PER_SQFT, set: (r, v) => { r.ELECTRICAL.LETTER_MODULES_PER_SQFT = v; } },
+      { label: 'LED modules per sqft (cabinets)', get: r => r.ELECTRICAL.CABINET_MODULES_PER_SQFT, set: (r, v) => { r.ELECTRICAL.CABINET_MODULES_PER_SQFT = v; } },
+      { label: 'Watts per module', get: r => r.ELECTRICAL.WATTS_PER_MODULE, set: (r, v) => { r.ELECTRICAL.WATTS_PER_MODULE = v; } },
+      { label: 'LED module ($)', get: r => r.ELECTRICAL.LED_MODULE_COST, set: (r, v) => { r.ELECTRICAL.LED_MODULE_COST = v; } },
+      { label: 'Power supply load margin', percent: true, get: r => r.ELECTRICAL.LOAD_MARGIN_PERCENT, set: (r, v) => { r.ELECTRICAL.LOAD_MARGIN_PERCENT = v; } },
+      { label: 'Power supply efficiency', percent: true, get: r => r.ELECTRICAL.SUPPLY_EFFICIENCY_PERCENT, set: (r, v) => { r.ELECTRICAL.SUPPLY_EFFICIENCY_PERCENT = v; } },
+      { label: 'Line voltage (V)', get: r => r.ELECTRICAL.LINE_VOLTAGE, set: (r, v) => { r.ELECTRICAL.LINE_VOLTAGE = v; } },
+      { label: 'Circuit size (A)', get: r => r.ELECTRICAL.CIRCUIT_AMPS, set: (r, v) => { r.ELECTRICAL.CIRCUIT_AMPS = v; } },
+      { label: 'Continuous load per circuit', percent: true, get: r => r.ELECTRICAL.CIRCUIT_LOAD_PERCENT, set: (r, v) => { r.ELECTRICAL.CIRCUIT_LOAD_PERCENT = v; } },
+      { label: 'Electrician per extra circuit ($)', get: r => r.ELECTRICAL.PER_EXTRA_CIRCUIT, set: (r, v) => { r.ELECTRICAL.PER_EXTRA_CIRCUIT = v; } },
+      { label: 'Electrician per power supply ($)', get: r => r.ELECTRICAL.PER_POWER_SUPPLY, set: (r, v) => { r.ELECTRICAL.PER_POWER_SUPPLY = v; } },
+    ]
+  },
+  {
+    title: 'Surcharges',
+    fields: [
+      { label: 'Rush order', percent: true, get: r => r.FABRICATION.RUSH_ORDER_PERCENT, set: (r, v) => { r.FABRICATION.RUSH_ORDER_PERCENT = v; } },
+    ]
+  }
+];
+
+export const PricingAdmin: React.FC<Props> = ({ rulebook, onApply, onClose }) => {
+  const [draft, setDraft] = useState<PricingRulebook>(() => cloneRulebook(rulebook));
+  const [history, setHistory] = useState<PricingRulebook[]>(() => listRulebooks());
+  const [label, setLabel] = useState<string>(() => nextVersionLabel());
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const issues = useMemo(() => validateRulebook(draft), [draft]);
+
+  const update = (mutate: (r: PricingRulebook) => void) => {
+    setDraft(prev => {
+      const next = cloneRulebook(prev);
+      mutate(next);
+      return next;
+    });
+    setSaveError(null);
+  };
+
+  const handleSave = () => {
+    try {
+      const saved = saveRulebook(draft, label);
+      setHistory(listRulebooks());
+      setLabel(nextVersionLabel());
+      onApply(saved);
+    } catch (e) {
+      setSaveError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const handleActivate = (r: PricingRulebook) => {
+    setActiveRulebook(r.versionLabel);
+    setDraft(cloneRulebook(r));
+    onApply(r);
+  };
+
+  const renderField = (field: FieldDef) => {
+    const value = field.get(draft);
+    return (
+      <label key={field.label} className="flex items-center justify-between gap-2 text-xs">
+        <span className="text-gray-600">{field.label}</span>
+        <div className="flex items-center gap-1">
+          <input
+            type="number"
+            step="any"
+            value={field.percent ? Number((value * 100).toFixed(4)) : value}
+            onChange={e => {
+              const v = Number(e.target.value);
+              update(r => field.set(r, field.percent ? v / 100 : v));
+            }}
+            className="w-24 p-1 border rounded text-right"
+          />
+          {field.percent && <span className="text-gray-400">%</span>}
+        </div>
+      </label>
+    );
+  };
+
+  const tiers = draft.INSTALLATION.HEIGHT_TIERS;
+  const powerSupplies = draft.ELECTRICAL.POWER_SUPPLIES;
+  const taxProfiles = draft.TAX.PROFILES;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col">
+        <div className="p-4 border-b flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-bold text-gray-900">Pricing Rulebook</h2>
+            <p className="text-xs text-gray-500">Editing from {rulebook.versionLabel}</p>
+          </div>
+          <button onClick={onClose} className="p-1 rounded hover:bg-gray-100">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 grid grid-cols-1 md:grid-cols-3 gap-6">
+          <div className="md:col-span-2 grid grid-cols-1 md:grid-cols-2 gap-6">
+            {SECTIONS.map(section => (
+              <section key={section.title} className="space-y-2">
+                <h3 className="text-sm font-bold text-gray-700 border-b pb-1">{section.title}</h3>
+                {section.fields.map(renderField)}
+              </section>
+            ))}
+
+            <section className="space-y-2">
+              <h3 className="text-sm font-bold text-gray-700 border-b pb-1">Labour by Install Height</h3>
+              {tiers.map((tier, i) => (
+                <div key={i} className="flex items-center gap-2 text-xs">
+                  <span className="text-gray-600">Up to</span>
+                  <input
+                    type="number"
+                    value={tier.maxFt}
+                    onChange={e => update(r => { r.INSTALLATION.HEIGHT_TIERS[i].maxFt = Number(e.target.value); })}
+                    className="w-16 p-1 border rounded text-right"
+                  />
+                  <span className="text-gray-600">ft</span>
+                  <input
+                    type="number"
+                    step="any"
+                    value={tier.hours}
+                    onChange={e => update(r => { r.INSTALLATION.HEIGHT_TIERS[i].hours = Number(e.target.value); })}
+                    className="w-16 p-1 border rounded text-right"
+                  />
+                  <span className="text-gray-600">hrs</span>
+                  <button
+                    onClick={() => update(r => { r.INSTALLATION.HEIGHT_TIERS.splice(i, 1); })}
+                    className="ml-auto text-gray-400 hover:text-red-600"
+                    title="Remove tier"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+              <button
+                onClick={() => update(r => {
+                  const last = r.INSTALLATION.HEIGHT_TIERS[r.INSTALLATION.HEIGHT_TIERS.length - 1];
+                  r.INSTALLATION.HEIGHT_TIERS.push({ maxFt: (last?.maxFt || 0) + 10, hours: last?.hours || 2 });
+                })}
+                className="text-xs text-blue-600 flex items-center gap-1 hover:underline"
+              >
+                <Plus className="w-3 h-3" /> Add tier
+              </button>
+            </section>
+
+            <section className="space-y-2">
+              <h3 className="text-sm font-bold text-gray-700 border-b pb-1">Power Supply Sizes</h3>
+              {powerSupplies.map((supply, i) => (
+                <div key={i} className="flex items-center gap-2 text-xs">
+                  <input
+                    type="number"
+                    value={supply.watts}
+                    onChange={e => update(r => { r.ELECTRICAL.POWER_SUPPLIES[i].watts = Number(e.target.value); })}
+                    className="w-16 p-1 border rounded text-right"
+                  />
+                  <span className="text-gray-600">W at $</span>
+                  <input
+                    type="number"
+                    step="any"
+                    value={supply.cost}
+                    onChange={e => update(r => { r.ELECTRICAL.POWER_SUPPLIES[i].cost = Number(e.target.value); })}
+                    className="w-16 p-1 border rounded text-right"
+                  />
+                  <button
+                    onClick={() => update(r => { r.ELECTRICAL.POWER_SUPPLIES.splice(i, 1); })}
+                    className="ml-auto text-gray-400 hover:text-red-600"
+                    title="Remove size"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+              <button
+                onClick={() => update(r => { r.ELECTRICAL.POWER_SUPPLIES.push({ watts: 60, cost: 55 }); })}
+                className="text-xs text-blue-600 flex items-center gap-1 hover:underline"
+              >
+                <Plus className="w-3 h-3" /> Add size
+              </button>
+            </section>
+
+            <section className="space-y-2 md:col-span-2">
+              <h3 className="text-sm font-bold text-gray-700 border-b pb-1">Tax Profiles</h3>
+              <label className="flex items-center justify-between gap-2 text-xs">
+                <span className="text-gray-600">Default when the address has no region</span>
+                <select
+                  value={draft.TAX.DEFAULT_PROFILE}
+                  onChange={e => update(r => { r.TAX.DEFAULT_PROFILE = e.target.value; })}
+                  className="p-1 border rounded"
+                >
+                  {taxProfiles.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+                </select>
+              </label>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-1">
+                {taxProfiles.map((profile, i) => (
+                  <div key={profile.id} className="flex items-center justify-between gap-2 text-xs">
+                    <span className="text-gray-600">{profile.label} <span className="text-gray-400">{profile.currency}</span></span>
+                    <div className="flex items-center gap-1">
+                      {profile.taxes.length === 0 && <span className="text-gray-400">No tax</span>}
+                      {profile.taxes.map((tax, j) => (
+                        <React.Fragment key={tax.name}>
+                          <span className="text-gray-500">{tax.name}</span>
+                          <input
+                            type="number"
+                            step="any"
+                            value={Number((tax.rate * 100).toFixed(4))}
+                            onChange={e => update(r => { r.TAX.PROFILES[i].taxes[j].rate = Number(e.target.value) / 100; })}
+                            className="w-16 p-1 border rounded text-right"
+                          />
+                          <span className="text-gray-400">%</span>
+                        </React.Fragment>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </section>
+          </div>
+
+          <aside className="space-y-3">
+            <h3 className="text-sm font-bold text-gray-700 border-b pb-1">Saved Versions</h3>
+            <div className="space-y-1 max-h-64 overflow-y-auto">
+              {[PRICING, ...history].slice().reverse().map(r => (
+                <div
+                  key={r.versionLabel}
+                  className={`flex items-center justify-between text-xs p-2 rounded border
+                    ${r.versionLabel === rulebook.versionLabel ? 'border-blue-600 bg-blue-50' : 'border-gray-200'}
+                  `}
+                >
+                  <div>
+                    <p className="font-semibold">{r.versionLabel}</p>
+                    {r.savedAt && <p className="text-gray-400">{new Date(r.savedAt).toLocaleString()}</p>}
+                  </div>
+                  <div className="flex gap-2">
+                    <button onClick={() => setDraft(cloneRulebook(r))} className="text-gray-500 hover:underline">Edit</button>
+                    <button onClick={() => handleActivate(r)} className="text-blue-600 hover:underline">Use</button>
+                  </div>
+                </div>
+              ))}
+            </div>
+            <button
+              onClick={() => setDraft(cloneRulebook(PRICING))}
+              className="text-xs text-gray-600 flex items-center gap-1 hover:underline"
+            >
+              <RotateCcw className="w-3 h-3" /> Reset form to defaults
+            </button>
+          </aside>
+        </div>
+
+        <div className="p-4 border-t space-y-2">
+          {issues.length > 0 && (
+            <ul className="text-xs text-red-600 list-disc pl-4">
+              {issues.map(issue => <li key={issue.path}>{issue.path} {issue.message}</li>)}
+            </ul>
+          )}
+          {saveError && <p className="text-xs text-red-600">{saveError}</p>}
+          <div className="flex items-center gap-2">
+            <label className="text-xs text-gray-500">Version label</label>
+            <input
+              value={label}
+              onChange={e => { setLabel(e.target.value); setSaveError(null); }}
+              className="p-2 border rounded text-sm w-48"
+            />
+            <button
+              onClick={handleSave}
+              disabled={issues.length > 0 || !label.trim()}
+              className="ml-auto px-4 py-2 bg-slate-800 text-white rounded hover:bg-slate-900 disabled:bg-gray-300 flex items-center gap-2 text-sm"
+            >
+              <Save className="w-4 h-4" /> Save & Use
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,181 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { QuoteRevision, SavedJobSummary } from '../types';
+import { deleteJob, listJobs, listRevisions } from '../services/quoteStore';
+import { diffSnapshots } from '../utils/revisionDiff';
+import { formatMoney } from '../utils/format';
+import { FilePlus, FolderOpen, Search, Trash2, X } from 'lucide-react';
+
+interface Props {
+  currentJobId: string | null;
+  onOpen: (jobId: string, revision?: number) => void;
+  onNewJob: () => void;
+  onClose: () => void;
+}
+
+export const QuoteLibrary: React.FC<Props> = ({ currentJobId, onOpen, onNewJob, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [jobs, setJobs] = useState<SavedJobSummary[]>([]);
+  const [selectedJobId, setSelectedJobId] = useState<string | null>(currentJobId);
+  const [revisions, setRevisions] = useState<QuoteRevision[]>([]);
+  const [compareFrom, setCompareFrom] = useState<number | null>(null);
+  const [compareTo, setCompareTo] = useState<number | null>(null);
+
+  const refreshJobs = () => {
+    listJobs(query).then(setJobs).catch(e => console.error("Failed to list quotes:", e));
+  };
+
+  useEffect(refreshJobs, [query]);
+
+  useEffect(() => {
+    if (!selectedJobId) {
+      setRevisions([]);
+      return;
+    }
+    listRevisions(selectedJobId)
+      .then(revs => {
+        setRevisions(revs);
+        // Default comparison: first revision against the latest
+        setCompareFrom(revs.length > 1 ? revs[0].revision : null);
+        setCompareTo(revs.length > 1 ? revs[revs.length - 1].revision : null);
+      })
+      .catch(e => console.error("Failed to list revisions:", e));
+  }, [selectedJobId]);
+
+  const changes = useMemo(() => {
+    const from = revisions.find(r => r.revision === compareFrom);
+    const to = revisions.find(r => r.revision === compareTo);
+    if (!from || !to || from === to) return null;
+    return diffSnapshots(from.snapshot, to.snapshot);
+  }, [revisions, compareFrom, compareTo]);
+
+  const handleDelete = async (job: SavedJobSummary) => {
+    if (!confirm(`Delete the quote for ${job.clientName || 'this client'} and all ${job.latestRevision} revisions?`)) return;
+    await deleteJob(job.id);
+    if (selectedJobId === job.id) setSelectedJobId(null);
+    refreshJobs();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col">
+        <div className="p-4 border-b flex items-center justify-between">
+          <h2 className="text-lg font-bold text-gray-900">Saved Quotes</h2>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={onNewJob}
+              className="px-3 py-1 text-sm rounded border hover:bg-gray-50 flex items-center gap-1"
+            >
+              <FilePlus className="w-4 h-4" /> New Job
+            </button>
+            <button onClick={onClose} className="p-1 rounded hover:bg-gray-100">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-hidden grid grid-cols-1 md:grid-cols-2">
+          <div className="p-4 border-r flex flex-col gap-3 overflow-hidden">
+            <div className="relative">
+              <Search className="w-4 h-4 text-gray-400 absolute left-2 top-1/2 -translate-y-1/2" />
+              <input
+                value={query}
+                onChange={e => setQuery(e.target.value)}
+                placeholder="Search client, address or quote #"
+                className="w-full pl-8 p-2 border rounded text-sm"
+                autoFocus
+              />
+            </div>
+            <div className="flex-1 overflow-y-auto space-y-1">
+              {jobs.length === 0 && <p className="text-sm text-gray-400 text-center py-8">No saved quotes</p>}
+              {jobs.map(job => (
+                <div
+                  key={job.id}
+                  onClick={() => setSelectedJobId(job.id)}
+                  className={`p-2 rounded border cursor-pointer text-sm flex justify-between gap-2
+                    ${job.id === selectedJobId ? 'border-blue-600 bg-blue-50' : 'border-gray-200 hover:border-blue-300'}
+                  `}
+                >
+                  <div className="min-w-0">
+                    <p className="font-semibold truncate">{job.clientName || 'Unnamed client'}</p>
+                    <p className="text-xs text-gray-500 truncate">{job.address || 'No address'}</p>
+                    <p className="text-[10px] text-gray-400">
+                      {job.quoteNumber && `${job.quoteNumber} · `}v{job.latestRevision} · {new Date(job.updatedAt).toLocaleString()}
+                    </p>
+                  </div>
+                  <div className="flex flex-col items-end justify-between shrink-0">
+                    {job.total !== null && <span className="font-mono text-xs">{formatMoney(job.total, job.currency)}</span>}
+                    <button
+                      onClick={e => { e.stopPropagation(); handleDelete(job); }}
+                      className="text-gray-400 hover:text-red-600"
+                      title="Delete quote"
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="p-4 overflow-y-auto space-y-4">
+            {!selectedJobId && <p className="text-sm text-gray-400 text-center py-8">Select a quote to see its revisions</p>}
+
+            {selectedJobId && (
+              <>
+                <section className="space-y-1">
+                  <h3 className="text-sm font-bold text-gray-700 border-b pb-1">Revisions</h3>
+                  {revisions.slice().reverse().map(rev => (
+                    <div key={rev.revision} className="flex items-center justify-between text-xs p-2 rounded border border-gray-200">
+                      <div>
+                        <p className="font-semibold">v{rev.revision}{rev.note ? ` – ${rev.note}` : ''}</p>
+                        <p className="text-gray-400">{new Date(rev.savedAt).toLocaleString()}</p>
+                      </div>
+                      <div className="flex items-center gap-3">
+                        {rev.snapshot.quote && <span className="font-mono">{formatMoney(rev.snapshot.quote.total, rev.snapshot.quote.currency)}</span>}
+                        <button
+                          onClick={() => onOpen(rev.jobId, rev.revision)}
+                          className="text-blue-600 hover:underline flex items-center gap-1"
+                        >
+                          <FolderOpen className="w-3 h-3" /> Open
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </section>
+
+                {revisions.length > 1 && (
+                  <section className="space-y-2">
+                    <h3 className="text-sm font-bold text-gray-700 border-b pb-1">Compare</h3>
+                    <div className="flex items-center gap-2 text-xs">
+                      <select
+                        value={compareFrom ?? ''}
+                        onChange={e => setCompareFrom(Number(e.target.value))}
+                        className="p-1 border rounded"
+                      >
+                        {revisions.map(r => <option key={r.revision} value={r.revision}>v{r.revision}</option>)}
+                      </select>
+                      <span>→</span>
+                      <select
+                        value={compareTo ?? ''}
+                        onChange={e => setCompareTo(Number(e.target.value))}
+                        className="p-1 border rounded"
+                      >
+                        {revisions.map(r => <option key={r.revision} value={r.revision}>v{r.revision}</option>)}
+                      </select>
+                    </div>
+                    {changes && changes.length === 0 && <p className="text-xs text-gray-400">No differences</p>}
+                    {changes && changes.length > 0 && (
+                      <ul className="text-xs text-gray-700 list-disc pl-4 space-y-0.5">
+                        {changes.map((c, i) => <li key={i}>{c}</li>)}
+                      </ul>
+                    )}
+                  </section>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,105 @@
+import React from 'react';
+import { CurrencyCode, QuoteTier } from '../types';
+import { describeLineItem } from '../utils/job';
+import { formatMoney, formatPercent } from '../utils/format';
+import { Check, Download, ImageOff, X } from 'lucide-react';
+
+interface Props {
+  tiers: QuoteTier[];
+  thumbnails: Record<number, string>; // data URLs by variant index
+  selectedVariantIndex: number | null; // the tier the job currently matches, if any
+  currency: CurrencyCode;
+  onChoose: (tier: QuoteTier) => void;
+  onExport: () => void;
+  onClose: () => void;
+}
+
+export const TierComparison: React.FC<Props> = ({ tiers, thumbnails, selectedVariantIndex, currency, onChoose, onExport, onClose }) => {
+  const money = (amount: number) => formatMoney(amount, currency);
+  const baseTotal = tiers[0]?.quote.total ?? 0;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-5xl max-h-[90vh] flex flex-col">
+        <div className="p-4 border-b flex items-center justify-between">
+          <h2 className="text-lg font-bold text-gray-900">Compare Options</h2>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={onExport}
+              className="px-3 py-1 text-sm rounded border hover:bg-gray-50 flex items-center gap-1"
+            >
+              <Download className="w-4 h-4" /> Export Proposal
+            </button>
+            <button onClick={onClose} className="p-1 rounded hover:bg-gray-100">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 grid gap-4" style={{ gridTemplateColumns: `repeat(${tiers.length}, minmax(0, 1fr))` }}>
+          {tiers.map(tier => {
+            const isSelected = tier.variantIndex === selectedVariantIndex;
+            const difference = tier.quote.total - baseTotal;
+            return (
+              <div
+                key={tier.variantIndex}
+                className={`rounded-lg border-2 flex flex-col overflow-hidden ${isSelected ? 'border-blue-600' : 'border-gray-200'}`}
+              >
+                <div className="aspect-video bg-gray-100 flex items-center justify-center">
+                  {thumbnails[tier.variantIndex]
+                    ? <img src={thumbnails[tier.variantIndex]} alt={`${tier.name} mockup`} className="w-full h-full object-cover" />
+                    : <ImageOff className="w-6 h-6 text-gray-300" />}
+                </div>
+
+                <div className="p-3 flex-1 flex flex-col gap-2 text-xs">
+                  <div className="flex items-baseline justify-between">
+                    <p className="text-base font-bold text-gray-900">{tier.name}</p>
+                    <p className="text-gray-500">{difference > 0 ? `+${money(difference)}` : 'Lowest price'}</p>
+                  </div>
+
+                  <div className="space-y-1">
+                    {tier.quote.lines.map(line => {
+                      const item = tier.items.find(i => i.id === line.itemId);
+                      return (
+                        <div key={line.itemId}>
+                          <p className="font-semibold text-gray-700 truncate">{item ? describeLineItem(item) : 'Sign'}</p>
+                          <div className="flex justify-between text-gray-600">
+                            <span className="truncate">{item?.selectedVariant?.name}</span>
+                            <span className="font-mono shrink-0">{money(line.fabricationCost)}</span>
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+
+                  <div className="border-t pt-2 space-y-0.5 text-gray-500 mt-auto">
+                    <div className="flex justify-between"><span>Installation</span><span className="font-mono">{money(tier.quote.installationCost)}</span></div>
+                    <div className="flex justify-between"><span>Subtotal</span><span className="font-mono">{money(tier.quote.subtotal)}</span></div>
+                    {tier.quote.taxes.map(tax => (
+                      <div key={tax.name} className="flex justify-between">
+                        <span>{tax.name} ({formatPercent(tax.rate)})</span>
+                        <span className="font-mono">{money(tax.amount)}</span>
+                      </div>
+                    ))}
+                    <div className="flex justify-between text-sm font-bold text-gray-900">
+                      <span>Total</span><span className="font-mono">{money(tier.quote.total)}</span>
+                    </div>
+                  </div>
+
+                  <button
+                    onClick={() => onChoose(tier)}
+                    className={`w-full py-2 rounded font-semibold flex items-center justify-center gap-1
+                      ${isSelected ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}
+                    `}
+                  >
+                    {isSelected ? <><Check className="w-4 h-4" /> Chosen</> : `Choose ${tier.name}`}
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,142 @@
+import React from 'react';
+import { DesignVariant, LightingType, SignType } from '../types';
+import { FONT_LIBRARY } from '../constants';
+import { isCabinetType } from '../services/designProvider';
+import { SlidersHorizontal } from 'lucide-react';
+
+interface Props {
+  variant: DesignVariant;
+  signType: SignType;
+  onChange: (patch: Partial<DesignVariant>) => void;
+}
+
+const LIGHTING_LABELS: Record<LightingType, string> = {
+  [LightingType.FRONT_LIT]: 'Front-lit',
+  [LightingType.BACK_LIT]: 'Halo',
+  [LightingType.NON_LIT]: 'Non-lit',
+};
+
+const MAX_SPACING_EM = 0.5;
+const MAX_STROKE_PX = 8;
+
+export const VariantEditor: React.FC<Props> = ({ variant, signType, onChange }) => {
+  // Cabinets and panels are lit through the face or not at all
+  const lightingChoices = isCabinetType(signType)
+    ? [LightingType.FRONT_LIT, LightingType.NON_LIT]
+    : [LightingType.FRONT_LIT, LightingType.BACK_LIT, LightingType.NON_LIT];
+  const spacingEm = parseFloat(variant.letterSpacing) || 0;
+  const strokePx = parseFloat(variant.strokeWidth) || 0;
+  const isKnownFont = Object.values(FONT_LIBRARY).some(fonts => fonts.includes(variant.fontFamily));
+
+  const colorField = (label: string, value: string, onPick: (color: string) => void) => (
+    <label className="flex items-center gap-2">
+      <input type="color" value={value} onChange={e => onPick(e.target.value)} className="w-8 h-6 p-0 border rounded cursor-pointer" />
+      <span className="flex-1">{label}</span>
+      <span className="font-mono text-gray-400">{value}</span>
+    </label>
+  );
+
+  return (
+    <div className="p-3 border rounded-lg bg-gray-50 space-y-3 text-xs">
+      <h3 className="font-bold text-gray-700 flex items-center gap-2">
+        <SlidersHorizontal className="w-4 h-4" /> Edit {variant.custom ? variant.name : 'as a custom option'}
+      </h3>
+
+      <div>
+        <label className="block font-semibold text-gray-500 uppercase mb-1">Font</label>
+        <select
+          value={variant.fontFamily}
+          onChange={e => onChange({ fontFamily: e.target.value })}
+          className="w-full p-1.5 border rounded bg-white"
+          style={{ fontFamily: variant.fontFamily }}
+        >
+          {!isKnownFont && <option value={variant.fontFamily}>{variant.fontFamily}</option>}
+          {Object.entries(FONT_LIBRARY).map(([category, fonts]) => (
+            <optgroup key={category} label={category}>
+              {fonts.map(font => <option key={font} value={font} style={{ fontFamily: font }}>{font}</option>)}
+            </optgroup>
+          ))}
+        </select>
+      </div>
+
+      <div className="space-y-1">
+        {colorField(isCabinetType(signType) ? 'Copy colour' : 'Letter colour', variant.color || '#ffffff', color => onChange({ color }))}
+        {variant.backgroundColor !== undefined
+          ? colorField(isCabinetType(signType) ? 'Face colour' : 'Backer colour', variant.backgroundColor, backgroundColor => onChange({ backgroundColor }))
+          : (
+            <button onClick={() => onChange({ backgroundColor: '#111827' })} className="text-blue-600 hover:underline">
+              + Add a backer colour
+            </button>
+          )}
+        {variant.backgroundColor !== undefined && !isCabinetType(signType) && (
+          <button onClick={() => onChange({ backgroundColor: undefined, roundedBacker: false })} className="text-gray-400 hover:text-red-600">
+            Remove backer colour
+          </button>
+        )}
+      </div>
+
+      <div>
+        <label className="flex justify-between font-semibold text-gray-500 uppercase mb-1">
+          Letter spacing <span className="font-mono normal-case">{spacingEm.toFixed(2)}em</span>
+        </label>
+        <input
+          type="range"
+          min={0}
+          max={MAX_SPACING_EM}
+          step={0.01}
+          value={spacingEm}
+          onChange={e => onChange({ letterSpacing: `${Number(e.target.value)}em` })}
+          className="w-full"
+        />
+      </div>
+
+      <div>
+        <label className="flex items-center justify-between font-semibold text-gray-500 uppercase mb-1">
+          <span className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={variant.stroke}
+              onChange={e => onChange({ stroke: e.target.checked, strokeWidth: e.target.checked ? `${strokePx || 2}px` : variant.strokeWidth })}
+            />
+            Outline
+          </span>
+          <span className="font-mono normal-case">{strokePx}px</span>
+        </label>
+        <input
+          type="range"
+          min={0}
+          max={MAX_STROKE_PX}
+          step={0.5}
+          value={strokePx}
+          disabled={!variant.stroke}
+          onChange={e => onChange({ strokeWidth: `${Number(e.target.value)}px` })}
+          className="w-full disabled:opacity-40"
+        />
+      </div>
+
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex rounded overflow-hidden border">
+          {lightingChoices.map(lighting => (
+            <button
+              key={lighting}
+              onClick={() => onChange({ lighting })}
+              className={`px-2 py-1 ${variant.lighting === lighting ? 'bg-blue-600 text-white' : 'bg-white text-gray-600 hover:bg-gray-100'}`}
+            >
+              {LIGHTING_LABELS[lighting]}
+            </button>
+          ))}
+        </div>
+        {!isCabinetType(signType) && (
+          <label className="flex items-center gap-1 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={variant.roundedBacker}
+              onChange={e => onChange({ roundedBacker: e.target.checked })}
+            />
+            Rounded backer
+          </label>
+        )}
+      </div>
+    </div>
+  );
+};
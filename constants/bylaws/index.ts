@@ -0,0 +1,9 @@
+/// <reference types="vite/client" />
+import { BylawRulePack } from "../../types";
+
+// Every JSON file in this folder is a rule pack; add a municipality by adding a file.
+// example.json has made-up limits to try the checks with; shops add their own packs.
+const files = import.meta.glob<BylawRulePack>('./*.json', { eager: true, import: 'default' });
+
+export const BYLAW_PACKS: BylawRulePack[] = Object.values(files)
+  .sort((a, b) => a.municipality.localeCompare(b.municipality));
@@ -0,0 +1,175 @@
+// constants/index.ts
+// 全局定价 & 字体配置
+
+import { SignType, PricingRulebook, BrandTemplate, PermitTemplate } from "../types";
+
+// Default rulebook shipped with the app. The estimator can override any of
+// these from the Pricing Admin screen; saved copies live in localStorage.
+export const PRICING: PricingRulebook = {
+  versionLabel: "Default",
+  FABRICATION: {
+    [SignType.CHANNEL_LETTERS]: {
+      BASE_PER_LETTER: 120,
+      PER_INCH_HEIGHT: 4,
+      LIGHTING_ADDER: {
+        FRONT_LIT: 45,
+        BACK_LIT: 60,
+      },
+      BACKER_ADDER: 350,
+      BACKER_PER_FT: 40,
+      MIN_PRICE: 900,
+      RETURN_PER_FT_PER_INCH: 3.5,
+      DEFAULT_RETURN_DEPTH: 5,
+      FACE_PER_SQFT: 22,
+    },
+    [SignType.LIGHTBOX]: {
+      PER_SQFT: 65,
+      DEPTH_BASE: 4,
+      DEPTH_ADDER_PER_INCH: 25,
+      LIGHTING_ADDER_FRONT_LIT: 160,
+      MIN_PRICE: 600,
+    },
+    [SignType.WINDOW_VINYL]: {
+      PER_SQFT: 10,
+      LAMINATION_PERCENT: 0.25,
+      MIN_PRICE: 95,
+    },
+    [SignType.PYLON]: {
+      PER_SQFT: 30,
+      DOUBLE_SIDED_PERCENT: 0.5,
+      LIGHTING_PER_SQFT: 12,
+      STRUCTURE_PER_FT: 180,
+      FOUNDATION_BASE: 1500,
+      FOUNDATION_PER_FT: 60,
+      MIN_PRICE: 2500,
+    },
+    [SignType.BLADE]: {
+      PER_SQFT: 25,
+      DOUBLE_SIDED_PERCENT: 0.6,
+      LIGHTING_ADDER: 160,
+      BRACKET: 180,
+      MIN_PRICE: 450,
+    },
+    [SignType.FLAT_PANEL]: {
+      PER_SQFT: 18,
+      MIN_PRICE: 150,
+    },
+    LOGO: {
+      CABINET_PER_SQFT: 65,
+      CABINET_RETURN_PER_FT: 22,
+      MIN_PRICE: 350,
+    },
+    RUSH_ORDER_PERCENT: 0.12,
+  },
+  INSTALLATION: {
+    BASE_TRIP: 150,
+    LABOR_RATE: 80,
+    HEIGHT_TIERS: [
+      { maxFt: 10, hours: 2 },
+      { maxFt: 15, hours: 3 },
+      { maxFt: 25, hours: 4 },
+      { maxFt: 40, hours: 6 },
+    ],
+    LIFT: {
+      SCISSOR: 350,
+      BOOM: 650,
+    },
+    ELECTRICAL: 250,
+    PERMIT: 300,
+    HARD_ACCESS: 150,
+    CONTINGENCY_PERCENT: 0.1,
+    ADDITIONAL_SIGN_LABOR_PERCENT: 0.5,
+  },
+  ELECTRICAL: {
+    LETTER_MODULES_PER_SQFT: 6,
+    CABINET_MODULES_PER_SQFT: 4,
+    WATTS_PER_MODULE: 1.2,
+    LED_MODULE_COST: 4.5,
+    POWER_SUPPLIES: [
+      { watts: 60, cost: 55 },
+      { watts: 100, cost: 80 },
+      { watts: 150, cost: 105 },
+    ],
+    LOAD_MARGIN_PERCENT: 0.2,
+    SUPPLY_EFFICIENCY_PERCENT: 0.85,
+    LINE_VOLTAGE: 120,
+    CIRCUIT_AMPS: 20,
+    CIRCUIT_LOAD_PERCENT: 0.8,
+    PER_EXTRA_CIRCUIT: 180,
+    PER_POWER_SUPPLY: 30,
+  },
+  TAX: {
+    DEFAULT_PROFILE: 'CA-GST',
+    PROFILES: [
+      { id: 'CA-GST', label: 'GST only (AB, NT, NU, YT)', currency: 'CAD', regions: ['AB', 'NT', 'NU', 'YT'], taxes: [{ name: 'GST', rate: 0.05 }] },
+      { id: 'CA-BC', label: 'British Columbia (GST + PST)', currency: 'CAD', regions: ['BC'], taxes: [{ name: 'GST', rate: 0.05 }, { name: 'PST', rate: 0.07 }] },
+      { id: 'CA-SK', label: 'Saskatchewan (GST + PST)', currency: 'CAD', regions: ['SK'], taxes: [{ name: 'GST', rate: 0.05 }, { name: 'PST', rate: 0.06 }] },
+      { id: 'CA-MB', label: 'Manitoba (GST + RST)', currency: 'CAD', regions: ['MB'], taxes: [{ name: 'GST', rate: 0.05 }, { name: 'RST', rate: 0.07 }] },
+      { id: 'CA-ON', label: 'Ontario (HST)', currency: 'CAD', regions: ['ON'], taxes: [{ name: 'HST', rate: 0.13 }] },
+      { id: 'CA-QC', label: 'Quebec (GST + QST)', currency: 'CAD', regions: ['QC'], taxes: [{ name: 'GST', rate: 0.05 }, { name: 'QST', rate: 0.09975 }] },
+      { id: 'CA-NS', label: 'Nova Scotia (HST)', currency: 'CAD', regions: ['NS'], taxes: [{ name: 'HST', rate: 0.14 }] },
+      { id: 'CA-HST15', label: 'NB, NL, PE (HST)', currency: 'CAD', regions: ['NB', 'NL', 'PE'], taxes: [{ name: 'HST', rate: 0.15 }] },
+      { id: 'US-WA', label: 'Washington (state sales tax)', currency: 'USD', regions: ['WA'], taxes: [{ name: 'Sales Tax', rate: 0.065 }] },
+      { id: 'US-OR', label: 'Oregon (no sales tax)', currency: 'USD', regions: ['OR'], taxes: [] },
+      { id: 'US-ID', label: 'Idaho (state sales tax)', currency: 'USD', regions: ['ID'], taxes: [{ name: 'Sales Tax', rate: 0.06 }] },
+      { id: 'US-MT', label: 'Montana (no sales tax)', currency: 'USD', regions: ['MT'], taxes: [] },
+      { id: 'US-CA', label: 'California (state sales tax)', currency: 'USD', regions: ['CA'], taxes: [{ name: 'Sales Tax', rate: 0.0725 }] },
+      { id: 'US-NY', label: 'New York (state sales tax)', currency: 'USD', regions: ['NY'], taxes: [{ name: 'Sales Tax', rate: 0.04 }] },
+    ],
+  },
+};
+
+export const FONT_LIBRARY: Record<string, string[]> = {
+  "General Commercial": [
+    "Arial",
+    "Helvetica",
+    "Roboto",
+    "Montserrat",
+    "Poppins",
+  ],
+  "Luxury / High-end": [
+    "Playfair Display",
+    "Cinzel",
+    "Didot",
+  ],
+  "Bold / Visibility": [
+    "Oswald",
+    "Bebas Neue",
+    "DIN",
+  ],
+};
+
+export function getAllFonts(): string[] {
+  return Object.values(FONT_LIBRARY).flat();
+}
+
+// Shipped proposal template. Brands saved from the settings screen start as a copy of this.
+export const DEFAULT_BRAND_TEMPLATE: BrandTemplate = {
+  id: 'default',
+  name: 'SignQuote Pro',
+  companyName: 'SignQuote Pro',
+  logoDataUrl: null,
+  letterhead: [],
+  accentColor: '#1e293b',
+  headerLayout: 'LEFT',
+  sections: ['COVER', 'SPECS', 'PRICING', 'TERMS'],
+  quoteNumberFormat: '{PREFIX}-{YYYY}-{SEQ}',
+  quotePrefix: 'SQ',
+  validDays: 30,
+  depositPercent: 0.5,
+  terms: [
+    'Production begins once the deposit and signed proposal are received. The balance is due on completion of installation.',
+    'Prices assume the site conditions shown in the photo. Concealed conditions, landlord requirements or permit changes may require a revised quote.',
+    'Permit fees are passed through at cost. Approval times are set by the issuing authority.',
+  ].join('\n\n'),
+  footer: '',
+};
+
+// Permit package for municipalities whose rule pack doesn't have its own template
+export const DEFAULT_PERMIT_TEMPLATE: PermitTemplate = {
+  title: 'Sign Permit Application',
+  pageSize: 'a4',
+  sections: ['APPLICATION', 'SITE_PHOTO', 'ELEVATIONS', 'ELECTRICAL', 'MOUNTING'],
+  fields: ['Property owner', 'Owner phone', 'Owner signature'],
+  instructions: [],
+};
@@ -0,0 +1,70 @@
+import { DEFAULT_BRAND_TEMPLATE } from "../constants";
+import { BrandTemplate } from "../types";
+import { formatQuoteNumber, validateBrandTemplate } from "../utils/brand";
+
+const BRANDS_KEY = 'signquote.brands';
+const ACTIVE_KEY = 'signquote.activeBrand';
+const SEQUENCE_KEY = 'signquote.quoteSequence';
+
+const readBrands = (): BrandTemplate[] => {
+  try {
+    const raw = localStorage.getItem(BRANDS_KEY);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    // Fill in any setting added to the template after this brand was saved
+    return Array.isArray(parsed) ? parsed.map(b => ({ ...DEFAULT_BRAND_TEMPLATE, ...b })) : [];
+  } catch (e) {
+    console.error("Failed to read saved brands:", e);
+    return [];
+  }
+};
+
+/** Saved brands, with the shipped template first unless it has been overridden. */
+export const listBrandTemplates = (): BrandTemplate[] => {
+  const saved = readBrands();
+  return saved.some(b => b.id === DEFAULT_BRAND_TEMPLATE.id) ? saved : [DEFAULT_BRAND_TEMPLATE, ...saved];
+};
+
+export const getBrandTemplate = (id: string | null | undefined): BrandTemplate => {
+  const brands = listBrandTemplates();
+  return brands.find(b => b.id === id) || brands.find(b => b.id === localStorage.getItem(ACTIVE_KEY)) || brands[0];
+};
+
+export const setActiveBrand = (id: string) => {
+  localStorage.setItem(ACTIVE_KEY, id);
+};
+
+/** Adds or replaces a brand. Throws if it does not validate. */
+export const saveBrandTemplate = (template: BrandTemplate): BrandTemplate => {
+  const issues = validateBrandTemplate(template);
+  if (issues.length > 0) {
+    throw new Error(`Invalid brand: ${issues.map(i => `${i.field} ${i.message}`).join('; ')}`);
+  }
+  const saved = readBrands();
+  const next = saved.some(b => b.id === template.id)
+    ? saved.map(b => b.id === template.id ? template : b)
+    : [...saved, template];
+  localStorage.setItem(BRANDS_KEY, JSON.stringify(next));
+  return template;
+};
+
+/** Deletes a saved brand. Deleting the shipped template's override restores the original. */
+export const deleteBrandTemplate = (id: string) => {
+  localStorage.setItem(BRANDS_KEY, JSON.stringify(readBrands().filter(b => b.id !== id)));
+};
+
+/**
+ * Takes the next number in the brand's sequence. Numbers are never reused, even
+ * if the quote they were given to is never saved.
+ */
+export const nextQuoteNumber = (template: BrandTemplate): string => {
+  let sequences: Record<string, number> = {};
+  try {
+    sequences = JSON.parse(localStorage.getItem(SEQUENCE_KEY) || '{}');
+  } catch (e) {
+    console.error("Failed to read the quote number sequence:", e);
+  }
+  const sequence = (sequences[template.id] || 0) + 1;
+  localStorage.setItem(SEQUENCE_KEY, JSON.stringify({ ...sequences, [template.id]: sequence }));
+  return formatQuoteNumber(template, sequence);
+};
@@ -0,0 +1,190 @@
+import { DesignVariant, LightingType, SignPlacement, SignType } from "../types";
+import { BrandPalette, MIN_SIGN_CONTRAST } from "../utils/colorAnalysis";
+import { DesignCorrection, DesignIssue, DesignValidationError, validateDesign } from "../utils/designValidation";
+
+export interface DesignRequest {
+  text: string;
+  signType: SignType;
+  allowedFonts: string[];
+  imageBase64?: string; // storefront photo, JPEG
+  userContext?: string; // business and style, e.g. "family pizza restaurant"
+  palette?: BrandPalette; // colours measured from the photo and logo
+  previousIssues?: DesignIssue[]; // why the last answer was rejected, when retrying
+  refine?: VariantRefinement; // redesign one option instead of all three
+}
+
+/** One option to redesign: regenerated when there is no instruction, otherwise revised as asked. */
+export interface VariantRefinement {
+  index: number;
+  variant: DesignVariant;
+  instruction?: string; // e.g. "in gold with wider spacing"
+}
+
+export interface DesignResponse {
+  variants: DesignVariant[];
+  placement?: SignPlacement;
+  provider?: string;    // label of the designer that produced the variants
+  warning?: string;     // set when the chosen designer failed and another stood in
+  corrections?: DesignCorrection[]; // values changed to pass validation
+}
+
+/** Anything that can turn a design request into Option A/B/C variants. */
+export interface DesignProvider {
+  label: string;
+  requiresNetwork: boolean;
+  generate: (request: DesignRequest) => Promise<DesignResponse>;
+}
+
+// Used when nothing better is known: a band across the upper middle of the photo
+export const DEFAULT_PLACEMENT: SignPlacement = { ymin: 0.2, xmin: 0.3, ymax: 0.4, xmax: 0.7 };
+
+// Strict mapping for Option A/B/C requirements
+const OPTION_CONFIGS = [
+  {
+    name: "Option A – Standard Visibility",
+    description: "Most common choice. Bright front-lit letters with excellent daytime and nighttime visibility."
+  },
+  {
+    name: "Option B – Premium Halo (Recommended)",
+    description: "Recommended for a premium look. Halo back-lit letters create an elegant, upscale appearance and higher perceived value."
+  },
+  {
+    name: "Option C – Maximum Impact",
+    description: "Best for maximum impact. Thicker, bolder letters improve readability for longer names or wider storefronts."
+  }
+];
+
+// Cabinet and panel signs have no halo option, so B is a dark-face upgrade instead
+const CABINET_OPTION_CONFIGS = [
+  {
+    name: "Option A – Standard Cabinet",
+    description: "Most common choice. Light face with dark copy, clean and readable day and night."
+  },
+  {
+    name: "Option B – Premium Dark Face (Recommended)",
+    description: "Recommended for a premium look. Dark opaque face so only the copy reads at night, a more upscale finish."
+  },
+  {
+    name: "Option C – Maximum Impact",
+    description: "Best for maximum impact. Bold copy on a saturated brand-colour face for long-distance readability."
+  }
+];
+
+export const isCabinetType = (signType: SignType) =>
+  signType === SignType.PYLON || signType === SignType.BLADE || signType === SignType.FLAT_PANEL;
+
+export const getOptionConfigs = (signType: SignType) =>
+  isCabinetType(signType) ? CABINET_OPTION_CONFIGS : OPTION_CONFIGS;
+
+// Lighting each option is locked to, regardless of what the designer suggests
+export const getOptionLighting = (signType: SignType, index: number): LightingType => {
+  if (signType === SignType.FLAT_PANEL) return LightingType.NON_LIT;
+  if (isCabinetType(signType)) return LightingType.FRONT_LIT;
+  return index === 1 ? LightingType.BACK_LIT : LightingType.FRONT_LIT;
+};
+
+/**
+ * Enforces Option A/B/C naming, descriptions and lighting on whatever a designer
+ * returned. `firstIndex` is the option the first variant stands for.
+ */
+export const applyOptionConfigs = (variants: DesignVariant[], signType: SignType, firstIndex = 0): DesignVariant[] => {
+  const configs = getOptionConfigs(signType);
+  return variants.slice(0, 3 - firstIndex).map((v, i) => {
+    const index = firstIndex + i;
+    const config = configs[index] || configs[0];
+    return {
+      ...v,
+      name: config.name,
+      description: config.description,
+      lighting: getOptionLighting(signType, index)
+    };
+  });
+};
+
+/** Instructions shared by the LLM designers. */
+export const designSystemInstruction = (allowedFonts: string[]) => `
+You are an expert sign designer and surveyor.
+1. Generate exactly 3 distinct, professional design variations for a storefront sign in this SPECIFIC ORDER:
+   - Variant 1 (Standard): Clean, highly readable, FRONT_LIT. Suggest standard commercial font (e.g. Montserrat, Helvetica).
+   - Variant 2 (Premium): Elegant, upscale, BACK_LIT (Halo). Suggest premium font (e.g. Montserrat, Gotham).
+   - Variant 3 (Impact): Bold, heavy visibility, FRONT_LIT. Suggest thick/bold font (e.g. Montserrat Bold, Impact).
+
+   Constraints:
+   - You MUST select fonts ONLY from this list: ${allowedFonts.join(', ')}. 
+   - If "Montserrat" is available in the list, prefer it for consistency unless style dictates otherwise.
+   - For "Channel Letters", suggest letter height between 10 and 24 inches.
+   - For "Lightbox" or "Vinyl", suggest appropriate contrasting colors.
+   - For "Pylon", "Blade" or "Flat Panel", design the cabinet/panel face: always set backgroundColor for the face and a contrasting text color.
+
+2. Analyze the provided storefront image to find the optimal mounting location for the sign.
+   - PRIORITY 1: Center of the main awning or fascia above the entrance.
+   - PRIORITY 2: Centered on the empty wall space directly above the door.
+   - Return the bounding box coordinates (ymin, xmin, ymax, xmax) normalized to 0-1 range.
+
+Strictly adhere to the JSON schema.
+`;
+
+const OPTION_ROLES = ['Standard', 'Premium', 'Impact'];
+
+// The measured colours, so the designer works from the brand and the wall rather than guessing
+const paletteNotes = (palette?: BrandPalette) => {
+  if (!palette) return "";
+  const found = [
+    palette.wall && `wall behind the sign ${palette.wall}`,
+    palette.fascia && `fascia ${palette.fascia}`,
+    palette.accent && `awning/trim ${palette.accent}`,
+    palette.logo.length > 0 && `logo ${palette.logo.join(', ')}`,
+  ].filter(Boolean);
+  if (found.length === 0) return "";
+  return `Colours measured on site: ${found.join('; ')}.
+      ${palette.recommendedText.length > 0
+        ? `Recommended copy colours, each with at least ${MIN_SIGN_CONTRAST}:1 contrast against the wall: ${palette.recommendedText.join(', ')}. Letters without a backer must use one of these or another colour with that contrast.`
+        : ""}
+      Use the logo colours where they read well so the sign matches the brand.`;
+};
+
+const refinePrompt = (request: DesignRequest, refine: VariantRefinement) => `
+      This is the current design for Option ${String.fromCharCode(65 + refine.index)} (${OPTION_ROLES[refine.index] || 'Alternative'}) of a ${request.signType} sign:
+      ${JSON.stringify(refine.variant)}
+      Text content: "${request.text}".
+      ${refine.instruction
+        ? `Revise it as the client asked: "${refine.instruction}". Keep everything the request doesn't mention.`
+        : "Suggest a different design in the same role that is clearly distinct from this one."}
+      Return exactly ONE design in the variants array, not three.
+      ${paletteNotes(request.palette)}
+      ${request.previousIssues?.length
+        ? `Your previous answer was rejected. Fix these problems: ${request.previousIssues.map(i => `${i.path || 'response'} ${i.message}`).join('; ')}.`
+        : ""}
+    `;
+
+export const designPrompt = (request: DesignRequest) => request.refine ? refinePrompt(request, request.refine) : `
+      Design 3 variations for a ${request.signType} sign.
+      Text content: "${request.text}".
+      Context/Vibe: ${request.userContext || "Modern and professional business"}.
+      ${request.imageBase64 ? "Analyze the image for optimal sign placement." : ""}
+      ${paletteNotes(request.palette)}
+      ${request.previousIssues?.length
+        ? `Your previous answer was rejected. Fix these problems: ${request.previousIssues.map(i => `${i.path || 'response'} ${i.message}`).join('; ')}.`
+        : ""}
+    `;
+
+/**
+ * Reads the JSON an LLM designer returned into variants with the option rules
+ * applied. Repairable values are corrected; otherwise a DesignValidationError
+ * carries the problems so the designer can be asked again.
+ */
+export const parseDesignJson = (jsonText: string, request: DesignRequest): DesignResponse => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(jsonText);
+  } catch {
+    throw new DesignValidationError([{ path: '', message: 'is not valid JSON' }]);
+  }
+  const design = validateDesign(parsed, request.allowedFonts, DEFAULT_PLACEMENT, request.refine ? 1 : 3);
+  if (design.issues.length > 0) throw new DesignValidationError(design.issues);
+  return {
+    variants: applyOptionConfigs(design.variants, request.signType, request.refine?.index),
+    placement: design.placement,
+    corrections: design.corrections
+  };
+};
@@ -0,0 +1,28 @@
+import { DesignProviderSettings } from "../types";
+
+const SETTINGS_KEY = 'signquote.designProvider';
+
+export const DEFAULT_DESIGN_SETTINGS: DesignProviderSettings = {
+  providerId: 'GEMINI',
+  endpoint: { baseUrl: 'http://localhost:11434/v1', model: '', apiKey: '', sendImage: false },
+};
+
+export const loadDesignSettings = (): DesignProviderSettings => {
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    if (!raw) return DEFAULT_DESIGN_SETTINGS;
+    const saved = JSON.parse(raw);
+    return {
+      ...DEFAULT_DESIGN_SETTINGS,
+      ...saved,
+      endpoint: { ...DEFAULT_DESIGN_SETTINGS.endpoint, ...saved?.endpoint }
+    };
+  } catch (e) {
+    console.error("Failed to read the design provider settings:", e);
+    return DEFAULT_DESIGN_SETTINGS;
+  }
+};
+
+export const saveDesignSettings = (settings: DesignProviderSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
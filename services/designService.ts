@@ -0,0 +1,75 @@
+import { DesignProviderId, DesignProviderSettings } from "../types";
+import { DesignProvider, DesignRequest, DesignResponse } from "./designProvider";
+import { geminiDesignProvider } from "./geminiService";
+import { createOpenAiCompatibleProvider } from "./openAiCompatibleProvider";
+import { ruleBasedDesigner } from "./ruleBasedDesigner";
+import { DesignValidationError } from "../utils/designValidation";
+
+// Long enough for a slow model, short enough that a rep on a weak signal isn't left waiting
+const NETWORK_TIMEOUT_MS = 45000;
+// First answer plus retries with the validation problems fed back
+const MAX_DESIGN_ATTEMPTS = 3;
+
+export const DESIGN_PROVIDER_LABELS: Record<DesignProviderId, string> = {
+  GEMINI: 'Gemini (online)',
+  OPENAI_COMPATIBLE: 'OpenAI-compatible endpoint',
+  RULES: 'Offline rules',
+};
+
+export const getDesignProvider = (settings: DesignProviderSettings): DesignProvider => {
+  switch (settings.providerId) {
+    case 'OPENAI_COMPATIBLE': return createOpenAiCompatibleProvider(settings.endpoint);
+    case 'RULES': return ruleBasedDesigner;
+    default: return geminiDesignProvider;
+  }
+};
+
+const withTimeout = <T,>(promise: Promise<T>, ms: number): Promise<T> =>
+  new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`No answer after ${ms / 1000}s`)), ms);
+    promise.then(
+      value => { clearTimeout(timer); resolve(value); },
+      error => { clearTimeout(timer); reject(error); }
+    );
+  });
+
+/** Asks the provider again, with the problems it made, until its answer validates. */
+const generateValidated = async (provider: DesignProvider, request: DesignRequest): Promise<DesignResponse> => {
+  let attemptRequest = request;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return provider.requiresNetwork
+        ? await withTimeout(provider.generate(attemptRequest), NETWORK_TIMEOUT_MS)
+        : await provider.generate(attemptRequest);
+    } catch (error) {
+      if (!(error instanceof DesignValidationError) || attempt >= MAX_DESIGN_ATTEMPTS) throw error;
+      console.error(`${provider.label} design rejected (attempt ${attempt}):`, error.issues);
+      attemptRequest = { ...request, previousIssues: error.issues };
+    }
+  }
+};
+
+/**
+ * Designs with the configured provider. Answers that fail validation are
+ * retried; if a network designer still fails or times out, the offline rules
+ * stand in so the quote can carry on, and the response says why.
+ */
+export const generateDesigns = async (request: DesignRequest, settings: DesignProviderSettings): Promise<DesignResponse> => {
+  const provider = getDesignProvider(settings);
+  try {
+    const response = await generateValidated(provider, request);
+    return { ...response, provider: provider.label };
+  } catch (error) {
+    if (provider === ruleBasedDesigner) throw error;
+    console.error(`${provider.label} design error:`, error);
+    const response = await ruleBasedDesigner.generate(request);
+    const reason = error instanceof DesignValidationError
+      ? `no valid design after ${MAX_DESIGN_ATTEMPTS} tries`
+      : error instanceof Error ? error.message : String(error);
+    return {
+      ...response,
+      provider: ruleBasedDesigner.label,
+      warning: `${provider.label} is unavailable (${reason}), so these are offline designs.`
+    };
+  }
+};
@@ -0,0 +1,61 @@
+import { DesignProviderSettings } from "../types";
+import { DesignProvider, designPrompt, designSystemInstruction, parseDesignJson } from "./designProvider";
+
+// Chat-completions servers can't take Gemini's response schema, so the shape is spelled out
+const JSON_SHAPE = `
+Reply with a single JSON object and nothing else:
+{
+  "variants": [{
+    "name": string, "fontFamily": string, "letterSpacing": string (e.g. "0.05em"),
+    "lighting": "FRONT_LIT" | "BACK_LIT" | "NON_LIT", "roundedBacker": boolean, "stroke": boolean,
+    "strokeWidth": string (e.g. "2px"), "recommendedLetterHeightIn": number,
+    "color": hex string, "backgroundColor": hex string (optional)
+  }],
+  "placement": { "ymin": number, "xmin": number, "ymax": number, "xmax": number }
+}
+`;
+
+/**
+ * A designer on any OpenAI-compatible chat completions endpoint: hosted LLMs
+ * or a local server such as Ollama, LM Studio or vLLM.
+ */
+export const createOpenAiCompatibleProvider = (endpoint: DesignProviderSettings['endpoint']): DesignProvider => ({
+  label: endpoint.model ? `${endpoint.model} (${endpoint.baseUrl})` : endpoint.baseUrl,
+  requiresNetwork: true,
+  generate: async request => {
+    if (!endpoint.baseUrl || !endpoint.model) {
+      throw new Error("The design endpoint URL and model are not set");
+    }
+    const prompt = designPrompt(request);
+    const userContent = endpoint.sendImage && request.imageBase64
+      ? [
+          { type: 'text', text: prompt },
+          { type: 'image_url', image_url: { url: `data:image/jpeg;base64,${request.imageBase64}` } }
+        ]
+      : prompt;
+
+    const response = await fetch(`${endpoint.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(endpoint.apiKey ? { Authorization: `Bearer ${endpoint.apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model: endpoint.model,
+        response_format: { type: 'json_object' },
+        messages: [
+          { role: 'system', content: designSystemInstruction(request.allowedFonts) + JSON_SHAPE },
+          { role: 'user', content: userContent }
+        ]
+      })
+    });
+    if (!response.ok) {
+      throw new Error(`Design endpoint returned ${response.status} ${response.statusText}`);
+    }
+    const data = await response.json();
+    const jsonText: string | undefined = data?.choices?.[0]?.message?.content;
+    if (!jsonText) throw new Error("No data returned from the design endpoint");
+    // Some local models wrap the JSON in a code fence despite being asked not to
+    return parseDesignJson(jsonText.replace(/^\s*```(?:json)?\s*|\s*```\s*$/g, ''), request);
+  }
+});
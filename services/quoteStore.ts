@@ -0,0 +1,166 @@
+import { QuoteRevision, QuoteSnapshot, SavedJobSummary, SignLineItem } from "../types";
+
+const DB_NAME = 'signquote';
+const DB_VERSION = 1;
+const JOBS = 'jobs';
+const REVISIONS = 'revisions';
+const IMAGES = 'images';
+
+const openDb = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      db.createObjectStore(JOBS, { keyPath: 'id' });
+      const revisions = db.createObjectStore(REVISIONS, { keyPath: ['jobId', 'revision'] });
+      revisions.createIndex('jobId', 'jobId');
+      // Photos are stored once and shared by every revision that references them
+      db.createObjectStore(IMAGES);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+// IndexedDB hands back copies, so the selected variant is no longer one of the
+// variants in the list. Re-link it so the UI's identity checks keep working.
+const relinkSelectedVariants = (items: SignLineItem[]): SignLineItem[] =>
+  items.map(item => {
+    if (!item.selectedVariant) return item;
+    const selected = JSON.stringify(item.selectedVariant);
+    const match = item.variants.find(v => JSON.stringify(v) === selected);
+    return match ? { ...item, selectedVariant: match } : item;
+  });
+
+/**
+ * Saves the job as a new numbered revision. Pass `jobId: null` to start a new job.
+ * The photo is only written the first time its imageId is seen.
+ */
+export const saveQuoteRevision = async (params: {
+  jobId: string | null;
+  snapshot: QuoteSnapshot;
+  image?: Blob | null;
+  note?: string;
+}): Promise<QuoteRevision> => {
+  const { snapshot, image, note } = params;
+  const db = await openDb();
+  const tx = db.transaction([JOBS, REVISIONS, IMAGES], 'readwrite');
+  const done = transactionDone(tx);
+
+  const jobId = params.jobId || crypto.randomUUID();
+  const existing = await requestToPromise(tx.objectStore(JOBS).get(jobId)) as SavedJobSummary | undefined;
+  const now = new Date().toISOString();
+
+  const revision: QuoteRevision = {
+    jobId,
+    revision: (existing?.latestRevision || 0) + 1,
+    savedAt: now,
+    note: note?.trim() || undefined,
+    snapshot,
+  };
+
+  const summary: SavedJobSummary = {
+    id: jobId,
+    clientName: snapshot.installConfig.clientName,
+    address: snapshot.installConfig.address,
+    latestRevision: revision.revision,
+    createdAt: existing?.createdAt || now,
+    updatedAt: now,
+    total: snapshot.quote?.total ?? null,
+    currency: snapshot.quote?.currency,
+    quoteNumber: snapshot.quoteNumber ?? existing?.quoteNumber ?? null,
+  };
+
+  if (snapshot.imageId && image) {
+    const images = tx.objectStore(IMAGES);
+    const storedKey = await requestToPromise(images.getKey(snapshot.imageId));
+    if (storedKey === undefined) images.put(image, snapshot.imageId);
+  }
+  tx.objectStore(REVISIONS).put(revision);
+  tx.objectStore(JOBS).put(summary);
+
+  await done;
+  db.close();
+  return revision;
+};
+
+/** Saved jobs, most recently updated first, filtered by client name, address or quote number. */
+export const listJobs = async (query: string = ''): Promise<SavedJobSummary[]> => {
+  const db = await openDb();
+  const jobs = await requestToPromise(db.transaction(JOBS).objectStore(JOBS).getAll()) as SavedJobSummary[];
+  db.close();
+
+  const q = query.trim().toLowerCase();
+  return jobs
+    .filter(job => !q
+      || job.clientName.toLowerCase().includes(q)
+      || job.address.toLowerCase().includes(q)
+      || !!job.quoteNumber?.toLowerCase().includes(q))
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+/** All revisions of a job, oldest first. */
+export const listRevisions = async (jobId: string): Promise<QuoteRevision[]> => {
+  const db = await openDb();
+  const index = db.transaction(REVISIONS).objectStore(REVISIONS).index('jobId');
+  const revisions = await requestToPromise(index.getAll(jobId)) as QuoteRevision[];
+  db.close();
+  return revisions
+    .sort((a, b) => a.revision - b.revision)
+    .map(r => ({ ...r, snapshot: { ...r.snapshot, items: relinkSelectedVariants(r.snapshot.items) } }));
+};
+
+/** Loads one revision (the latest if none is given) together with its photo. */
+export const loadQuoteRevision = async (
+  jobId: string,
+  revision?: number
+): Promise<{ revision: QuoteRevision; image: Blob | null }> => {
+  const revisions = await listRevisions(jobId);
+  const found = revision === undefined
+    ? revisions[revisions.length - 1]
+    : revisions.find(r => r.revision === revision);
+  if (!found) throw new Error(`Revision ${revision ?? 'latest'} of job ${jobId} not found`);
+
+  let image: Blob | null = null;
+  if (found.snapshot.imageId) {
+    const db = await openDb();
+    image = await requestToPromise(db.transaction(IMAGES).objectStore(IMAGES).get(found.snapshot.imageId)) ?? null;
+    db.close();
+  }
+  return { revision: found, image };
+};
+
+/** Removes a job and all of its revisions, and its photos unless another job's revisions use them too. */
+export const deleteJob = async (jobId: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([JOBS, REVISIONS, IMAGES], 'readwrite');
+  const done = transactionDone(tx);
+  const all = await requestToPromise(tx.objectStore(REVISIONS).getAll()) as QuoteRevision[];
+  const imageIds = (revisions: QuoteRevision[]) =>
+    new Set(revisions.map(r => r.snapshot.imageId).filter((id): id is string => !!id));
+  const revisions = all.filter(r => r.jobId === jobId);
+  const stillUsed = imageIds(all.filter(r => r.jobId !== jobId));
+
+  tx.objectStore(JOBS).delete(jobId);
+  revisions.forEach(r => tx.objectStore(REVISIONS).delete([r.jobId, r.revision]));
+  imageIds(revisions).forEach(id => {
+    if (!stillUsed.has(id)) tx.objectStore(IMAGES).delete(id);
+  });
+  await done;
+  db.close();
+};
@@ -0,0 +1,248 @@
+import { FONT_LIBRARY } from "../constants";
+import { DesignVariant, SignType } from "../types";
+import { BrandPalette, contrastRatio, MIN_SIGN_CONTRAST } from "../utils/colorAnalysis";
+import { applyOptionConfigs, DEFAULT_PLACEMENT, DesignProvider, DesignRequest, DesignResponse, getOptionLighting, isCabinetType, VariantRefinement } from "./designProvider";
+
+type Mood = 'WARM' | 'ELEGANT' | 'PROFESSIONAL' | 'BOLD' | 'MODERN';
+
+// Words in the sign text or business description that set the palette
+const MOOD_KEYWORDS: [Mood, string[]][] = [
+  ['WARM', ['pizza', 'pizzeria', 'cafe', 'coffee', 'bakery', 'restaurant', 'grill', 'kitchen', 'bistro', 'deli', 'taco', 'burger', 'pub', 'bar', 'diner', 'food']],
+  ['ELEGANT', ['salon', 'spa', 'boutique', 'beauty', 'jewel', 'jewellery', 'jewelry', 'bridal', 'nails', 'lash', 'wine', 'hotel', 'gallery', 'luxury', 'upscale']],
+  ['PROFESSIONAL', ['law', 'legal', 'dental', 'dentist', 'clinic', 'medical', 'health', 'bank', 'insurance', 'realty', 'accounting', 'pharmacy', 'office', 'financial']],
+  ['BOLD', ['gym', 'fitness', 'auto', 'tire', 'tires', 'garage', 'hardware', 'sports', 'liquor', 'outlet', 'discount', 'repair', 'pawn']],
+];
+
+// face: front-lit acrylic or printed face, halo: reverse-lit face, dark/light: backers and cabinet faces
+const PALETTES: Record<Mood, { face: string; halo: string; dark: string; light: string; accent: string }> = {
+  WARM: { face: '#c2410c', halo: '#f59e0b', dark: '#3f1d0b', light: '#fff7ed', accent: '#b91c1c' },
+  ELEGANT: { face: '#ffffff', halo: '#b08d57', dark: '#1c1917', light: '#faf5ef', accent: '#b08d57' },
+  PROFESSIONAL: { face: '#1d4ed8', halo: '#e5e7eb', dark: '#0f172a', light: '#ffffff', accent: '#1d4ed8' },
+  BOLD: { face: '#dc2626', halo: '#ffffff', dark: '#111111', light: '#ffffff', accent: '#dc2626' },
+  MODERN: { face: '#ffffff', halo: '#ffffff', dark: '#111827', light: '#ffffff', accent: '#2563eb' },
+};
+
+// The library category each option's font is drawn from, in order of preference
+const FONT_ROLES: Record<'STANDARD' | 'PREMIUM' | 'IMPACT', string[]> = {
+  STANDARD: ['General Commercial', 'Bold / Visibility', 'Luxury / High-end'],
+  PREMIUM: ['Luxury / High-end', 'General Commercial', 'Bold / Visibility'],
+  IMPACT: ['Bold / Visibility', 'General Commercial', 'Luxury / High-end'],
+};
+
+type Palette = typeof PALETTES[Mood];
+
+/**
+ * The mood's palette with the measured colours worked in: the logo's main
+ * colour as the accent and for faces, and copy colours that don't read against
+ * the wall swapped for a recommended one.
+ */
+const brandPalette = (palette: Palette, brand?: BrandPalette): { palette: Palette; readable: (color: string) => string } => {
+  const readable = (color: string) =>
+    !brand?.wall || contrastRatio(color, brand.wall) >= MIN_SIGN_CONTRAST ? color : brand.recommendedText[0] || color;
+  if (!brand) return { palette, readable };
+  const brandFace = brand.recommendedText.find(c => brand.logo.includes(c));
+  return {
+    palette: { ...palette, face: readable(brandFace || palette.face), halo: readable(palette.halo), accent: brand.logo[0] || brand.accent || palette.accent },
+    readable
+  };
+};
+
+const detectMood = (request: DesignRequest): Mood => {
+  const words = `${request.text} ${request.userContext || ''}`
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^a-z]+/);
+  const match = MOOD_KEYWORDS.find(([, keywords]) => keywords.some(k => words.includes(k)));
+  return match ? match[0] : 'MODERN';
+};
+
+/**
+ * The first allowed font from the role's preferred categories, Montserrat first
+ * where it qualifies. Fonts the other options already use are only picked when
+ * nothing else is allowed, so A, B and C look different.
+ */
+const pickFont = (allowedFonts: string[], role: keyof typeof FONT_ROLES, used: string[]): string => {
+  if (allowedFonts.length === 0) return 'Arial';
+  const fresh = allowedFonts.filter(f => !used.includes(f));
+  const pool = fresh.length > 0 ? fresh : allowedFonts;
+  for (const category of FONT_ROLES[role]) {
+    const candidates = (FONT_LIBRARY[category] || []).filter(f => pool.includes(f));
+    if (candidates.includes('Montserrat')) return 'Montserrat';
+    if (candidates.length > 0) return candidates[0];
+  }
+  return pool[0];
+};
+
+// Shorter names can go taller on the same fascia
+const baseLetterHeight = (text: string): number => {
+  const letters = text.replace(/\s/g, '').length;
+  if (letters <= 6) return 18;
+  if (letters <= 12) return 15;
+  return 12;
+};
+
+const clampHeight = (inches: number) => Math.min(24, Math.max(10, Math.round(inches)));
+
+// Colour words clients use, as the shop's stock vinyl and paint colours
+const COLOR_WORDS: Record<string, string> = {
+  gold: '#c9a227', silver: '#c0c0c0', bronze: '#8c6a3f', copper: '#b87333', white: '#ffffff', black: '#111111',
+  red: '#dc2626', blue: '#1d4ed8', navy: '#1e3a8a', green: '#15803d', teal: '#0f766e', orange: '#ea580c',
+  yellow: '#facc15', purple: '#7e22ce', pink: '#db2777', brown: '#78350f', grey: '#6b7280', gray: '#6b7280', cream: '#fef3c7',
+};
+const BACKGROUND_WORDS = ['background', 'backer', 'face', 'panel', 'cabinet', 'box'];
+const SPACING_STEP_EM = 0.05;
+const HEIGHT_STEP_IN = 2;
+
+const readColor = (word: string): string | null =>
+  COLOR_WORDS[word] || (/^#([0-9a-f]{3}|[0-9a-f]{6})$/.test(word) ? word : null);
+
+/**
+ * Applies the parts of a plain-English request the rules understand: colour
+ * words or hex codes ("gold on black"), wider or tighter spacing, bigger or
+ * smaller letters, an outline, a rounded backer, or an allowed font by name.
+ */
+const refineByRules = (request: DesignRequest, refine: VariantRefinement, instruction: string): DesignVariant => {
+  const text = instruction.toLowerCase();
+  const words = text.split(/[^a-z0-9#]+/).filter(Boolean);
+  const variant = { ...refine.variant };
+  let understood = false;
+
+  let textColorSet = false;
+  words.forEach((word, i) => {
+    const color = readColor(word);
+    if (!color) return;
+    if (words[i - 1] === 'on' || BACKGROUND_WORDS.includes(words[i + 1])) {
+      variant.backgroundColor = color;
+    } else if (!textColorSet) {
+      variant.color = color;
+      textColorSet = true;
+    }
+    understood = true;
+  });
+
+  if (/spac|spread/.test(text)) {
+    const spacing = parseFloat(variant.letterSpacing) || 0;
+    if (/wider|more|loose|increase|spread|open/.test(text)) {
+      variant.letterSpacing = `${Math.round((spacing + SPACING_STEP_EM) * 100) / 100}em`;
+      understood = true;
+    } else if (/tight|less|narrow|reduce|closer/.test(text)) {
+      variant.letterSpacing = `${Math.max(0, Math.round((spacing - SPACING_STEP_EM) * 100) / 100)}em`;
+      understood = true;
+    }
+  }
+
+  if (/\b(bigger|larger|taller)\b/.test(text)) {
+    variant.recommendedLetterHeightIn = clampHeight(variant.recommendedLetterHeightIn + HEIGHT_STEP_IN);
+    understood = true;
+  } else if (/\b(smaller|shorter)\b/.test(text)) {
+    variant.recommendedLetterHeightIn = clampHeight(variant.recommendedLetterHeightIn - HEIGHT_STEP_IN);
+    understood = true;
+  }
+
+  if (/\bno (outline|stroke)\b/.test(text)) {
+    variant.stroke = false;
+    variant.strokeWidth = "0px";
+    understood = true;
+  } else if (/\b(outline|stroke|bolder|thicker)\b/.test(text)) {
+    const width = variant.stroke ? parseFloat(variant.strokeWidth) || 0 : 0;
+    variant.stroke = true;
+    variant.strokeWidth = width > 0 ? `${width + 1}px` : "2px";
+    understood = true;
+  }
+
+  if (/\bno (rounded )?backer\b/.test(text)) {
+    variant.roundedBacker = false;
+    understood = true;
+  } else if (/\brounded\b/.test(text)) {
+    variant.roundedBacker = true;
+    understood = true;
+  }
+
+  const font = [...request.allowedFonts].sort((a, b) => b.length - a.length).find(f => text.includes(f.toLowerCase()));
+  if (font) {
+    variant.fontFamily = font;
+    understood = true;
+  }
+
+  if (!understood) {
+    throw new Error(`The offline designer didn't understand "${instruction}". Try colours, spacing, size, outline, backer or a font name.`);
+  }
+  return variant;
+};
+
+/** The same option with the next allowed font and the next palette, so each regeneration looks different. */
+const regenerateByRules = (request: DesignRequest, refine: VariantRefinement): DesignVariant => {
+  const { allowedFonts } = request;
+  const variant = { ...refine.variant };
+  if (allowedFonts.length > 0) {
+    variant.fontFamily = allowedFonts[(allowedFonts.indexOf(variant.fontFamily) + 1) % allowedFonts.length];
+  }
+  const moods = Object.keys(PALETTES) as Mood[];
+  const current = moods.findIndex(m => Object.values(PALETTES[m]).includes(variant.color || ''));
+  const { palette, readable } = brandPalette(PALETTES[moods[(current + 1) % moods.length]], request.palette);
+  // The same colour roles designByRules gives each option
+  if (isCabinetType(request.signType)) {
+    const [color, backgroundColor] = [[palette.dark, palette.light], [palette.halo, palette.dark], ['#ffffff', palette.accent]][refine.index] || [palette.dark, palette.light];
+    return { ...variant, color, backgroundColor };
+  }
+  variant.color = readable(refine.index === 1 ? palette.halo : palette.face);
+  if (variant.backgroundColor) variant.backgroundColor = palette.dark;
+  return variant;
+};
+
+/**
+ * Builds Option A/B/C from the sign type, the allowed fonts and keywords in the
+ * sign text and business description. No network, and the same request always
+ * gives the same variants.
+ */
+export const designByRules = (request: DesignRequest): DesignResponse => {
+  const { signType, allowedFonts, refine } = request;
+  if (refine) {
+    const variant = refine.instruction ? refineByRules(request, refine, refine.instruction) : regenerateByRules(request, refine);
+    return { variants: applyOptionConfigs([variant], signType, refine.index) };
+  }
+  const { palette, readable } = brandPalette(PALETTES[detectMood(request)], request.palette);
+  const height = baseLetterHeight(request.text);
+  const fonts: string[] = [];
+  (['STANDARD', 'PREMIUM', 'IMPACT'] as const).forEach(role => fonts.push(pickFont(allowedFonts, role, fonts)));
+
+  // Name, description and lighting are filled in by the option rules
+  const variant = (index: number, style: Omit<DesignVariant, 'name' | 'lighting' | 'fontFamily' | 'recommendedLetterHeightIn'>, heightScale: number): DesignVariant => ({
+    name: '',
+    fontFamily: fonts[index],
+    lighting: getOptionLighting(signType, index),
+    recommendedLetterHeightIn: clampHeight(height * heightScale),
+    ...style
+  });
+
+  const variants = isCabinetType(signType)
+    ? [
+        variant(0, { letterSpacing: "0.02em", roundedBacker: false, stroke: false, strokeWidth: "0px", color: palette.dark, backgroundColor: palette.light }, 1),
+        variant(1, { letterSpacing: "0.1em", roundedBacker: false, stroke: false, strokeWidth: "0px", color: palette.halo, backgroundColor: palette.dark }, 0.85),
+        variant(2, { letterSpacing: "0em", roundedBacker: false, stroke: true, strokeWidth: "2px", color: '#ffffff', backgroundColor: palette.accent }, 1.25),
+      ]
+    : [
+        variant(0, { letterSpacing: "0.02em", roundedBacker: false, stroke: false, strokeWidth: "0px", color: palette.face, backgroundColor: palette.dark }, 1),
+        variant(1, { letterSpacing: "0.12em", roundedBacker: false, stroke: false, strokeWidth: "0px", color: palette.halo }, 0.85),
+        variant(2, {
+          letterSpacing: "0em",
+          roundedBacker: signType !== SignType.WINDOW_VINYL,
+          stroke: true,
+          strokeWidth: "2px",
+          color: readable(palette.face === '#ffffff' ? palette.accent : palette.face),
+          backgroundColor: palette.dark
+        }, 1.25),
+      ];
+
+  return {
+    variants: applyOptionConfigs(variants, signType),
+    placement: DEFAULT_PLACEMENT
+  };
+};
+
+export const ruleBasedDesigner: DesignProvider = {
+  label: 'Offline rules',
+  requiresNetwork: false,
+  generate: async request => designByRules(request)
+};
@@ -0,0 +1,88 @@
+import { PRICING } from "../constants";
+import { PricingRulebook } from "../types";
+import { cloneRulebook, validateRulebook } from "../utils/rulebook";
+
+const HISTORY_KEY = 'signquote.rulebooks';
+const ACTIVE_KEY = 'signquote.activeRulebook';
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// The saved value, with anything it lacks taken from the defaults
+const mergeValue = (defaults: unknown, saved: unknown): unknown => {
+  if (Array.isArray(defaults)) return Array.isArray(saved) ? saved : defaults;
+  if (isRecord(defaults)) {
+    const merged: Record<string, unknown> = {};
+    Object.keys(defaults).forEach(key => {
+      merged[key] = isRecord(saved) && key in saved ? mergeValue(defaults[key], saved[key]) : defaults[key];
+    });
+    if (isRecord(saved) && saved.savedAt) merged.savedAt = saved.savedAt;
+    return merged;
+  }
+  return saved ?? defaults;
+};
+
+// Fill in any rate that was added to the defaults after this rulebook was saved.
+const mergeWithDefaults = (saved: unknown): PricingRulebook => mergeValue(PRICING, saved) as PricingRulebook;
+
+const readHistory = (): PricingRulebook[] => {
+  try {
+    const raw = localStorage.getItem(HISTORY_KEY);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.map(r => mergeWithDefaults(r)) : [];
+  } catch (e) {
+    console.error("Failed to read saved rulebooks:", e);
+    return [];
+  }
+};
+
+/** All saved rulebooks, oldest first. */
+export const listRulebooks = (): PricingRulebook[] => readHistory();
+
+/** The rulebook quotes should be priced with. Falls back to the shipped defaults. */
+export const loadActiveRulebook = (): PricingRulebook => {
+  const history = readHistory();
+  const activeLabel = localStorage.getItem(ACTIVE_KEY);
+  const active = history.find(r => r.versionLabel === activeLabel);
+  if (active && validateRulebook(active).length === 0) return active;
+  return cloneRulebook(PRICING);
+};
+
+/** The shipped defaults or a saved rulebook by its version label; null if it isn't saved on this device. */
+export const findRulebook = (versionLabel: string): PricingRulebook | null => {
+  if (versionLabel === PRICING.versionLabel) return cloneRulebook(PRICING);
+  return readHistory().find(r => r.versionLabel === versionLabel) || null;
+};
+
+export const setActiveRulebook = (versionLabel: string) => {
+  localStorage.setItem(ACTIVE_KEY, versionLabel);
+};
+
+export const nextVersionLabel = (): string => `v${readHistory().length + 1}`;
+
+/**
+ * Saves a copy of the rulebook under a new version label and makes it active.
+ * Throws if the rulebook does not validate or the label is already taken.
+ */
+export const saveRulebook = (rulebook: PricingRulebook, versionLabel: string = nextVersionLabel()): PricingRulebook => {
+  const history = readHistory();
+  const label = versionLabel.trim();
+  if (history.some(r => r.versionLabel === label) || label === PRICING.versionLabel) {
+    throw new Error(`Version "${label}" already exists`);
+  }
+
+  const saved: PricingRulebook = {
+    ...cloneRulebook(rulebook),
+    versionLabel: label,
+    savedAt: new Date().toISOString(),
+  };
+  const issues = validateRulebook(saved);
+  if (issues.length > 0) {
+    throw new Error(`Invalid rulebook: ${issues.map(i => `${i.path} ${i.message}`).join('; ')}`);
+  }
+
+  localStorage.setItem(HISTORY_KEY, JSON.stringify([...history, saved]));
+  setActiveRulebook(label);
+  return saved;
+};
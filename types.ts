@@ -2,6 +2,9 @@ export enum SignType {
   CHANNEL_LETTERS = 'Channel Letters',
   LIGHTBOX = 'Lightbox',
   WINDOW_VINYL = 'Window Vinyl',
+  PYLON = 'Pylon',
+  BLADE = 'Blade',
+  FLAT_PANEL = 'Flat Panel',
 }
 
 export enum LightingType {
@@ -22,6 +25,7 @@ export interface DesignVariant {
   color?: string;
   backgroundColor?: string;
   description?: string;
+  custom?: boolean; // made in the variant editor rather than by a designer
 }
 
 export interface SignPlacement {
@@ -31,6 +35,99 @@ export interface SignPlacement {
   xmax: number;
 }
 
+// How channel letters are priced: a flat rate per letter, or by the metal and face
+// actually used (return length x depth, face area, LEDs)
+export type ChannelPricingMethod = 'PER_LETTER' | 'PERIMETER';
+
+// Type-specific fabrication options. Only the fields relevant to the sign type are read.
+export interface SignOptions {
+  hasLamination?: boolean;  // Window Vinyl
+  lightboxDepth?: number;   // Lightbox, inches
+  pylonHeightFt?: number;   // Pylon, overall height to top of cabinet
+  doubleSided?: boolean;    // Pylon, Blade
+  isReface?: boolean;       // Pylon, Blade: new faces in an existing cabinet/structure
+  channelPricing?: ChannelPricingMethod; // Channel Letters
+  returnDepthIn?: number;   // Channel Letters, perimeter pricing
+}
+
+export interface GlyphMetrics {
+  char: string;
+  xIn: number;          // left edge of the glyph's advance from the start of the run
+  advanceIn: number;
+  inkWidthIn: number;
+  inkHeightIn: number;
+  perimeterIn: number;  // outer and counter outlines, i.e. the length of return needed
+  faceAreaSqIn: number;
+}
+
+// Real-size measurements of a line of channel letters in a given font
+export interface TextMetrics {
+  sourceKey: string;    // text|font|height|spacing the metrics were measured for
+  fontFamily: string;
+  letterHeightIn: number;
+  fontSizeIn: number;   // CSS font size that gives the requested cap height
+  letterSpacingIn: number;
+  overallWidthIn: number;
+  glyphs: GlyphMetrics[];
+}
+
+export type ElementAlign = 'LEFT' | 'CENTER' | 'RIGHT';
+
+// A line of copy besides the main name, e.g. a tagline under it
+export interface LayoutLine {
+  id: string;
+  text: string;
+  heightIn: number;      // cap height, like the main letters
+  fontFamily?: string;   // the design's font when not set
+  align: ElementAlign;
+  metrics?: TextMetrics; // Channel Letters only
+}
+
+// How an uploaded logo is built: one cabinet cut to its outline, or each shape formed like a channel letter
+export type LogoFabrication = 'CABINET' | 'CUT_OUT';
+
+// The customer's logo, traced to outlines in units of its height (x 0 to aspect, y 0 to 1)
+export interface LogoArtwork {
+  fileName: string;
+  imageUrl: string; // data URL of the upload, drawn on the mockup
+  aspect: number;   // width / height
+  contours: { x: number; y: number }[][]; // outer shapes clockwise on screen, holes counter-clockwise
+}
+
+// Space kept for the customer's logo next to the copy, filled once artwork is uploaded
+export interface LayoutLogo {
+  widthIn: number;
+  heightIn: number;
+  side: 'LEFT' | 'RIGHT' | 'ABOVE';
+  artwork?: LogoArtwork;
+  fabrication?: LogoFabrication; // Channel Letters; on cabinets and panels the logo is part of the face
+}
+
+// How the copy is arranged when a sign has more than the one line of text
+export interface SignLayout {
+  align: ElementAlign;   // the main line
+  lines: LayoutLine[];   // stacked under the main line, in order
+  lineGapIn: number;
+  logo?: LayoutLogo;
+}
+
+// One sign in a job. Every line shares the job's photo, calibration and install trip.
+export interface SignLineItem {
+  id: string;
+  signType: SignType;
+  text: string;
+  dimensions: { widthIn: number; heightIn: number };
+  options: SignOptions;
+  variants: DesignVariant[];
+  selectedVariant: DesignVariant | null;
+  placement?: SignPlacement;
+  position?: { x: number; y: number }; // dragged sign centre, 0-1 of the photo
+  metrics?: TextMetrics; // Channel Letters only, measured from the selected font
+  layout?: SignLayout;
+  lockedVariants?: number[]; // options kept as they are when regenerating
+  variantHistory?: DesignVariant[][]; // every version of each option, oldest first
+}
+
 export interface InstallConfig {
   heightFeet: number;
   liftType: 'NONE' | 'SCISSOR' | 'BOOM';
@@ -39,25 +136,352 @@ export interface InstallConfig {
   hardAccess: boolean;
   address: string;
   clientName: string;
+  // Site sizes for the bylaw check; when unset they are read off measurements labelled for them
+  frontageWidthIn?: number;
+  frontageHeightIn?: number;
+  windowWidthIn?: number;  // the glass window vinyl goes on
+  windowHeightIn?: number;
+}
+
+// Permit package pages, in the order a municipality wants them
+export type PermitSection = 'APPLICATION' | 'SITE_PHOTO' | 'ELEVATIONS' | 'ELECTRICAL' | 'MOUNTING';
+
+// What a municipality's permit submission looks like
+export interface PermitTemplate {
+  title: string;           // e.g. "Sign Permit Application"
+  pageSize: 'a4' | 'letter';
+  sections: PermitSection[];
+  fields: string[];        // blanks from the city's form to fill in by hand, e.g. "Roll number"
+  instructions: string[];  // printed on the application page
+}
+
+// A municipality's sign limits, loaded from a JSON rule pack in constants/bylaws.
+// Every limit is optional; a pack only lists what its bylaw regulates.
+export interface BylawRulePack {
+  id: string;
+  municipality: string;   // e.g. "Calgary, AB"
+  region: string;         // province or state code
+  match: string[];        // place names that pick this pack from the install address
+  source: string;         // the bylaw the limits come from
+  reviewed?: string;      // when the shop last checked the limits against it, YYYY-MM-DD; unset until then
+  wallSigns?: {
+    maxAreaPercentOfFrontage?: number; // all wall signs together, of the storefront's face
+    maxLetterHeightIn?: number;
+  };
+  blade?: {
+    maxProjectionIn?: number; // from the wall to the outer edge, bracket included
+    maxAreaSqFt?: number;     // one face
+    minClearanceIn?: number;  // above grade
+  };
+  illumination?: {
+    curfew?: { from: string; until: string }; // "23:00"; lit signs must be off in between
+  };
+  windowVinyl?: {
+    maxCoveragePercent?: number; // of the window it is on
+  };
+  permitPackage?: PermitTemplate; // the default template when unset
+  permit: {
+    exemptTypes?: SignType[];   // never need a permit
+    exemptMaxAreaSqFt?: number; // signs up to this size don't either...
+    exemptNonLitOnly?: boolean; // ...as long as they aren't illuminated
+  };
+}
+
+// LED modules, power supplies and power draw for one illuminated sign
+export interface ElectricalBom {
+  ledModules: number;
+  loadWatts: number;      // LED load on the power supplies
+  powerSupply: PowerSupplySize; // every supply on a sign is the same size
+  powerSupplyCount: number;
+  inputWatts: number;     // drawn from the line, after supply losses
+  amps: number;
+  partsCost: number;
+}
+
+// The whole job's draw, which sizes the electrician's scope
+export interface JobElectrical {
+  inputWatts: number;
+  amps: number;
+  circuits: number;
+  powerSupplyCount: number;
+}
+
+// Perimeter-priced channel letters, one entry per letter. Power supplies are shared
+// by the whole sign so they are not split across letters.
+export interface LetterCost {
+  char: string;
+  returnFt: number;
+  faceSqFt: number;
+  ledModules: number;
+  cost: number;
+}
+
+export type PriceCategory = 'FABRICATION' | 'ELECTRICAL' | 'INSTALLATION' | 'SURCHARGE' | 'ADJUSTMENT';
+
+// One priced row of a quote. Every total is the sum of its rows' amounts.
+export interface PriceLineItem {
+  code: string;          // stable key, e.g. CL_LETTERS or RUSH
+  label: string;
+  quantity: number;
+  unit: string;          // letter, sqft, ft, hr, ea, job...
+  unitPrice: number;
+  amount: number;        // extended and rounded to cents
+  category: PriceCategory;
+  taxable: boolean;
+  visibility: 'CUSTOMER' | 'INTERNAL'; // internal rows are left off customer documents
+}
+
+export interface QuoteLine {
+  itemId: string;
+  fabricationCost: number;
+  fabItems: PriceLineItem[];
+  letterBreakdown?: LetterCost[];
+  electrical?: ElectricalBom;
+}
+
+export type CurrencyCode = 'CAD' | 'USD';
+
+export interface TaxComponent {
+  name: string; // e.g. GST, PST, HST
+  rate: number;
+}
+
+// A province's or state's sales taxes and the currency jobs there are quoted in
+export interface TaxProfile {
+  id: string;
+  label: string;
+  currency: CurrencyCode;
+  regions: string[]; // province/state codes matched against the install address
+  taxes: TaxComponent[];
+}
+
+export interface TaxLine {
+  name: string;
+  rate: number;
+  amount: number;
 }
 
 export interface QuoteResult {
   fabricationCost: number;
   installationCost: number;
   subtotal: number;
-  gst: number;
+  taxableSubtotal: number;
+  taxProfileId: string;
+  currency: CurrencyCode;
+  taxes: TaxLine[];
+  taxTotal: number;
   total: number;
+  lines: QuoteLine[];
+  electrical: JobElectrical | null; // null when nothing in the job is lit
   breakdown: {
     fabBase: number;
-    fabAdders: string[];
+    fabItems: PriceLineItem[];
     installLabor: number;
     installLift: number;
-    installAdders: string[];
+    installItems: PriceLineItem[];
   };
 }
 
+// One column of a Good / Better / Best proposal: the whole job with one design option applied
+export interface QuoteTier {
+  name: string;         // Good, Better or Best, ranked by total
+  variantIndex: number; // which of each line's variants the tier uses
+  items: SignLineItem[];
+  quote: QuoteResult;
+}
+
+// Four-point planar calibration: the photo corners of a known rectangle on the wall
+export interface PerspectiveCalibration {
+  corners: { x: number; y: number }[]; // TL, TR, BR, BL as 0-1 of the photo
+  widthIn: number;
+  heightIn: number;
+}
+
+// A labelled dimension line drawn on the photo after calibration
+export interface Measurement {
+  id: string;
+  label: string; // e.g. "Fascia width", "Door clearance"
+  start: { x: number; y: number }; // 0-1 of the photo
+  end: { x: number; y: number };
+}
+
 export interface CalibrationData {
   pxPerInch: number;
   referencePixels: number;
   referenceRealInches: number;
-}
\ No newline at end of file
+}
+
+export interface HeightTier {
+  maxFt: number;
+  hours: number;
+}
+
+export interface PowerSupplySize {
+  watts: number;
+  cost: number;
+}
+
+export interface PricingRulebook {
+  versionLabel: string;
+  savedAt?: string; // ISO timestamp, set when saved from the admin screen
+  FABRICATION: {
+    [SignType.CHANNEL_LETTERS]: {
+      BASE_PER_LETTER: number;
+      PER_INCH_HEIGHT: number;
+      LIGHTING_ADDER: {
+        FRONT_LIT: number;
+        BACK_LIT: number;
+      };
+      BACKER_ADDER: number;
+      BACKER_PER_FT: number;
+      MIN_PRICE: number;
+      // Perimeter pricing
+      RETURN_PER_FT_PER_INCH: number; // per linear ft of return, per inch of return depth
+      DEFAULT_RETURN_DEPTH: number;
+      FACE_PER_SQFT: number;
+    };
+    [SignType.LIGHTBOX]: {
+      PER_SQFT: number;
+      DEPTH_BASE: number;
+      DEPTH_ADDER_PER_INCH: number;
+      LIGHTING_ADDER_FRONT_LIT: number;
+      MIN_PRICE: number;
+    };
+    [SignType.WINDOW_VINYL]: {
+      PER_SQFT: number;
+      LAMINATION_PERCENT: number;
+      MIN_PRICE: number;
+    };
+    [SignType.PYLON]: {
+      PER_SQFT: number;
+      DOUBLE_SIDED_PERCENT: number;
+      LIGHTING_PER_SQFT: number;
+      STRUCTURE_PER_FT: number;
+      FOUNDATION_BASE: number;
+      FOUNDATION_PER_FT: number;
+      MIN_PRICE: number;
+    };
+    [SignType.BLADE]: {
+      PER_SQFT: number;
+      DOUBLE_SIDED_PERCENT: number;
+      LIGHTING_ADDER: number;
+      BRACKET: number;
+      MIN_PRICE: number;
+    };
+    [SignType.FLAT_PANEL]: {
+      PER_SQFT: number;
+      MIN_PRICE: number;
+    };
+    // Uploaded logos beside channel letters; formed logos use the channel letter return and face rates
+    LOGO: {
+      CABINET_PER_SQFT: number;      // face cut to the logo's outline
+      CABINET_RETURN_PER_FT: number; // return around that outline
+      MIN_PRICE: number;
+    };
+    RUSH_ORDER_PERCENT: number;
+  };
+  INSTALLATION: {
+    BASE_TRIP: number;
+    LABOR_RATE: number;
+    HEIGHT_TIERS: HeightTier[];
+    LIFT: {
+      SCISSOR: number;
+      BOOM: number;
+    };
+    ELECTRICAL: number;
+    PERMIT: number;
+    HARD_ACCESS: number;
+    CONTINGENCY_PERCENT: number;
+    ADDITIONAL_SIGN_LABOR_PERCENT: number; // share of the tier hours added per extra sign
+  };
+  ELECTRICAL: {
+    LETTER_MODULES_PER_SQFT: number;  // channel letter faces
+    CABINET_MODULES_PER_SQFT: number; // lightbox, pylon and blade faces
+    WATTS_PER_MODULE: number;
+    LED_MODULE_COST: number;
+    POWER_SUPPLIES: PowerSupplySize[];
+    LOAD_MARGIN_PERCENT: number;      // headroom left unused on each supply
+    SUPPLY_EFFICIENCY_PERCENT: number;
+    LINE_VOLTAGE: number;
+    CIRCUIT_AMPS: number;
+    CIRCUIT_LOAD_PERCENT: number;     // continuous load allowed on a circuit
+    PER_EXTRA_CIRCUIT: number;        // electrician, each circuit after the first
+    PER_POWER_SUPPLY: number;         // electrician, wiring each supply
+  };
+  TAX: {
+    DEFAULT_PROFILE: string; // used when the address doesn't name a known region
+    PROFILES: TaxProfile[];
+  };
+}
+
+// Everything needed to reopen a job exactly as it was saved
+export interface QuoteSnapshot {
+  items: SignLineItem[];
+  installConfig: InstallConfig;
+  isRush: boolean;
+  pxPerInch: number | null;
+  perspective?: PerspectiveCalibration | null;
+  measurements?: Measurement[];
+  gradePoint?: { x: number; y: number } | null; // a point on the ground, for heights above grade
+  imageId: string | null;
+  rulebookVersion: string;
+  taxProfileId?: string | null; // null: picked from the install address
+  bylawPackId?: string | null;  // null: picked from the install address
+  brandId?: string;
+  quoteNumber?: string | null; // assigned on the first save or proposal export
+  quote: QuoteResult | null;
+}
+
+export interface QuoteRevision {
+  jobId: string;
+  revision: number; // 1-based, increments on every save
+  savedAt: string;
+  note?: string;
+  snapshot: QuoteSnapshot;
+}
+
+export interface SavedJobSummary {
+  id: string;
+  clientName: string;
+  address: string;
+  latestRevision: number;
+  createdAt: string;
+  updatedAt: string;
+  total: number | null;
+  currency?: CurrencyCode;
+  quoteNumber?: string | null;
+}
+
+// Proposal PDF pages, in the order a brand wants them
+export type ProposalSection = 'COVER' | 'SPECS' | 'PRICING' | 'TERMS';
+
+// Per-brand look and wording of the proposal PDF
+export interface BrandTemplate {
+  id: string;
+  name: string;               // shown in the brand picker
+  companyName: string;
+  logoDataUrl: string | null; // PNG or JPEG
+  letterhead: string[];       // address, phone, email... printed beside the logo
+  accentColor: string;        // hex, used for headings and rules
+  headerLayout: 'LEFT' | 'CENTERED';
+  sections: ProposalSection[];
+  quoteNumberFormat: string;  // tokens: {PREFIX} {YYYY} {YY} {MM} {SEQ}
+  quotePrefix: string;
+  validDays: number;
+  depositPercent: number;     // 0-1
+  terms: string;              // paragraphs separated by blank lines
+  footer: string;
+}
+
+// Where design variations come from. RULES works offline and always gives the same result.
+export type DesignProviderId = 'GEMINI' | 'OPENAI_COMPATIBLE' | 'RULES';
+
+export interface DesignProviderSettings {
+  providerId: DesignProviderId;
+  endpoint: {                 // OPENAI_COMPATIBLE only
+    baseUrl: string;          // e.g. http://localhost:11434/v1
+    model: string;
+    apiKey: string;           // optional for local servers
+    sendImage: boolean;       // only for models that accept images
+  };
+}
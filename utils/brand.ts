@@ -0,0 +1,52 @@
+import { BrandTemplate } from "../types";
+
+export interface BrandIssue {
+  field: keyof BrandTemplate;
+  message: string;
+}
+
+/** Checks a brand template before it is saved. Returns an empty list when it is usable. */
+export const validateBrandTemplate = (template: BrandTemplate): BrandIssue[] => {
+  const issues: BrandIssue[] = [];
+  if (!template.name.trim()) issues.push({ field: 'name', message: 'is required' });
+  if (!template.companyName.trim()) issues.push({ field: 'companyName', message: 'is required' });
+  if (!/^#[0-9a-f]{6}$/i.test(template.accentColor)) {
+    issues.push({ field: 'accentColor', message: 'must be a hex colour like #1e293b' });
+  }
+  if (template.sections.length === 0) issues.push({ field: 'sections', message: 'must include at least one page' });
+  if (!template.quoteNumberFormat.includes('{SEQ}')) {
+    issues.push({ field: 'quoteNumberFormat', message: 'must include {SEQ} so numbers are unique' });
+  }
+  if (!Number.isInteger(template.validDays) || template.validDays <= 0) {
+    issues.push({ field: 'validDays', message: 'must be a whole number of days' });
+  }
+  if (!(template.depositPercent >= 0 && template.depositPercent <= 1)) {
+    issues.push({ field: 'depositPercent', message: 'must be between 0% and 100%' });
+  }
+  return issues;
+};
+
+/** "SQ-2026-0042" from "{PREFIX}-{YYYY}-{SEQ}". The sequence is zero-padded to four digits. */
+export const formatQuoteNumber = (template: BrandTemplate, sequence: number, date: Date = new Date()): string =>
+  template.quoteNumberFormat
+    .replace(/\{PREFIX\}/g, template.quotePrefix)
+    .replace(/\{YYYY\}/g, String(date.getFullYear()))
+    .replace(/\{YY\}/g, String(date.getFullYear()).slice(-2))
+    .replace(/\{MM\}/g, String(date.getMonth() + 1).padStart(2, '0'))
+    .replace(/\{SEQ\}/g, String(sequence).padStart(4, '0'));
+
+/** "SQ-2026-0042-R3_Joes-Pizza.pdf". The revision is left off until the job has been saved. */
+export const proposalFileName = (
+  quoteNumber: string,
+  revision: number | null,
+  clientName: string,
+  suffix: string = ''
+): string => {
+  const client = clientName
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f']/g, '')
+    .replace(/[^A-Za-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  const parts = [quoteNumber + (revision ? `-R${revision}` : '') + suffix, client].filter(Boolean);
+  return `${parts.join('_').replace(/[\\/:*?"<>|\s]+/g, '-')}.pdf`;
+};
@@ -0,0 +1,191 @@
+import { DesignVariant, SignPlacement, SignType } from "../types";
+import { inkMask } from "./logo";
+
+// Photos and logos are analysed at this width; plenty for a palette and cheap to keep around
+const ANALYSIS_WIDTH = 200;
+// Colours closer than this (RGB distance, 0-441) are counted as one
+const MERGE_DISTANCE = 48;
+// A colour has to be at least this saturated, and cover this much of the upper photo, to count as an awning or trim
+const ACCENT_SATURATION = 0.35;
+const ACCENT_MIN_SHARE = 0.03;
+// Contrast a sign's copy needs against what is behind it. WCAG's 3:1 for large text.
+export const MIN_SIGN_CONTRAST = 3;
+
+const NEUTRAL_TEXT = ['#ffffff', '#111111'];
+
+type Rgb = [number, number, number];
+
+export interface PaletteColor {
+  hex: string;
+  share: number; // 0-1 of the pixels sampled
+}
+
+/** Colours pulled from the storefront photo and logo, with the text colours that read against the wall. */
+export interface BrandPalette {
+  wall?: string;    // behind the sign's placement zone
+  fascia?: string;  // the band across the storefront at the sign's height
+  accent?: string;  // the most saturated colour above the street: awning, trim, door
+  logo: string[];   // logo colours, most used first
+  recommendedText: string[]; // brand colours first, then neutrals, all with enough contrast against the wall
+}
+
+const toHex = (rgb: Rgb) => `#${rgb.map(v => Math.round(v).toString(16).padStart(2, '0')).join('')}`;
+
+const fromHex = (hex: string): Rgb | null => {
+  const match = hex.trim().match(/^#?([0-9a-f]{3}|[0-9a-f]{6})$/i);
+  if (!match) return null;
+  const digits = match[1].length === 3 ? match[1].split('').map(d => d + d).join('') : match[1];
+  return [0, 2, 4].map(i => parseInt(digits.slice(i, i + 2), 16)) as Rgb;
+};
+
+const distance = (a: Rgb, b: Rgb) => Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+
+const saturation = ([r, g, b]: Rgb) => {
+  const max = Math.max(r, g, b);
+  return max === 0 ? 0 : (max - Math.min(r, g, b)) / max;
+};
+
+/** WCAG relative luminance of a hex colour, 0 (black) to 1 (white). */
+export const relativeLuminance = (hex: string): number => {
+  const rgb = fromHex(hex);
+  if (!rgb) return 0;
+  const [r, g, b] = rgb.map(v => {
+    const c = v / 255;
+    return c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+  });
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+};
+
+/** WCAG contrast ratio between two hex colours, 1 to 21. */
+export const contrastRatio = (a: string, b: string): number => {
+  const [light, dark] = [relativeLuminance(a), relativeLuminance(b)].sort((x, y) => y - x);
+  return (light + 0.05) / (dark + 0.05);
+};
+
+export const formatContrast = (ratio: number) => `${ratio.toFixed(1)}:1`;
+
+/**
+ * The main colours of an image, most common first. Pixels are binned at 4 bits
+ * per channel and neighbouring bins merged, so anti-aliasing and noise don't
+ * show up as colours of their own.
+ */
+export const extractPalette = (
+  data: ImageData,
+  options: { region?: SignPlacement; include?: (index: number) => boolean; maxColors?: number } = {}
+): PaletteColor[] => {
+  const { region, include, maxColors = 6 } = options;
+  const x0 = region ? Math.floor(region.xmin * data.width) : 0;
+  const x1 = region ? Math.ceil(region.xmax * data.width) : data.width;
+  const y0 = region ? Math.floor(region.ymin * data.height) : 0;
+  const y1 = region ? Math.ceil(region.ymax * data.height) : data.height;
+
+  const bins = new Map<number, { count: number; sum: Rgb }>();
+  let total = 0;
+  for (let y = Math.max(0, y0); y < Math.min(data.height, y1); y++) {
+    for (let x = Math.max(0, x0); x < Math.min(data.width, x1); x++) {
+      const index = y * data.width + x;
+      const i = index * 4;
+      if (data.data[i + 3] < 128 || (include && !include(index))) continue;
+      const r = data.data[i], g = data.data[i + 1], b = data.data[i + 2];
+      const key = ((r >> 4) << 8) | ((g >> 4) << 4) | (b >> 4);
+      const bin = bins.get(key);
+      if (bin) {
+        bin.count++;
+        bin.sum[0] += r; bin.sum[1] += g; bin.sum[2] += b;
+      } else {
+        bins.set(key, { count: 1, sum: [r, g, b] });
+      }
+      total++;
+    }
+  }
+  if (total === 0) return [];
+
+  const clusters: { count: number; sum: Rgb }[] = [];
+  [...bins.values()].sort((a, b) => b.count - a.count).forEach(bin => {
+    const mean = bin.sum.map(v => v / bin.count) as Rgb;
+    const near = clusters.find(c => distance(c.sum.map(v => v / c.count) as Rgb, mean) < MERGE_DISTANCE);
+    if (near) {
+      near.count += bin.count;
+      near.sum = near.sum.map((v, k) => v + bin.sum[k]) as Rgb;
+    } else {
+      clusters.push({ count: bin.count, sum: [...bin.sum] as Rgb });
+    }
+  });
+
+  return clusters
+    .sort((a, b) => b.count - a.count)
+    .slice(0, maxColors)
+    .map(c => ({ hex: toHex(c.sum.map(v => v / c.count) as Rgb), share: c.count / total }));
+};
+
+const loadPixels = (url: string): Promise<ImageData> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const scale = Math.min(1, ANALYSIS_WIDTH / img.naturalWidth);
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+      canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+      const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      resolve(ctx.getImageData(0, 0, canvas.width, canvas.height));
+    };
+    img.onerror = () => reject(new Error(`Failed to load image ${url}`));
+    img.src = url;
+  });
+
+/** The storefront photo, shrunk for colour analysis. */
+export const loadPhotoPixels = (imageUrl: string): Promise<ImageData> => loadPixels(imageUrl);
+
+/** The logo's colours, leaving out a solid background behind the artwork. */
+export const logoColors = async (imageUrl: string): Promise<string[]> => {
+  const data = await loadPixels(imageUrl);
+  const ink = inkMask(data);
+  return extractPalette(data, { include: index => ink[index] === 1, maxColors: 4 })
+    .filter(c => c.share >= 0.02)
+    .map(c => c.hex);
+};
+
+/** Wall, fascia and awning colours around where the sign goes. */
+export const photoColors = (data: ImageData, placement: SignPlacement): Pick<BrandPalette, 'wall' | 'fascia' | 'accent'> => {
+  const wall = extractPalette(data, { region: placement, maxColors: 1 })[0]?.hex;
+  const fascia = extractPalette(data, { region: { xmin: 0, xmax: 1, ymin: placement.ymin, ymax: placement.ymax }, maxColors: 1 })[0]?.hex;
+  // Awnings and trim sit above the street, so the bottom third (pavement, cars) is left out
+  const upper = extractPalette(data, { region: { xmin: 0, xmax: 1, ymin: 0, ymax: 0.67 }, maxColors: 8 });
+  const accent = upper
+    .filter(c => c.share >= ACCENT_MIN_SHARE && saturation(fromHex(c.hex)!) >= ACCENT_SATURATION)
+    .sort((a, b) => saturation(fromHex(b.hex)!) - saturation(fromHex(a.hex)!))[0]?.hex;
+  return { wall, fascia, accent };
+};
+
+/** Puts the photo and logo colours together and picks the text colours that read against the wall. */
+export const buildBrandPalette = (photo: Pick<BrandPalette, 'wall' | 'fascia' | 'accent'> | null, logo: string[]): BrandPalette => {
+  const wall = photo?.wall;
+  const candidates = [...logo, ...(photo?.accent ? [photo.accent] : []), ...NEUTRAL_TEXT]
+    .filter((c, i, all) => all.indexOf(c) === i);
+  const recommendedText = wall
+    ? candidates.filter(c => contrastRatio(c, wall) >= MIN_SIGN_CONTRAST)
+    : candidates;
+  return { ...photo, logo, recommendedText };
+};
+
+/**
+ * What a design's copy is read against, as the preview draws it: letters on the
+ * wall or their backer, and everything else on its own face.
+ */
+export const copyBackground = (variant: DesignVariant, signType: SignType, wall: string): { color: string; against: string } => {
+  if (signType === SignType.CHANNEL_LETTERS) {
+    return variant.roundedBacker ? { color: variant.backgroundColor || '#333333', against: 'the backer' } : { color: wall, against: 'the wall' };
+  }
+  if (signType === SignType.WINDOW_VINYL) {
+    return variant.backgroundColor ? { color: variant.backgroundColor, against: 'the panel' } : { color: wall, against: 'the glass' };
+  }
+  return { color: variant.backgroundColor || '#ffffff', against: 'the face' };
+};
+
+/** The design's copy contrast, when it is too low to read from the street; null when it's fine. */
+export const lowContrast = (variant: DesignVariant, signType: SignType, wall: string): { ratio: number; against: string; background: string } | null => {
+  const background = copyBackground(variant, signType, wall);
+  const ratio = contrastRatio(variant.color || '#ffffff', background.color);
+  return ratio < MIN_SIGN_CONTRAST ? { ratio, against: background.against, background: background.color } : null;
+};
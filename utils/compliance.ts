@@ -0,0 +1,195 @@
+import { BYLAW_PACKS } from "../constants/bylaws";
+import { BylawRulePack, InstallConfig, SignLineItem, SignType } from "../types";
+import { isIlluminated } from "./electrical";
+import { describeLineItem } from "./job";
+import { arrangeLayout, layoutElements } from "./layout";
+import { Callout } from "./measurements";
+import { detectRegion } from "./tax";
+
+// Blades hang off a bracket; the sign's own width plus this is how far it projects
+export const BLADE_STANDOFF_IN = 6;
+
+// Signs that count towards a storefront's sign area. Blades, pylons and vinyl have limits of their own.
+const WALL_SIGN_TYPES = [SignType.CHANNEL_LETTERS, SignType.LIGHTBOX, SignType.FLAT_PANEL];
+
+// Hand-drawn measurements whose labels give the site sizes, e.g. "Storefront width", "Window height"
+const FRONTAGE_LABEL = /frontage|storefront|fa[cç]ade|fascia/i;
+const WINDOW_LABEL = /window|glass|glazing/i;
+const HEIGHT_LABEL = /height|tall|high/i;
+
+export type SiteSize = 'frontageWidthIn' | 'frontageHeightIn' | 'windowWidthIn' | 'windowHeightIn';
+
+/** What the signs are checked against: the storefront and window sizes, and each sign's clearance above grade. */
+export interface ComplianceSite extends Partial<Record<SiteSize, number>> {
+  clearanceIn: Record<string, number>; // by line item id, for signs with a grade point below them
+}
+
+export type ComplianceSeverity = 'VIOLATION' | 'WARNING';
+
+export interface ComplianceIssue {
+  rule: string;
+  severity: ComplianceSeverity;
+  message: string;
+  itemId?: string;
+}
+
+export interface ComplianceResult {
+  pack: BylawRulePack | null;
+  issues: ComplianceIssue[];
+  permitRequired: boolean | null; // null: no rule pack or nothing designed yet, so it can't be decided
+  permitReasons: string[];
+}
+
+const matchesPlace = (upper: string, place: string) =>
+  new RegExp(`\\b${place.toUpperCase().replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`).test(upper);
+
+/** The rule pack for a free-form address: a place name it lists, in the right province or state when one can be told. */
+export const detectBylawPack = (address: string, packs: BylawRulePack[] = BYLAW_PACKS): BylawRulePack | null => {
+  const upper = address.toUpperCase();
+  const region = detectRegion(address);
+  return packs.find(p => (!region || p.region === region) && p.match.some(place => matchesPlace(upper, place))) || null;
+};
+
+/** The job's rule pack: the one chosen by hand, otherwise the one for the install address. */
+export const resolveBylawPack = (packId: string | null | undefined, address: string, packs: BylawRulePack[] = BYLAW_PACKS): BylawRulePack | null =>
+  (packId ? packs.find(p => p.id === packId) : undefined) || detectBylawPack(address, packs);
+
+/** Site sizes read off the hand-drawn measurements by their labels. */
+export const measuredSiteSizes = (callouts: Callout[]): Partial<Record<SiteSize, number>> => {
+  const find = (kind: RegExp, height: boolean) =>
+    callouts.find(c => !c.auto && kind.test(c.label) && HEIGHT_LABEL.test(c.label) === height)?.inches;
+  return {
+    frontageWidthIn: find(FRONTAGE_LABEL, false),
+    frontageHeightIn: find(FRONTAGE_LABEL, true),
+    windowWidthIn: find(WINDOW_LABEL, false),
+    windowHeightIn: find(WINDOW_LABEL, true),
+  };
+};
+
+/** Sizes typed into the install config win over measured ones. */
+export const complianceSite = (installConfig: InstallConfig, items: SignLineItem[], callouts: Callout[]): ComplianceSite => {
+  const measured = measuredSiteSizes(callouts);
+  const clearanceIn: Record<string, number> = {};
+  items.forEach(item => {
+    const grade = callouts.find(c => c.id === `${item.id}-grade`);
+    if (grade) clearanceIn[item.id] = grade.inches;
+  });
+  return {
+    frontageWidthIn: installConfig.frontageWidthIn || measured.frontageWidthIn,
+    frontageHeightIn: installConfig.frontageHeightIn || measured.frontageHeightIn,
+    windowWidthIn: installConfig.windowWidthIn || measured.windowWidthIn,
+    windowHeightIn: installConfig.windowHeightIn || measured.windowHeightIn,
+    clearanceIn
+  };
+};
+
+/** Face area the bylaw counts: the box around the copy for letters, the face for everything else. One side only. */
+export const signAreaSqFt = (item: SignLineItem): number => {
+  const { widthIn, heightIn } = item.signType === SignType.CHANNEL_LETTERS ? arrangeLayout(item) : item.dimensions;
+  return widthIn * heightIn / 144;
+};
+
+/** "23:00" as "11 pm". */
+export const formatClock = (time: string) => {
+  const [h, m] = time.split(':').map(Number);
+  const suffix = h >= 12 && h < 24 ? 'pm' : 'am';
+  const hour = h % 12 === 0 ? 12 : h % 12;
+  return m ? `${hour}:${String(m).padStart(2, '0')} ${suffix}` : `${hour} ${suffix}`;
+};
+
+const inches = (value: number) => `${Number(value.toFixed(1))}"`;
+const sqft = (value: number) => `${value.toFixed(1)} sqft`;
+
+const permitReason = (item: SignLineItem, pack: BylawRulePack): string | null => {
+  const { exemptTypes = [], exemptMaxAreaSqFt, exemptNonLitOnly } = pack.permit;
+  if (exemptTypes.includes(item.signType)) return null;
+  const area = signAreaSqFt(item);
+  const lit = isIlluminated(item.signType, item.selectedVariant!);
+  if (exemptMaxAreaSqFt !== undefined && area <= exemptMaxAreaSqFt && !(exemptNonLitOnly && lit)) return null;
+  return `${describeLineItem(item)}: ${sqft(area)}${lit ? ', illuminated' : ''}`;
+};
+
+/**
+ * Checks the designed signs against a municipality's rule pack. Limits that
+ * are broken are violations; anything the site sizes don't let us check, or
+ * that the sign has to be wired for, is a warning.
+ */
+export const checkCompliance = (items: SignLineItem[], pack: BylawRulePack | null, site: ComplianceSite): ComplianceResult => {
+  const designed = items.filter(i => i.selectedVariant);
+  if (!pack || designed.length === 0) return { pack, issues: [], permitRequired: null, permitReasons: [] };
+  const issues: ComplianceIssue[] = [];
+  const add = (rule: string, severity: ComplianceSeverity, message: string, item?: SignLineItem) =>
+    issues.push({ rule, severity, message: item ? `${describeLineItem(item)}: ${message}` : message, itemId: item?.id });
+
+  const wall = pack.wallSigns;
+  const wallSigns = designed.filter(i => WALL_SIGN_TYPES.includes(i.signType));
+  if (wall?.maxAreaPercentOfFrontage !== undefined && wallSigns.length > 0) {
+    const area = wallSigns.reduce((sum, i) => sum + signAreaSqFt(i), 0);
+    if (site.frontageWidthIn && site.frontageHeightIn) {
+      const frontage = site.frontageWidthIn * site.frontageHeightIn / 144;
+      const percent = area / frontage * 100;
+      if (percent > wall.maxAreaPercentOfFrontage) {
+        const allowed = frontage * wall.maxAreaPercentOfFrontage / 100;
+        add('frontageArea', 'VIOLATION', `Wall signs total ${sqft(area)}, ${percent.toFixed(0)}% of the ${sqft(frontage)} frontage. The limit is ${wall.maxAreaPercentOfFrontage}% (${sqft(allowed)}).`);
+      }
+    } else {
+      add('frontageArea', 'WARNING', `Wall signs are limited to ${wall.maxAreaPercentOfFrontage}% of the frontage. Measure the storefront's width and height to check the ${sqft(area)} planned.`);
+    }
+  }
+  if (wall?.maxLetterHeightIn !== undefined) {
+    designed.filter(i => i.signType === SignType.CHANNEL_LETTERS).forEach(item => {
+      const tallest = Math.max(...layoutElements(item).map(e => e.heightIn));
+      if (tallest > wall.maxLetterHeightIn!) {
+        add('letterHeight', 'VIOLATION', `${inches(tallest)} letters are over the ${inches(wall.maxLetterHeightIn!)} limit.`, item);
+      }
+    });
+  }
+
+  const blade = pack.blade;
+  if (blade) {
+    designed.filter(i => i.signType === SignType.BLADE).forEach(item => {
+      const projection = item.dimensions.widthIn + BLADE_STANDOFF_IN;
+      if (blade.maxProjectionIn !== undefined && projection > blade.maxProjectionIn) {
+        add('bladeProjection', 'VIOLATION', `projects ${inches(projection)} from the wall with its bracket; the limit is ${inches(blade.maxProjectionIn)}.`, item);
+      }
+      const area = signAreaSqFt(item);
+      if (blade.maxAreaSqFt !== undefined && area > blade.maxAreaSqFt) {
+        add('bladeArea', 'VIOLATION', `${sqft(area)} per face is over the ${sqft(blade.maxAreaSqFt)} limit.`, item);
+      }
+      if (blade.minClearanceIn !== undefined) {
+        const clearance = site.clearanceIn[item.id];
+        if (clearance === undefined) {
+          add('bladeClearance', 'WARNING', `needs ${inches(blade.minClearanceIn)} above grade. Mark the ground on the photo to check it.`, item);
+        } else if (clearance < blade.minClearanceIn) {
+          add('bladeClearance', 'VIOLATION', `${inches(clearance)} above grade; it needs ${inches(blade.minClearanceIn)}.`, item);
+        }
+      }
+    });
+  }
+
+  const curfew = pack.illumination?.curfew;
+  if (curfew) {
+    designed.filter(i => isIlluminated(i.signType, i.selectedVariant!)).forEach(item => {
+      add('curfew', 'WARNING', `must be off from ${formatClock(curfew.from)} to ${formatClock(curfew.until)}; include a timer.`, item);
+    });
+  }
+
+  const maxCoverage = pack.windowVinyl?.maxCoveragePercent;
+  const vinyl = designed.filter(i => i.signType === SignType.WINDOW_VINYL);
+  if (maxCoverage !== undefined && vinyl.length > 0) {
+    const area = vinyl.reduce((sum, i) => sum + signAreaSqFt(i), 0);
+    if (site.windowWidthIn && site.windowHeightIn) {
+      const glass = site.windowWidthIn * site.windowHeightIn / 144;
+      const percent = area / glass * 100;
+      if (percent > maxCoverage) {
+        add('windowCoverage', 'VIOLATION', `Window vinyl covers ${percent.toFixed(0)}% of the ${sqft(glass)} window. The limit is ${maxCoverage}%.`);
+      }
+    } else {
+      add('windowCoverage', 'WARNING', `Window vinyl may cover ${maxCoverage}% of the glass. Measure the window to check the ${sqft(area)} planned.`);
+    }
+  }
+
+  const permitReasons = designed.map(i => permitReason(i, pack)).filter((r): r is string => r !== null);
+  if (issues.some(i => i.severity === 'VIOLATION')) permitReasons.push('Signs over the bylaw limits need a variance');
+  return { pack, issues, permitRequired: permitReasons.length > 0, permitReasons };
+};
@@ -0,0 +1,157 @@
+import { Point } from "./perspective";
+
+/**
+ * Traces the outlines of the filled pixels in a binary mask (1 = filled).
+ * Returns closed loops of unit-length pixel edges; pass them through `simplifyLoop`.
+ * Outer boundaries wind clockwise on screen (y down) and holes wind
+ * counter-clockwise, so `polygonArea` of the whole set gives the net filled area.
+ */
+export const traceContours = (mask: Uint8Array, width: number, height: number): Point[][] => {
+  const filled = (x: number, y: number) => x >= 0 && y >= 0 && x < width && y < height && mask[y * width + x] === 1;
+  const stride = width + 1;
+  const edges = new Map<number, number[]>();
+  const addEdge = (x1: number, y1: number, x2: number, y2: number) => {
+    const from = y1 * stride + x1;
+    const list = edges.get(from);
+    if (list) list.push(y2 * stride + x2);
+    else edges.set(from, [y2 * stride + x2]);
+  };
+
+  // Directed boundary edges with the filled pixel on the right-hand side
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!filled(x, y)) continue;
+      if (!filled(x, y - 1)) addEdge(x, y, x + 1, y);
+      if (!filled(x + 1, y)) addEdge(x + 1, y, x + 1, y + 1);
+      if (!filled(x, y + 1)) addEdge(x + 1, y + 1, x, y + 1);
+      if (!filled(x - 1, y)) addEdge(x, y + 1, x, y);
+    }
+  }
+
+  const loops: Point[][] = [];
+  edges.forEach((_, start) => {
+    while ((edges.get(start)?.length || 0) > 0) {
+      const loop: Point[] = [];
+      let current = start;
+      do {
+        loop.push({ x: current % stride, y: Math.floor(current / stride) });
+        const next = edges.get(current)!.pop()!;
+        current = next;
+      } while (current !== start);
+      loops.push(loop);
+    }
+  });
+  return loops;
+};
+
+const perpendicularDistance = (p: Point, a: Point, b: Point): number => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const len = Math.hypot(dx, dy);
+  if (len === 0) return Math.hypot(p.x - a.x, p.y - a.y);
+  return Math.abs(dy * p.x - dx * p.y + b.x * a.y - b.y * a.x) / len;
+};
+
+const simplifyOpen = (points: Point[], tolerance: number): Point[] => {
+  if (points.length < 3) return points;
+  let maxDist = 0;
+  let index = 0;
+  for (let i = 1; i < points.length - 1; i++) {
+    const d = perpendicularDistance(points[i], points[0], points[points.length - 1]);
+    if (d > maxDist) {
+      maxDist = d;
+      index = i;
+    }
+  }
+  if (maxDist <= tolerance) return [points[0], points[points.length - 1]];
+  const left = simplifyOpen(points.slice(0, index + 1), tolerance);
+  const right = simplifyOpen(points.slice(index), tolerance);
+  return [...left.slice(0, -1), ...right];
+};
+
+const removeCollinear = (loop: Point[]): Point[] =>
+  loop.filter((p, i) => {
+    const prev = loop[(i - 1 + loop.length) % loop.length];
+    const next = loop[(i + 1) % loop.length];
+    return (p.x - prev.x) * (next.y - p.y) !== (p.y - prev.y) * (next.x - p.x);
+  });
+
+// Runs at least this long on both sides of a vertex make it a real corner, not a stair step
+const CORNER_RUN_PX = 3;
+
+/**
+ * Smooths a traced pixel loop and runs Douglas-Peucker on it. Staircase steps
+ * are replaced by their midpoints while real corners are kept, so perimeters come
+ * out close to the true curve length instead of the Manhattan length.
+ */
+export const simplifyLoop = (pixelLoop: Point[], tolerance: number = 0.5): Point[] => {
+  const corners = removeCollinear(pixelLoop);
+  const loop: Point[] = [];
+  corners.forEach((p, i) => {
+    const prev = corners[(i - 1 + corners.length) % corners.length];
+    const next = corners[(i + 1) % corners.length];
+    const inLen = Math.hypot(p.x - prev.x, p.y - prev.y);
+    const outLen = Math.hypot(next.x - p.x, next.y - p.y);
+    if (inLen >= CORNER_RUN_PX && outLen >= CORNER_RUN_PX) loop.push(p);
+    loop.push({ x: (p.x + next.x) / 2, y: (p.y + next.y) / 2 });
+  });
+  if (loop.length < 4) return loop;
+  // Split at the point farthest from the first so both halves are well conditioned
+  let far = 0;
+  let farDist = 0;
+  loop.forEach((p, i) => {
+    const d = Math.hypot(p.x - loop[0].x, p.y - loop[0].y);
+    if (d > farDist) {
+      farDist = d;
+      far = i;
+    }
+  });
+  const first = simplifyOpen(loop.slice(0, far + 1), tolerance);
+  const second = simplifyOpen([...loop.slice(far), loop[0]], tolerance);
+  return [...first.slice(0, -1), ...second.slice(0, -1)];
+};
+
+/** Signed area (positive for clockwise loops on screen). */
+export const polygonArea = (loop: Point[]): number => {
+  let sum = 0;
+  for (let i = 0; i < loop.length; i++) {
+    const a = loop[i];
+    const b = loop[(i + 1) % loop.length];
+    sum += a.x * b.y - b.x * a.y;
+  }
+  return sum / 2;
+};
+
+export const polygonPerimeter = (loop: Point[]): number => {
+  let sum = 0;
+  for (let i = 0; i < loop.length; i++) {
+    const a = loop[i];
+    const b = loop[(i + 1) % loop.length];
+    sum += Math.hypot(b.x - a.x, b.y - a.y);
+  }
+  return sum;
+};
+
+/** Whether a point is inside the filled area of a set of outlines (holes excluded, even-odd). */
+export const pointInContours = (p: Point, contours: Point[][]): boolean => {
+  let inside = false;
+  contours.forEach(loop => {
+    for (let i = 0, j = loop.length - 1; i < loop.length; j = i++) {
+      const a = loop[i];
+      const b = loop[j];
+      if ((a.y > p.y) !== (b.y > p.y) && p.x < (b.x - a.x) * (p.y - a.y) / (b.y - a.y) + a.x) {
+        inside = !inside;
+      }
+    }
+  });
+  return inside;
+};
+
+/** Alpha channel of canvas pixels as a mask, filled where alpha is at least half. */
+export const maskFromImageData = (data: ImageData): Uint8Array => {
+  const mask = new Uint8Array(data.width * data.height);
+  for (let i = 0; i < mask.length; i++) {
+    mask[i] = data.data[i * 4 + 3] >= 128 ? 1 : 0;
+  }
+  return mask;
+};
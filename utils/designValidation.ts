@@ -0,0 +1,243 @@
+import { DesignVariant, LightingType, SignPlacement } from "../types";
+
+// Letter heights the shop will fabricate from a design suggestion, in inches
+export const MIN_LETTER_HEIGHT_IN = 10;
+export const MAX_LETTER_HEIGHT_IN = 24;
+const MAX_LETTER_SPACING_EM = 0.5;
+const MAX_STROKE_PX = 8;
+// A placement box narrower or shorter than this (0-1 of the photo) can't hold a sign
+const MIN_PLACEMENT_SIZE = 0.02;
+
+/** A problem that could not be repaired, so the designer has to try again. */
+export interface DesignIssue {
+  path: string;
+  message: string;
+}
+
+/** A value the designer returned that was changed before use. */
+export interface DesignCorrection {
+  path: string;
+  from: string;
+  to: string;
+  reason: string;
+}
+
+export interface ValidatedDesign {
+  variants: DesignVariant[];
+  placement?: SignPlacement;
+  corrections: DesignCorrection[];
+  issues: DesignIssue[];
+}
+
+/** Thrown by a designer whose answer failed validation; the issues are fed back on the retry. */
+export class DesignValidationError extends Error {
+  issues: DesignIssue[];
+
+  constructor(issues: DesignIssue[]) {
+    super(`Invalid design: ${issues.map(i => `${i.path || 'response'} ${i.message}`).join('; ')}`);
+    this.name = 'DesignValidationError';
+    this.issues = issues;
+  }
+}
+
+const show = (value: unknown): string =>
+  value === undefined ? '(missing)' : typeof value === 'string' ? value : JSON.stringify(value);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+/** "#abc", "abc" or "#AABBCC" as lower-case "#aabbcc"; anything else is null. */
+const normalizeHex = (value: unknown): string | null => {
+  if (typeof value !== 'string') return null;
+  const match = value.trim().match(/^#?([0-9a-f]{3}|[0-9a-f]{6})$/i);
+  if (!match) return null;
+  const digits = match[1].length === 3 ? match[1].split('').map(d => d + d).join('') : match[1];
+  return `#${digits.toLowerCase()}`;
+};
+
+/**
+ * The allowed font the designer most likely meant: an exact match ignoring case,
+ * then one its name starts with ("Montserrat Bold" is Montserrat), else the first.
+ */
+const matchFont = (value: string, allowedFonts: string[]): string => {
+  const wanted = value.trim().toLowerCase().replace(/['"]/g, '');
+  const exact = allowedFonts.find(f => f.toLowerCase() === wanted);
+  if (exact) return exact;
+  const family = [...allowedFonts]
+    .sort((a, b) => b.length - a.length)
+    .find(f => wanted.startsWith(f.toLowerCase()));
+  return family || allowedFonts[0];
+};
+
+const readNumber = (value: unknown): number | null => {
+  const n = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof n === 'number' && Number.isFinite(n) ? n : null;
+};
+
+/** 0.05, "0.05" or "0.05em" as 0.05 for unit "em"; any other unit or text is null. */
+const readUnit = (value: unknown, unit: string): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  const match = typeof value === 'string' ? value.trim().match(new RegExp(`^(-?\\d*\\.?\\d+)(${unit})?$`)) : null;
+  return match ? parseFloat(match[1]) : null;
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/**
+ * Checks a designer's parsed JSON against the variant schema and the shop's
+ * rules. Values that can be repaired (fonts, colours, heights, spacing,
+ * placement) are fixed and listed in corrections; anything else is an issue
+ * and the response can't be used.
+ */
+export const validateDesign = (
+  raw: unknown,
+  allowedFonts: string[],
+  fallbackPlacement: SignPlacement,
+  expectedCount = 3
+): ValidatedDesign => {
+  const corrections: DesignCorrection[] = [];
+  const issues: DesignIssue[] = [];
+  const correct = (path: string, from: unknown, to: unknown, reason: string) =>
+    corrections.push({ path, from: show(from), to: show(to), reason });
+
+  if (!isRecord(raw) || !Array.isArray(raw.variants)) {
+    return { variants: [], corrections, issues: [{ path: 'variants', message: `must be an array of ${expectedCount} designs` }] };
+  }
+  if (raw.variants.length < expectedCount) {
+    issues.push({ path: 'variants', message: `must contain ${expectedCount} designs, got ${raw.variants.length}` });
+  }
+
+  const variants = raw.variants.slice(0, expectedCount).flatMap((v, index): DesignVariant[] => {
+    const path = `variants[${index}]`;
+    if (!isRecord(v)) {
+      issues.push({ path, message: 'must be an object' });
+      return [];
+    }
+
+    let fontFamily = typeof v.fontFamily === 'string' ? v.fontFamily.trim() : '';
+    if (!fontFamily) {
+      issues.push({ path: `${path}.fontFamily`, message: 'is required' });
+    } else if (allowedFonts.length > 0 && !allowedFonts.includes(fontFamily)) {
+      const matched = matchFont(fontFamily, allowedFonts);
+      correct(`${path}.fontFamily`, v.fontFamily, matched, 'not in the allowed fonts');
+      fontFamily = matched;
+    }
+
+    let height = readNumber(v.recommendedLetterHeightIn);
+    if (height === null) {
+      issues.push({ path: `${path}.recommendedLetterHeightIn`, message: 'must be a number of inches' });
+      height = MIN_LETTER_HEIGHT_IN;
+    } else if (height < MIN_LETTER_HEIGHT_IN || height > MAX_LETTER_HEIGHT_IN) {
+      const clamped = clamp(Math.round(height), MIN_LETTER_HEIGHT_IN, MAX_LETTER_HEIGHT_IN);
+      correct(`${path}.recommendedLetterHeightIn`, v.recommendedLetterHeightIn, clamped, `outside ${MIN_LETTER_HEIGHT_IN}-${MAX_LETTER_HEIGHT_IN}"`);
+      height = clamped;
+    }
+
+    let color = normalizeHex(v.color);
+    if (!color) {
+      color = '#ffffff';
+      correct(`${path}.color`, v.color, color, 'not a hex colour');
+    }
+    // Optional, but a face colour that can't be drawn is replaced with a dark neutral
+    let backgroundColor: string | undefined;
+    if (v.backgroundColor !== undefined && v.backgroundColor !== null && v.backgroundColor !== '') {
+      backgroundColor = normalizeHex(v.backgroundColor) || undefined;
+      if (!backgroundColor) {
+        backgroundColor = '#111827';
+        correct(`${path}.backgroundColor`, v.backgroundColor, backgroundColor, 'not a hex colour');
+      }
+    }
+
+    let letterSpacing = typeof v.letterSpacing === 'string' ? v.letterSpacing.trim() : '';
+    const em = readUnit(v.letterSpacing, 'em');
+    const spacingEm = clamp(em ?? 0.05, 0, MAX_LETTER_SPACING_EM);
+    if (em === null || !letterSpacing.endsWith('em')) {
+      letterSpacing = `${spacingEm}em`;
+      correct(`${path}.letterSpacing`, v.letterSpacing, letterSpacing, 'not an em spacing');
+    } else if (spacingEm !== em) {
+      letterSpacing = `${spacingEm}em`;
+      correct(`${path}.letterSpacing`, v.letterSpacing, letterSpacing, `outside 0-${MAX_LETTER_SPACING_EM}em`);
+    }
+
+    const stroke = v.stroke === true || v.stroke === 'true';
+    let strokeWidth = typeof v.strokeWidth === 'string' ? v.strokeWidth.trim() : '';
+    const px = readUnit(v.strokeWidth, 'px');
+    const strokePx = clamp(px ?? (stroke ? 2 : 0), 0, MAX_STROKE_PX);
+    if (px === null || !strokeWidth.endsWith('px') || strokePx !== px) {
+      strokeWidth = `${strokePx}px`;
+      correct(`${path}.strokeWidth`, v.strokeWidth, strokeWidth, `not a width of 0-${MAX_STROKE_PX}px`);
+    }
+
+    return [{
+      name: typeof v.name === 'string' ? v.name : '',
+      description: typeof v.description === 'string' ? v.description : undefined,
+      fontFamily,
+      letterSpacing,
+      // Lighting is set by the option rules afterwards, so any value will do here
+      lighting: Object.values(LightingType).includes(v.lighting as LightingType) ? v.lighting as LightingType : LightingType.FRONT_LIT,
+      roundedBacker: v.roundedBacker === true || v.roundedBacker === 'true',
+      stroke,
+      strokeWidth,
+      recommendedLetterHeightIn: height,
+      color,
+      backgroundColor
+    }];
+  });
+
+  return { variants, placement: validatePlacement(raw.placement, fallbackPlacement, correct), corrections, issues };
+};
+
+/** Orders, clamps and size-checks the placement box, falling back when it can't hold a sign. */
+const validatePlacement = (
+  raw: unknown,
+  fallback: SignPlacement,
+  correct: (path: string, from: unknown, to: unknown, reason: string) => void
+): SignPlacement | undefined => {
+  // No photo, no placement: the sign is centred as before
+  if (raw === undefined || raw === null) return undefined;
+  const p = isRecord(raw) ? raw : {};
+  const values = (['xmin', 'xmax', 'ymin', 'ymax'] as const).map(key => readNumber(p[key]));
+  if (values.some(v => v === null)) {
+    correct('placement', raw, fallback, 'incomplete box');
+    return fallback;
+  }
+  let [xmin, xmax, ymin, ymax] = values as number[];
+  const reasons: string[] = [];
+  if (xmin > xmax || ymin > ymax) {
+    [xmin, xmax] = [Math.min(xmin, xmax), Math.max(xmin, xmax)];
+    [ymin, ymax] = [Math.min(ymin, ymax), Math.max(ymin, ymax)];
+    reasons.push('min and max swapped');
+  }
+  const clamped = [xmin, xmax, ymin, ymax].map(v => clamp(v, 0, 1));
+  if (clamped.some((v, i) => v !== [xmin, xmax, ymin, ymax][i])) reasons.push('outside the photo');
+  [xmin, xmax, ymin, ymax] = clamped;
+
+  if (xmax - xmin < MIN_PLACEMENT_SIZE || ymax - ymin < MIN_PLACEMENT_SIZE) {
+    correct('placement', raw, fallback, 'box too small to hold a sign');
+    return fallback;
+  }
+  const placement = { ymin, xmin, ymax, xmax };
+  if (reasons.length > 0) correct('placement', raw, placement, reasons.join(', '));
+  return placement;
+};
+
+const OPTION_LETTERS = ['A', 'B', 'C'];
+
+const FIELD_LABELS: Record<string, string> = {
+  fontFamily: 'font',
+  recommendedLetterHeightIn: 'letter height',
+  color: 'colour',
+  backgroundColor: 'background colour',
+  letterSpacing: 'letter spacing',
+  strokeWidth: 'stroke width',
+};
+
+/** e.g. "Option B font: Gotham → Montserrat (not in the allowed fonts)" */
+export const formatCorrection = (correction: DesignCorrection, firstIndex = 0): string => {
+  const match = correction.path.match(/^variants\[(\d+)\]\.(\w+)$/);
+  const index = match ? Number(match[1]) + firstIndex : 0;
+  const subject = match
+    ? `Option ${OPTION_LETTERS[index] || index + 1} ${FIELD_LABELS[match[2]] || match[2]}`
+    : 'Placement';
+  return `${subject}: ${correction.from} → ${correction.to} (${correction.reason})`;
+};
@@ -0,0 +1,112 @@
+import { PRICING } from "../constants";
+import { DesignVariant, ElectricalBom, JobElectrical, LightingType, PowerSupplySize, PricingRulebook, SignLineItem, SignType } from "../types";
+import { layoutElements } from "./layout";
+import { logoGeometry } from "./logo";
+
+// Face area of an unmeasured letter as a share of its cap-height square (about 0.6 wide, 40% ink)
+const UNMEASURED_LETTER_FILL = 0.24;
+
+/** Whether the sign needs LEDs. Lightboxes follow their pricing: only FRONT_LIT is lit. */
+export const isIlluminated = (signType: SignType, variant: DesignVariant): boolean => {
+  if (signType === SignType.WINDOW_VINYL || signType === SignType.FLAT_PANEL) return false;
+  if (signType === SignType.LIGHTBOX) return variant.lighting === LightingType.FRONT_LIT;
+  return variant.lighting !== LightingType.NON_LIT;
+};
+
+/** LED modules for one channel letter face. Every lit letter gets at least one. */
+export const letterLedModules = (faceSqFt: number, rulebook: PricingRulebook = PRICING): number =>
+  Math.max(1, Math.ceil(faceSqFt * rulebook.ELECTRICAL.LETTER_MODULES_PER_SQFT));
+
+export const estimateLedModules = (item: SignLineItem, rulebook: PricingRulebook = PRICING): number => {
+  const { signType, dimensions, options } = item;
+  if (signType === SignType.CHANNEL_LETTERS) {
+    // An uploaded logo is lit like the letters: a cabinet by its face, formed shapes by theirs
+    const logo = item.layout?.logo;
+    let logoModules = 0;
+    if (logo?.artwork) {
+      const shape = logoGeometry(logo);
+      logoModules = logo.fabrication === 'CUT_OUT'
+        ? Math.max(shape.shapes, Math.ceil(shape.faceSqFt * rulebook.ELECTRICAL.LETTER_MODULES_PER_SQFT))
+        : Math.ceil(shape.outlineSqFt * rulebook.ELECTRICAL.CABINET_MODULES_PER_SQFT);
+    }
+    // Every line of copy, each at its own letter height
+    return layoutElements(item).reduce((total, element) => {
+      if (element.metrics) {
+        return total + element.metrics.glyphs.reduce((sum, g) => sum + letterLedModules(g.faceAreaSqIn / 144, rulebook), 0);
+      }
+      const letterCount = element.text.replace(/\s/g, '').length;
+      const faceSqFt = (element.heightIn * element.heightIn * UNMEASURED_LETTER_FILL) / 144;
+      return total + letterCount * letterLedModules(faceSqFt, rulebook);
+    }, logoModules);
+  }
+  const faces = (signType === SignType.PYLON || signType === SignType.BLADE) && options.doubleSided !== false ? 2 : 1;
+  const sqft = (dimensions.widthIn * dimensions.heightIn) / 144;
+  return Math.ceil(sqft * faces * rulebook.ELECTRICAL.CABINET_MODULES_PER_SQFT);
+};
+
+/**
+ * Cheapest way to carry the load with one supply size, keeping the load margin free
+ * on every supply. Ties go to the option with fewer supplies.
+ */
+export const selectPowerSupplies = (
+  loadWatts: number,
+  rulebook: PricingRulebook = PRICING
+): { powerSupply: PowerSupplySize; count: number } | null => {
+  const rules = rulebook.ELECTRICAL;
+  let best: { powerSupply: PowerSupplySize; count: number } | null = null;
+  rules.POWER_SUPPLIES.forEach(powerSupply => {
+    const usableWatts = powerSupply.watts * (1 - rules.LOAD_MARGIN_PERCENT);
+    if (usableWatts <= 0) return;
+    const count = Math.max(1, Math.ceil(loadWatts / usableWatts));
+    if (!best
+      || count * powerSupply.cost < best.count * best.powerSupply.cost
+      || (count * powerSupply.cost === best.count * best.powerSupply.cost && count < best.count)) {
+      best = { powerSupply, count };
+    }
+  });
+  return best;
+};
+
+/** LED and power supply bill of materials for one sign, or null when it isn't lit. */
+export const buildElectricalBom = (
+  item: SignLineItem,
+  variant: DesignVariant,
+  rulebook: PricingRulebook = PRICING
+): ElectricalBom | null => {
+  if (!isIlluminated(item.signType, variant)) return null;
+  const rules = rulebook.ELECTRICAL;
+  const ledModules = estimateLedModules(item, rulebook);
+  if (ledModules <= 0) return null;
+
+  const loadWatts = ledModules * rules.WATTS_PER_MODULE;
+  const supplies = selectPowerSupplies(loadWatts, rulebook);
+  if (!supplies) return null;
+
+  const inputWatts = loadWatts / rules.SUPPLY_EFFICIENCY_PERCENT;
+  return {
+    ledModules,
+    loadWatts,
+    powerSupply: supplies.powerSupply,
+    powerSupplyCount: supplies.count,
+    inputWatts,
+    amps: inputWatts / rules.LINE_VOLTAGE,
+    partsCost: ledModules * rules.LED_MODULE_COST + supplies.count * supplies.powerSupply.cost
+  };
+};
+
+/** Total draw of the job's signs and how many circuits it needs, or null if nothing is lit. */
+export const summarizeElectrical = (boms: ElectricalBom[], rulebook: PricingRulebook = PRICING): JobElectrical | null => {
+  if (boms.length === 0) return null;
+  const rules = rulebook.ELECTRICAL;
+  const inputWatts = boms.reduce((sum, b) => sum + b.inputWatts, 0);
+  const amps = inputWatts / rules.LINE_VOLTAGE;
+  return {
+    inputWatts,
+    amps,
+    circuits: Math.max(1, Math.ceil(amps / (rules.CIRCUIT_AMPS * rules.CIRCUIT_LOAD_PERCENT))),
+    powerSupplyCount: boms.reduce((sum, b) => sum + b.powerSupplyCount, 0)
+  };
+};
+
+export const describePowerSupplies = (bom: ElectricalBom): string =>
+  `${bom.powerSupplyCount} x ${bom.powerSupply.watts}W`;
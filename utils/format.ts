@@ -0,0 +1,26 @@
+import { CurrencyCode } from "../types";
+
+// Shared display helpers for quote labels.
+
+export const formatPercent = (fraction: number): string =>
+  `${Number((fraction * 100).toFixed(2))}%`;
+
+/** 101.5 -> 8' 5.5" */
+export const formatFeetInches = (inches: number): string => {
+  const feet = Math.floor(inches / 12);
+  const rest = Number((inches - feet * 12).toFixed(1));
+  return feet > 0 ? `${feet}' ${rest}"` : `${rest}"`;
+};
+
+/** Rounds half away from zero to whole cents. */
+export const roundMoney = (amount: number): number =>
+  Math.sign(amount) * Math.round((Math.abs(amount) + Number.EPSILON) * 100) / 100;
+
+// One locale for both currencies so US dollars read as "US$" next to Canadian "$"
+const moneyFormats: Partial<Record<CurrencyCode, Intl.NumberFormat>> = {};
+
+export const formatMoney = (amount: number, currency: CurrencyCode = 'CAD'): string => {
+  const format = moneyFormats[currency] ||
+    (moneyFormats[currency] = new Intl.NumberFormat('en-CA', { style: 'currency', currency }));
+  return format.format(roundMoney(amount));
+};
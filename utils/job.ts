@@ -0,0 +1,28 @@
+import { SignLineItem, SignType } from "../types";
+
+export const createLineItem = (signType: SignType = SignType.CHANNEL_LETTERS, text: string = "OPEN"): SignLineItem => ({
+  id: crypto.randomUUID(),
+  signType,
+  text,
+  dimensions: { widthIn: 0, heightIn: 18 }, // Default for channel letters
+  options: {
+    hasLamination: false,
+    lightboxDepth: 4,
+    pylonHeightFt: 20,
+    doubleSided: true,
+    isReface: false,
+  },
+  variants: [],
+  selectedVariant: null,
+});
+
+/** Short label used in the sign list, quote sidebar and PDF. */
+export const describeLineItem = (item: SignLineItem): string =>
+  item.text ? `${item.signType} – "${item.text}"` : item.signType;
+
+export const formatLineDimensions = (item: SignLineItem): string => {
+  const { signType, dimensions, options } = item;
+  if (signType === SignType.CHANNEL_LETTERS) return `Height ${dimensions.heightIn}"`;
+  const box = `${dimensions.widthIn}" x ${dimensions.heightIn}"`;
+  return signType === SignType.PYLON ? `${box}, ${options.pylonHeightFt}ft overall` : box;
+};
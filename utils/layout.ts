@@ -0,0 +1,183 @@
+import { DesignVariant, ElementAlign, LayoutLine, LogoArtwork, LogoFabrication, SignLayout, SignLineItem, SignType, TextMetrics } from "../types";
+import { metricsKey } from "./textMetrics";
+
+// Width of an unmeasured character as a share of its cap height
+const UNMEASURED_CHAR_WIDTH = 0.75;
+// Cabinets and panels: the main copy's cap height as a share of the face, matching the preview's font size guess
+const PANEL_MAIN_CAP_SHARE = 0.42;
+// ...and how much of the face the copy and logo may fill
+const PANEL_FILL = 0.8;
+
+export const DEFAULT_LINE_GAP_IN = 3;
+
+export const createLayout = (): SignLayout => ({ align: 'CENTER', lines: [], lineGapIn: DEFAULT_LINE_GAP_IN });
+
+export const createLayoutLine = (mainHeightIn: number): LayoutLine => ({
+  id: crypto.randomUUID(),
+  text: '',
+  heightIn: Math.max(4, Math.round(mainHeightIn / 3)),
+  align: 'CENTER',
+});
+
+/** Whether the sign has anything besides its one line of text. */
+export const hasLayout = (item: SignLineItem): boolean =>
+  !!item.layout && (item.layout.lines.length > 0 || !!item.layout.logo);
+
+/** One line of copy, the main line included, with the font it is drawn in. */
+export interface TextElement {
+  id: string; // 'main' for the sign's own text
+  text: string;
+  heightIn: number;
+  fontFamily: string;
+  letterSpacing: string;
+  align: ElementAlign;
+  metrics?: TextMetrics; // only when measured for this exact text, font, height and spacing
+}
+
+const currentMetrics = (metrics: TextMetrics | undefined, text: string, fontFamily: string, heightIn: number, letterSpacing: string) =>
+  metrics && metrics.sourceKey.startsWith(metricsKey(text, fontFamily, heightIn, letterSpacing)) ? metrics : undefined;
+
+/** Every line of copy on the sign, main line first. Blank extra lines are left out. */
+export const layoutElements = (item: SignLineItem, variant: DesignVariant | null = item.selectedVariant): TextElement[] => {
+  const fontFamily = variant?.fontFamily || 'Arial';
+  const letterSpacing = variant?.letterSpacing || '0em';
+  const main: TextElement = {
+    id: 'main',
+    text: item.text,
+    heightIn: item.dimensions.heightIn,
+    fontFamily,
+    letterSpacing,
+    align: item.layout?.align || 'CENTER',
+    // The main line's metrics are cleared whenever its design changes
+    metrics: item.metrics
+  };
+  const lines = (item.layout?.lines || []).filter(line => line.text.trim() && line.heightIn > 0).map(line => {
+    const lineFont = line.fontFamily || fontFamily;
+    return {
+      id: line.id,
+      text: line.text,
+      heightIn: line.heightIn,
+      fontFamily: lineFont,
+      letterSpacing,
+      align: line.align,
+      metrics: currentMetrics(line.metrics, line.text, lineFont, line.heightIn, letterSpacing)
+    };
+  });
+  return [main, ...lines];
+};
+
+/** Lines that still need measuring for channel letters, with the key their metrics will carry. */
+export const unmeasuredLines = (item: SignLineItem, pxPerInch?: number | null): { line: LayoutLine; element: TextElement; key: string }[] => {
+  if (item.signType !== SignType.CHANNEL_LETTERS || !item.selectedVariant || !item.layout) return [];
+  const elements = layoutElements(item);
+  return item.layout.lines.flatMap(line => {
+    const element = elements.find(e => e.id === line.id);
+    if (!element) return [];
+    const key = metricsKey(element.text, element.fontFamily, element.heightIn, element.letterSpacing, pxPerInch);
+    return line.metrics?.sourceKey === key ? [] : [{ line, element, key }];
+  });
+};
+
+export const elementWidthIn = (element: TextElement): number =>
+  element.metrics ? element.metrics.overallWidthIn : element.text.replace(/\s/g, '').length * element.heightIn * UNMEASURED_CHAR_WIDTH;
+
+export interface PlacedElement extends TextElement {
+  xIn: number;   // left of the run, from the left of the layout
+  topIn: number; // top of the caps, from the top of the layout
+  widthIn: number;
+}
+
+export interface LayoutBox {
+  xIn: number;
+  topIn: number;
+  widthIn: number;
+  heightIn: number;
+}
+
+export interface PlacedLogo extends LayoutBox {
+  artwork?: LogoArtwork;
+  fabrication?: LogoFabrication;
+}
+
+/** Where everything sits, in inches from the top left of the arrangement. */
+export interface SignArrangement {
+  widthIn: number;
+  heightIn: number;
+  elements: PlacedElement[];
+  logo?: PlacedLogo;
+}
+
+const alignX = (align: ElementAlign, width: number, blockWidth: number) =>
+  align === 'LEFT' ? 0 : align === 'RIGHT' ? blockWidth - width : (blockWidth - width) / 2;
+
+/**
+ * Stacks the lines under each other, aligned within the widest, with the logo
+ * beside or above them. Channel letters are laid out at their own heights;
+ * on cabinets and panels the copy is scaled to fit the face.
+ */
+export const arrangeLayout = (item: SignLineItem, variant: DesignVariant | null = item.selectedVariant): SignArrangement => {
+  const isLetters = item.signType === SignType.CHANNEL_LETTERS;
+  const layout = item.layout || createLayout();
+  let elements = layoutElements(item, variant);
+  if (!isLetters) {
+    const mainHeight = item.dimensions.heightIn * PANEL_MAIN_CAP_SHARE;
+    elements = elements.map(e => e.id === 'main' ? { ...e, heightIn: mainHeight } : e);
+  }
+
+  const gap = layout.lineGapIn;
+  const widths = elements.map(elementWidthIn);
+  const stackWidth = Math.max(0, ...widths);
+  const stackHeight = elements.reduce((sum, e) => sum + e.heightIn, 0) + gap * (elements.length - 1);
+
+  let logo: PlacedLogo | undefined;
+  let stackX = 0;
+  let stackY = 0;
+  let width = stackWidth;
+  let height = stackHeight;
+  if (layout.logo) {
+    const { widthIn: lw, heightIn: lh, side, artwork, fabrication } = layout.logo;
+    if (side === 'ABOVE') {
+      width = Math.max(stackWidth, lw);
+      height = lh + gap + stackHeight;
+      stackX = (width - stackWidth) / 2;
+      stackY = lh + gap;
+      logo = { xIn: (width - lw) / 2, topIn: 0, widthIn: lw, heightIn: lh, artwork, fabrication };
+    } else {
+      width = lw + gap + stackWidth;
+      height = Math.max(stackHeight, lh);
+      stackX = side === 'LEFT' ? lw + gap : 0;
+      stackY = (height - stackHeight) / 2;
+      logo = { xIn: side === 'LEFT' ? 0 : stackWidth + gap, topIn: (height - lh) / 2, widthIn: lw, heightIn: lh, artwork, fabrication };
+    }
+  }
+
+  let top = stackY;
+  let placed: PlacedElement[] = elements.map((e, i) => {
+    const element = { ...e, xIn: stackX + alignX(e.align, widths[i], stackWidth), topIn: top, widthIn: widths[i] };
+    top += e.heightIn + gap;
+    return element;
+  });
+
+  // Copy on a cabinet or panel shrinks to fit its face, centred
+  if (!isLetters && width > 0 && height > 0) {
+    const scale = Math.min(1, item.dimensions.widthIn * PANEL_FILL / width, item.dimensions.heightIn * PANEL_FILL / height);
+    const dx = (item.dimensions.widthIn - width * scale) / 2;
+    const dy = (item.dimensions.heightIn - height * scale) / 2;
+    const fit = (box: LayoutBox): LayoutBox => ({ xIn: dx + box.xIn * scale, topIn: dy + box.topIn * scale, widthIn: box.widthIn * scale, heightIn: box.heightIn * scale });
+    placed = placed.map(e => ({ ...e, ...fit({ xIn: e.xIn, topIn: e.topIn, widthIn: e.widthIn, heightIn: e.heightIn }) }));
+    logo = logo && { ...logo, ...fit(logo) };
+    return { widthIn: item.dimensions.widthIn, heightIn: item.dimensions.heightIn, elements: placed, logo };
+  }
+
+  return { widthIn: width, heightIn: height, elements: placed, logo };
+};
+
+/** Overall size on the wall: the arranged copy for channel letters, the face for everything else. */
+export const overallSizeIn = (item: SignLineItem): { widthIn: number; heightIn: number } => {
+  if (item.signType !== SignType.CHANNEL_LETTERS) return item.dimensions;
+  if (!hasLayout(item)) {
+    return { widthIn: item.metrics ? item.metrics.overallWidthIn : item.dimensions.widthIn, heightIn: item.dimensions.heightIn };
+  }
+  const { widthIn, heightIn } = arrangeLayout(item);
+  return { widthIn, heightIn };
+};
@@ -0,0 +1,60 @@
+// Day / dusk / night ambient light. Level 0 is the daytime photo, 1 is full night.
+// Everything that doesn't emit light is multiplied by the ambient colour, the same
+// way the photo is darkened, so unlit parts of a sign sit naturally in the scene.
+
+type Rgb = [number, number, number];
+
+// Ambient colour at day, dusk and night: warm as the sun sets, then deep blue
+const AMBIENT_STOPS: { level: number; rgb: Rgb }[] = [
+  { level: 0, rgb: [255, 255, 255] },
+  { level: 0.5, rgb: [200, 150, 125] },
+  { level: 1, rgb: [32, 42, 78] },
+];
+
+const clampLevel = (level: number) => Math.min(1, Math.max(0, level));
+
+export const ambientRgb = (level: number): Rgb => {
+  const l = clampLevel(level);
+  const upper = AMBIENT_STOPS.findIndex(stop => stop.level >= l);
+  if (upper <= 0) return AMBIENT_STOPS[0].rgb;
+  const a = AMBIENT_STOPS[upper - 1];
+  const b = AMBIENT_STOPS[upper];
+  const t = (l - a.level) / (b.level - a.level);
+  return a.rgb.map((v, i) => Math.round(v + (b.rgb[i] - v) * t)) as Rgb;
+};
+
+/** The multiply colour for the photo, e.g. as a CSS overlay with mix-blend-mode: multiply. */
+export const ambientColor = (level: number): string => `rgb(${ambientRgb(level).join(', ')})`;
+
+const parseColor = (color: string): { rgb: Rgb; alpha: number } | null => {
+  const hex = color.trim().match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/i);
+  if (hex) {
+    const digits = hex[1].length === 3 ? hex[1].split('').map(d => d + d).join('') : hex[1];
+    return { rgb: [0, 2, 4].map(i => parseInt(digits.slice(i, i + 2), 16)) as Rgb, alpha: 1 };
+  }
+  const fn = color.trim().match(/^rgba?\(([^)]+)\)$/i);
+  if (fn) {
+    const parts = fn[1].split(/[\s,/]+/).filter(Boolean).map(Number);
+    if (parts.length >= 3 && parts.every(n => !isNaN(n))) {
+      return { rgb: [parts[0], parts[1], parts[2]], alpha: parts[3] ?? 1 };
+    }
+  }
+  return null;
+};
+
+/** A surface colour as it looks under the ambient light. Colours it can't parse are returned as is. */
+export const underAmbient = (color: string, level: number): string => {
+  if (level <= 0) return color;
+  const parsed = parseColor(color);
+  if (!parsed) return color;
+  const ambient = ambientRgb(level);
+  const rgb = parsed.rgb.map((v, i) => Math.round(v * ambient[i] / 255));
+  return parsed.alpha === 1 ? `rgb(${rgb.join(', ')})` : `rgba(${rgb.join(', ')}, ${parsed.alpha})`;
+};
+
+/** The same colour with its alpha scaled, for glows that strengthen as it gets dark. */
+export const withAlpha = (color: string, alpha: number): string => {
+  const parsed = parseColor(color);
+  if (!parsed) return color;
+  return `rgba(${parsed.rgb.join(', ')}, ${Math.min(1, Math.max(0, parsed.alpha * alpha))})`;
+};
@@ -0,0 +1,45 @@
+import { CurrencyCode, PriceCategory, PriceLineItem } from "../types";
+import { formatMoney, roundMoney } from "./format";
+
+export interface LineItemInput {
+  code: string;
+  label: string;
+  quantity: number;
+  unit: string;
+  unitPrice: number;
+  category: PriceCategory;
+  amount?: number; // defaults to quantity x unitPrice
+  taxable?: boolean;
+  visibility?: PriceLineItem['visibility'];
+}
+
+export const makeLineItem = (input: LineItemInput): PriceLineItem => ({
+  taxable: true,
+  visibility: 'CUSTOMER',
+  ...input,
+  amount: roundMoney(input.amount ?? input.quantity * input.unitPrice)
+});
+
+/** Zero-amount internal row for explaining how a line was priced. */
+export const makeNote = (label: string, category: PriceCategory = 'ADJUSTMENT'): PriceLineItem =>
+  makeLineItem({ code: 'NOTE', label, quantity: 0, unit: '', unitPrice: 0, category, visibility: 'INTERNAL' });
+
+export const sumLineItems = (items: PriceLineItem[]): number =>
+  roundMoney(items.reduce((sum, item) => sum + item.amount, 0));
+
+export const customerLineItems = (items: PriceLineItem[]): PriceLineItem[] =>
+  items.filter(item => item.visibility === 'CUSTOMER');
+
+const formatQuantity = (quantity: number): string => String(Number(quantity.toFixed(2)));
+
+/** "Returns (23.4 ft @ $17.50)" for priced rows; flat and note rows show just the label. */
+export const formatLineItemLabel = (item: PriceLineItem, currency?: CurrencyCode): string => {
+  if (item.quantity === 0 || item.unit === 'job' || (item.quantity === 1 && item.unit === 'ea')) return item.label;
+  return `${item.label} (${formatQuantity(item.quantity)} ${item.unit} @ ${formatMoney(item.unitPrice, currency)})`;
+};
+
+/** Single-line text rendering, e.g. for the PDF: "Returns (23.4 ft @ $17.50): $409.50". */
+export const formatLineItem = (item: PriceLineItem, currency?: CurrencyCode): string =>
+  item.amount === 0 && item.quantity === 0
+    ? formatLineItemLabel(item, currency)
+    : `${formatLineItemLabel(item, currency)}: ${formatMoney(item.amount, currency)}`;
@@ -0,0 +1,122 @@
+import { LayoutLogo, LogoArtwork } from "../types";
+import { maskFromImageData, pointInContours, polygonArea, polygonPerimeter, simplifyLoop, traceContours } from "./contours";
+import { Point } from "./perspective";
+
+// Longest side the upload is rasterised at for tracing, in px
+const TRACE_SIZE = 600;
+// Colour distance from the background that counts as ink on an opaque PNG (0-441)
+const INK_DISTANCE = 60;
+// Specks smaller than this share of the logo's bounding box are dropped as noise
+const MIN_SHAPE_SHARE = 0.0005;
+
+export const LOGO_FILE_TYPES = ['image/png', 'image/svg+xml'];
+
+const readDataUrl = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+const loadImage = (url: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("The logo couldn't be read as an image"));
+    img.src = url;
+  });
+
+/**
+ * Which pixels are ink. Transparent PNGs and SVGs use the alpha channel; a logo
+ * on an opaque background counts anything far enough from the corner colour.
+ */
+export const inkMask = (data: ImageData): Uint8Array => {
+  const { width, height } = data;
+  const px = (x: number, y: number) => (y * width + x) * 4;
+  const corners = [px(0, 0), px(width - 1, 0), px(0, height - 1), px(width - 1, height - 1)];
+  if (corners.some(i => data.data[i + 3] < 128)) return maskFromImageData(data);
+
+  const [r, g, b] = [0, 1, 2].map(c => corners.reduce((sum, i) => sum + data.data[i + c], 0) / corners.length);
+  const mask = new Uint8Array(width * height);
+  for (let i = 0; i < mask.length; i++) {
+    const d = data.data;
+    mask[i] = Math.hypot(d[i * 4] - r, d[i * 4 + 1] - g, d[i * 4 + 2] - b) > INK_DISTANCE ? 1 : 0;
+  }
+  return mask;
+};
+
+/**
+ * Turns an uploaded PNG or SVG into logo artwork with vector outlines. Both are
+ * rasterised in the browser and the ink traced, so an SVG's fills, strokes and
+ * text all come out as the outlines the shop would cut.
+ */
+export const traceLogo = async (file: File): Promise<LogoArtwork> => {
+  if (!LOGO_FILE_TYPES.includes(file.type)) throw new Error("Upload the logo as a PNG or SVG");
+  const imageUrl = await readDataUrl(file);
+  const img = await loadImage(imageUrl);
+  const naturalWidth = img.naturalWidth || img.width;
+  const naturalHeight = img.naturalHeight || img.height;
+  if (!naturalWidth || !naturalHeight) throw new Error("The logo has no size; give the SVG a width and height or a viewBox");
+
+  const fit = TRACE_SIZE / Math.max(naturalWidth, naturalHeight);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(naturalWidth * fit));
+  canvas.height = Math.max(1, Math.round(naturalHeight * fit));
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  const mask = inkMask(ctx.getImageData(0, 0, canvas.width, canvas.height));
+
+  const loops = traceContours(mask, canvas.width, canvas.height).map(loop => simplifyLoop(loop, 0.75)).filter(loop => loop.length >= 3);
+  if (loops.length === 0) throw new Error("No artwork was found in the logo");
+
+  // Crop to the ink, then scale so the logo is one unit tall
+  const points = loops.flat();
+  const minX = Math.min(...points.map(p => p.x));
+  const minY = Math.min(...points.map(p => p.y));
+  const inkWidth = Math.max(...points.map(p => p.x)) - minX;
+  const inkHeight = Math.max(...points.map(p => p.y)) - minY;
+  const minArea = inkWidth * inkHeight * MIN_SHAPE_SHARE;
+  const contours = loops
+    .filter(loop => Math.abs(polygonArea(loop)) >= minArea)
+    .map(loop => loop.map(p => ({ x: (p.x - minX) / inkHeight, y: (p.y - minY) / inkHeight })));
+
+  return { fileName: file.name, imageUrl, aspect: inkWidth / inkHeight, contours };
+};
+
+// Anything with a size and maybe artwork: the layout's logo, or where an arrangement placed it
+type SizedLogo = Pick<LayoutLogo, 'heightIn' | 'artwork'>;
+
+/** The traced outlines at the logo's size on the wall, in inches from its top left. */
+export const logoOutlines = (logo: SizedLogo): Point[][] =>
+  (logo.artwork?.contours || []).map(loop => loop.map(p => ({ x: p.x * logo.heightIn, y: p.y * logo.heightIn })));
+
+export interface LogoGeometry {
+  outlineSqFt: number;  // inside the outer shapes, holes included: a cabinet's face
+  outlineFt: number;    // around the outer shapes: a cabinet's return
+  faceSqFt: number;     // the ink itself: formed faces
+  returnFt: number;     // around every shape and hole: formed returns
+  shapes: number;
+}
+
+export const logoGeometry = (logo: SizedLogo): LogoGeometry => {
+  const loops = logoOutlines(logo);
+  // Shapes sitting in another shape's hole are already inside that shape's cabinet
+  const shapes = loops.filter(loop => polygonArea(loop) > 0);
+  const outer = shapes.filter(loop => !shapes.some(other => other !== loop && pointInContours(loop[0], [other])));
+  return {
+    outlineSqFt: outer.reduce((sum, loop) => sum + polygonArea(loop), 0) / 144,
+    outlineFt: outer.reduce((sum, loop) => sum + polygonPerimeter(loop), 0) / 12,
+    faceSqFt: Math.max(0, loops.reduce((sum, loop) => sum + polygonArea(loop), 0)) / 144,
+    returnFt: loops.reduce((sum, loop) => sum + polygonPerimeter(loop), 0) / 12,
+    shapes: shapes.length
+  };
+};
+
+/** The logo at a new width or height; once artwork is uploaded the other side follows its proportions. */
+export const resizeLogo = (logo: LayoutLogo, size: { widthIn?: number; heightIn?: number }): LayoutLogo => {
+  const aspect = logo.artwork?.aspect;
+  if (!aspect) return { ...logo, ...size };
+  const heightIn = size.heightIn ?? (size.widthIn !== undefined ? size.widthIn / aspect : logo.heightIn);
+  return { ...logo, heightIn, widthIn: Math.round(heightIn * aspect * 10) / 10 };
+};
@@ -0,0 +1,92 @@
+import { Measurement, PerspectiveCalibration, SignLineItem, SignType } from "../types";
+import { photoToWall, Point, wallToPhoto } from "./perspective";
+import { hasLayout, overallSizeIn } from "./layout";
+
+// Hand-drawn measurements, sign dimensions and the ground line, on screen and in exports
+export const MEASUREMENT_COLOR = '#facc15';
+export const SIGN_CALLOUT_COLOR = '#22d3ee';
+export const GRADE_COLOR = '#4ade80';
+
+/** A dimension line ready to draw: its ends on the photo and its real length. */
+export interface Callout {
+  id: string;
+  label: string;
+  start: Point; // 0-1 of the photo
+  end: Point;
+  inches: number;
+  auto: boolean; // measured off a placed sign rather than drawn by hand
+}
+
+/** How the photo was calibrated, as needed to turn photo points into inches. */
+export interface MeasureView {
+  photoSize: { width: number; height: number };
+  pxPerInch: number;
+  perspective?: PerspectiveCalibration | null;
+}
+
+const toWall = (p: Point, view: MeasureView) => photoToWall(p, view.photoSize, view.pxPerInch, view.perspective);
+const toPhoto = (p: Point, view: MeasureView) => wallToPhoto(p, view.photoSize, view.pxPerInch, view.perspective);
+
+/** Where the sign centre sits, in the same 0-1 coordinates DraggableSign saves. */
+export const signCenter = (item: SignLineItem): Point => {
+  if (item.position) return item.position;
+  if (item.placement) {
+    return { x: (item.placement.xmin + item.placement.xmax) / 2, y: (item.placement.ymin + item.placement.ymax) / 2 };
+  }
+  return { x: 0.5, y: 0.5 };
+};
+
+/** The lines the user drew, with their lengths. */
+export const measurementCallouts = (measurements: Measurement[], view: MeasureView): Callout[] =>
+  measurements.map(m => {
+    const a = toWall(m.start, view);
+    const b = toWall(m.end, view);
+    return { ...m, inches: Math.hypot(b.x - a.x, b.y - a.y), auto: false };
+  });
+
+/**
+ * Overall width and letter (or cabinet) height of every placed sign, plus its
+ * clearance above grade once a ground point is set. Lines are laid out on the
+ * wall next to the sign, so they follow the 4-point perspective.
+ */
+export const signCallouts = (items: SignLineItem[], gradePoint: Point | null, view: MeasureView): Callout[] => {
+  const gradeY = gradePoint ? toWall(gradePoint, view).y : null;
+  return items.filter(item => item.selectedVariant).flatMap(item => {
+    const center = toWall(signCenter(item), view);
+    // Letters on one line are called out by their letter height, anything stacked by its overall height
+    const isLetterHeight = item.signType === SignType.CHANNEL_LETTERS && !hasLayout(item);
+    const { widthIn, heightIn } = overallSizeIn(item);
+    const left = center.x - widthIn / 2;
+    const right = center.x + widthIn / 2;
+    const top = center.y - heightIn / 2;
+    const bottom = center.y + heightIn / 2;
+    // Keep the lines clear of the sign by a quarter of its height, at least 4"
+    const gap = Math.max(4, heightIn * 0.25);
+
+    const line = (key: string, label: string, a: Point, b: Point, inches: number): Callout => ({
+      id: `${item.id}-${key}`, label, start: toPhoto(a, view), end: toPhoto(b, view), inches, auto: true
+    });
+    const callouts = [
+      line('width', 'Overall width', { x: left, y: top - gap }, { x: right, y: top - gap }, widthIn),
+      line('height', isLetterHeight ? 'Letter height' : 'Height', { x: right + gap, y: top }, { x: right + gap, y: bottom }, heightIn),
+    ];
+    if (gradeY !== null && gradeY > bottom) {
+      callouts.push(line('grade', 'Above grade', { x: left - gap, y: bottom }, { x: left - gap, y: gradeY }, gradeY - bottom));
+    }
+    return callouts;
+  });
+};
+
+/** The ground line through the grade point, running level along the wall across the whole photo. */
+export const gradeLine = (gradePoint: Point, view: MeasureView): [Point, Point] => {
+  const wall = toWall(gradePoint, view);
+  const along = toPhoto({ x: wall.x + 12, y: wall.y }, view);
+  const dx = along.x - gradePoint.x;
+  const dy = along.y - gradePoint.y;
+  if (Math.abs(dx) < 1e-9) return [{ x: 0, y: gradePoint.y }, { x: 1, y: gradePoint.y }];
+  const slope = dy / dx;
+  return [
+    { x: 0, y: gradePoint.y - gradePoint.x * slope },
+    { x: 1, y: gradePoint.y + (1 - gradePoint.x) * slope },
+  ];
+};
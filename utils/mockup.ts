@@ -0,0 +1,613 @@
+import { LightingType, PerspectiveCalibration, SignLineItem, SignType } from "../types";
+import { isIlluminated } from "./electrical";
+import { formatFeetInches } from "./format";
+import { ambientColor, underAmbient, withAlpha } from "./lighting";
+import { Callout, GRADE_COLOR, MEASUREMENT_COLOR, SIGN_CALLOUT_COLOR, signCenter } from "./measurements";
+import { applyHomography, Matrix3, multiplyMatrix3, invertMatrix3, Point, wallToImageMatrix } from "./perspective";
+import { capHeightRatio, loadFont, parseLetterSpacing } from "./textMetrics";
+import { arrangeLayout, hasLayout, layoutElements } from "./layout";
+
+/** The calibration the signs were placed with: pxPerInch is in displayed photo pixels. */
+export interface MockupView {
+  pxPerInch: number;
+  displaySize: { width: number; height: number };
+  perspective?: PerspectiveCalibration | null;
+}
+
+export interface MockupOptions {
+  width?: number; // output width in px, defaults to the photo's native width
+  mimeType?: 'image/png' | 'image/jpeg';
+  quality?: number; // JPEG only
+  callouts?: Callout[]; // measurements and sign dimensions drawn over the photo
+  gradeLine?: [Point, Point] | null; // 0-1 of the photo
+  nightLevel?: number; // 0 day (default), 1 night
+}
+
+// A sign drawn flat on its own canvas, `origin` being the point placed on the photo
+interface FlatSign {
+  canvas: HTMLCanvasElement;
+  origin: Point;
+}
+
+// Colour of the metal returns, as in the live preview
+const RETURN_COLOR = '#1a1a1a';
+// Grid cells per side when warping a flat sign onto a 4-point calibrated wall
+const WARP_DIVISIONS = 16;
+
+export const loadImage = (url: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error(`Failed to load image ${url}`));
+    img.src = url;
+  });
+
+const createCanvas = (width: number, height: number): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.ceil(width));
+  canvas.height = Math.max(1, Math.ceil(height));
+  return canvas;
+};
+
+/** Dimension lines with ticks at the ends and a "Label 8' 5.5\"" tag at the middle. */
+const drawMeasurements = (ctx: CanvasRenderingContext2D, callouts: Callout[], gradeLine: [Point, Point] | null, scale: number) => {
+  const { width, height } = ctx.canvas;
+  const toPx = (p: Point) => ({ x: p.x * width, y: p.y * height });
+  const tick = 6 * scale;
+  const fontPx = Math.max(12, 13 * scale);
+  ctx.save();
+  ctx.lineWidth = Math.max(1, 1.5 * scale);
+  ctx.font = `bold ${fontPx}px sans-serif`;
+  ctx.letterSpacing = '0px';
+
+  if (gradeLine) {
+    const [a, b] = gradeLine.map(toPx);
+    ctx.strokeStyle = GRADE_COLOR;
+    ctx.setLineDash([8 * scale, 6 * scale]);
+    ctx.beginPath();
+    ctx.moveTo(a.x, a.y);
+    ctx.lineTo(b.x, b.y);
+    ctx.stroke();
+    ctx.setLineDash([]);
+  }
+
+  callouts.forEach(callout => {
+    const a = toPx(callout.start);
+    const b = toPx(callout.end);
+    const length = Math.hypot(b.x - a.x, b.y - a.y) || 1;
+    const nx = -(b.y - a.y) / length * tick;
+    const ny = (b.x - a.x) / length * tick;
+    const color = callout.auto ? SIGN_CALLOUT_COLOR : MEASUREMENT_COLOR;
+
+    ctx.strokeStyle = color;
+    ctx.shadowColor = 'rgba(0,0,0,0.8)';
+    ctx.shadowBlur = 3 * scale;
+    ctx.beginPath();
+    ctx.moveTo(a.x, a.y); ctx.lineTo(b.x, b.y);
+    ctx.moveTo(a.x - nx, a.y - ny); ctx.lineTo(a.x + nx, a.y + ny);
+    ctx.moveTo(b.x - nx, b.y - ny); ctx.lineTo(b.x + nx, b.y + ny);
+    ctx.stroke();
+    ctx.shadowBlur = 0;
+
+    const label = `${callout.label} ${formatFeetInches(callout.inches)}`;
+    const labelWidth = ctx.measureText(label).width;
+    const mid = { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+    const padding = 3 * scale;
+    ctx.fillStyle = 'rgba(0,0,0,0.7)';
+    ctx.fillRect(mid.x - labelWidth / 2 - padding, mid.y - fontPx / 2 - padding, labelWidth + padding * 2, fontPx + padding * 2);
+    ctx.fillStyle = color;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(label, mid.x, mid.y);
+  });
+  ctx.restore();
+};
+
+// Uploaded logos, loaded once per render by their data URL
+type LogoImages = Map<string, HTMLImageElement>;
+
+const logoImage = (logos: LogoImages, item: SignLineItem): HTMLImageElement | undefined => {
+  const url = item.layout?.logo?.artwork?.imageUrl;
+  return url ? logos.get(url) : undefined;
+};
+
+// One run of letters on the sign canvas: the main line, or a line of a stacked layout
+interface LetterRun {
+  text: string;
+  font: string;
+  spacingPx: number;
+  x: number;        // left of the run, from the sign centre
+  baseline: number; // from the sign centre
+  heightPx: number; // cap height
+}
+
+/**
+ * The uploaded logo, or the space kept for one. A logo on the wall gets a return
+ * and a shadow like the letters; unlit artwork dims with the ambient light.
+ */
+const drawLogo = (
+  ctx: CanvasRenderingContext2D,
+  box: { x: number; y: number; width: number; height: number },
+  image: HTMLImageElement | undefined,
+  lit: boolean,
+  onWall: boolean,
+  scale: number,
+  night: number
+) => {
+  if (image) {
+    const art = createCanvas(box.width, box.height);
+    const actx = art.getContext('2d')!;
+    actx.drawImage(image, 0, 0, art.width, art.height);
+    if (!lit && night > 0) {
+      actx.globalCompositeOperation = 'multiply';
+      actx.fillStyle = underAmbient('#ffffff', night);
+      actx.fillRect(0, 0, art.width, art.height);
+      // Keep the artwork's own transparency
+      actx.globalCompositeOperation = 'destination-in';
+      actx.drawImage(image, 0, 0, art.width, art.height);
+    }
+    ctx.save();
+    if (onWall) {
+      const depth = Math.max(2, Math.round(box.height * 0.04));
+      ctx.shadowColor = `rgba(0,0,0,${0.5 * (1 - night)})`;
+      ctx.shadowBlur = box.height * 0.08;
+      ctx.shadowOffsetX = ctx.shadowOffsetY = depth + 3 * scale;
+      ctx.drawImage(art, box.x, box.y);
+      ctx.shadowColor = 'transparent';
+      // The return: a dark copy stepped back
+      const edge = createCanvas(box.width, box.height);
+      const ectx = edge.getContext('2d')!;
+      ectx.drawImage(art, 0, 0);
+      ectx.globalCompositeOperation = 'source-in';
+      ectx.fillStyle = underAmbient(RETURN_COLOR, night);
+      ectx.fillRect(0, 0, edge.width, edge.height);
+      for (let i = depth; i >= 1; i--) ctx.drawImage(edge, box.x + i, box.y + i);
+    }
+    ctx.drawImage(art, box.x, box.y);
+    ctx.restore();
+    return;
+  }
+
+  ctx.save();
+  ctx.strokeStyle = underAmbient('#ffffff', night);
+  ctx.lineWidth = 2 * scale;
+  ctx.setLineDash([6 * scale, 4 * scale]);
+  ctx.strokeRect(box.x, box.y, box.width, box.height);
+  ctx.fillStyle = ctx.strokeStyle;
+  ctx.font = `bold ${Math.min(box.height * 0.3, 14 * scale)}px sans-serif`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText('LOGO', box.x + box.width / 2, box.y + box.height / 2);
+  ctx.restore();
+};
+
+/**
+ * Channel letters with the return stacked behind the face, a halo or cast
+ * shadow on the wall, the optional stroke and the rounded backer. Stacked
+ * layouts draw every line at its own height.
+ */
+const drawChannelLetters = (item: SignLineItem, ppi: number, scale: number, displayPxPerInch: number, night: number, logos: LogoImages): FlatSign => {
+  const variant = item.selectedVariant!;
+  const heightPx = item.dimensions.heightIn * ppi;
+  const fontSizeIn = item.metrics ? item.metrics.fontSizeIn : item.dimensions.heightIn / capHeightRatio(variant.fontFamily);
+  const measure = createCanvas(1, 1).getContext('2d')!;
+
+  let runs: LetterRun[];
+  let blockWidth: number;
+  let blockHeight: number;
+  let logo: { x: number; y: number; width: number; height: number } | null = null;
+  if (hasLayout(item)) {
+    const arrangement = arrangeLayout(item);
+    blockWidth = arrangement.widthIn * ppi;
+    blockHeight = arrangement.heightIn * ppi;
+    const left = -blockWidth / 2;
+    const top = -blockHeight / 2;
+    runs = arrangement.elements.map(e => {
+      const size = e.metrics ? e.metrics.fontSizeIn : e.heightIn / capHeightRatio(e.fontFamily);
+      return {
+        text: e.text,
+        font: `${size * ppi}px "${e.fontFamily}"`,
+        spacingPx: parseLetterSpacing(e.letterSpacing, size, displayPxPerInch) * ppi,
+        x: left + e.xIn * ppi,
+        baseline: top + (e.topIn + e.heightIn) * ppi,
+        heightPx: e.heightIn * ppi
+      };
+    });
+    if (arrangement.logo) {
+      const box = arrangement.logo;
+      logo = { x: left + box.xIn * ppi, y: top + box.topIn * ppi, width: box.widthIn * ppi, height: box.heightIn * ppi };
+    }
+  } else {
+    const spacingPx = parseLetterSpacing(variant.letterSpacing, fontSizeIn, displayPxPerInch) * ppi;
+    const font = `${fontSizeIn * ppi}px "${variant.fontFamily}"`;
+    measure.font = font;
+    measure.letterSpacing = `${spacingPx}px`;
+    // Trailing letter spacing isn't part of the run
+    blockWidth = item.metrics ? item.metrics.overallWidthIn * ppi : measure.measureText(item.text).width - spacingPx;
+    blockHeight = heightPx;
+    // Caps sit centred on the origin
+    runs = [{ text: item.text, font, spacingPx, x: -blockWidth / 2, baseline: heightPx / 2, heightPx }];
+  }
+
+  const depth = (run: LetterRun) => Math.max(2, Math.round(run.heightPx * 0.04));
+  const castDistance = (run: LetterRun) => depth(run) + 3 * scale;
+  const backer = variant.roundedBacker
+    ? { width: blockWidth + heightPx * 0.4, height: blockHeight + fontSizeIn * ppi - heightPx + heightPx * 0.2 }
+    : null;
+  const pad = heightPx * 0.8 + Math.max(...runs.map(castDistance));
+  const boxWidth = backer ? backer.width : blockWidth;
+  const boxHeight = backer ? backer.height : blockHeight;
+  const canvas = createCanvas(boxWidth + pad * 2, boxHeight + pad * 2);
+  const origin = { x: canvas.width / 2, y: canvas.height / 2 };
+  const ctx = canvas.getContext('2d')!;
+  ctx.translate(origin.x, origin.y);
+
+  if (backer) {
+    ctx.save();
+    ctx.fillStyle = underAmbient(variant.backgroundColor || '#333', night);
+    ctx.shadowColor = `rgba(0,0,0,${0.5 * (1 - night)})`;
+    ctx.shadowBlur = 15 * scale;
+    ctx.shadowOffsetX = ctx.shadowOffsetY = 5 * scale;
+    ctx.beginPath();
+    ctx.roundRect(-backer.width / 2, -backer.height / 2, backer.width, backer.height, Math.min(heightPx * 0.5, backer.height / 2));
+    ctx.fill();
+    ctx.restore();
+  }
+
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'alphabetic';
+  // Runs every line through one drawing pass, each in its own font
+  const eachRun = (draw: (run: LetterRun, text: (dx: number, dy: number) => void) => void) => runs.forEach(run => {
+    ctx.font = run.font;
+    ctx.letterSpacing = `${run.spacingPx}px`;
+    draw(run, (dx, dy) => ctx.fillText(run.text, run.x + dx, run.baseline + dy));
+  });
+
+  const faceColor = variant.color || '#fff';
+  const returnColor = underAmbient(RETURN_COLOR, night);
+
+  // Light on the wall, drawn from a copy of the letters so it sits behind the return
+  ctx.save();
+  ctx.fillStyle = returnColor;
+  eachRun((run, text) => {
+    const cast = castDistance(run);
+    if (variant.lighting === LightingType.BACK_LIT) {
+      // The halo spills further across the wall as it gets dark
+      const glow = variant.color || '#ffffff';
+      const spread = 1 + night;
+      ctx.fillStyle = glow;
+      ctx.shadowColor = glow;
+      ctx.shadowBlur = run.heightPx * 0.3 * spread;
+      text(cast, cast);
+      ctx.shadowBlur = run.heightPx * 0.1 * spread;
+      text(cast, cast);
+    } else {
+      const alpha = (variant.lighting === LightingType.FRONT_LIT ? 0.6 : 0.5) * (1 - night);
+      ctx.shadowColor = `rgba(0,0,0,${alpha})`;
+      ctx.shadowBlur = run.heightPx * (variant.lighting === LightingType.FRONT_LIT ? 0.15 : 0.08);
+      text(cast, cast);
+    }
+  });
+  ctx.restore();
+
+  // The return: the letter shape stepped back one pixel at a time
+  ctx.fillStyle = returnColor;
+  eachRun((run, text) => {
+    for (let i = depth(run); i >= 1; i--) text(i, i);
+  });
+
+  // Highlight along the top-left edge, then the face. Front-lit faces glow at night.
+  ctx.fillStyle = `rgba(255,255,255,${0.5 * (1 - night)})`;
+  eachRun((_, text) => text(-scale, -scale));
+  ctx.save();
+  ctx.fillStyle = variant.lighting === LightingType.FRONT_LIT ? faceColor : underAmbient(faceColor, night);
+  eachRun((run, text) => {
+    if (variant.lighting === LightingType.FRONT_LIT && night > 0) {
+      ctx.shadowColor = faceColor;
+      ctx.shadowBlur = run.heightPx * 0.15 * night;
+    }
+    text(0, 0);
+  });
+  ctx.restore();
+
+  if (variant.stroke) {
+    ctx.lineWidth = (parseFloat(variant.strokeWidth) || 1) * scale;
+    ctx.strokeStyle = underAmbient(variant.backgroundColor || '#000', night);
+    eachRun(run => ctx.strokeText(run.text, run.x, run.baseline));
+  }
+
+  if (logo) drawLogo(ctx, logo, logoImage(logos, item), isIlluminated(item.signType, variant), true, scale, night);
+
+  return { canvas, origin };
+};
+
+/** Cabinets, panels and vinyl: a box of the sign's size with the text fitted inside. */
+const drawPanel = (item: SignLineItem, ppi: number, scale: number, night: number, logos: LogoImages): FlatSign => {
+  const variant = item.selectedVariant!;
+  const width = item.dimensions.widthIn * ppi;
+  const height = item.dimensions.heightIn * ppi;
+  const isCabinet = item.signType === SignType.LIGHTBOX || item.signType === SignType.PYLON || item.signType === SignType.BLADE;
+  const poleHeight = item.signType === SignType.PYLON
+    ? Math.max(0, (item.options.pylonHeightFt || 0) * 12 - item.dimensions.heightIn) * ppi
+    : 0;
+  const bracket = item.signType === SignType.BLADE ? Math.max(3 * scale, 2 * ppi) : 0;
+
+  const pad = Math.max(height * 0.2, 20 * scale) + bracket * 5;
+  const canvas = createCanvas(width + pad * 2, height + pad * 2 + poleHeight);
+  const origin = { x: canvas.width / 2, y: pad + height / 2 };
+  const ctx = canvas.getContext('2d')!;
+  ctx.translate(origin.x, origin.y);
+
+  if (poleHeight > 0) {
+    const poleWidth = Math.max(4 * scale, 10 * ppi);
+    const gradient = ctx.createLinearGradient(-poleWidth / 2, 0, poleWidth / 2, 0);
+    gradient.addColorStop(0, underAmbient('#555555', night));
+    gradient.addColorStop(0.4, underAmbient('#999999', night));
+    gradient.addColorStop(1, underAmbient('#444444', night));
+    ctx.fillStyle = gradient;
+    ctx.fillRect(-poleWidth / 2, height / 2, poleWidth, poleHeight);
+  }
+  if (bracket > 0) {
+    ctx.fillStyle = underAmbient('#222222', night);
+    ctx.fillRect(-width / 2 - bracket * 4, -height / 2 - bracket * 2, width + bracket * 4, bracket);
+  }
+
+  // A lit face is lit from inside, so it keeps its daytime colours
+  const isLit = isIlluminated(item.signType, variant);
+  const lit = (color: string) => isLit ? color : underAmbient(color, night);
+  const background = variant.backgroundColor || (item.signType === SignType.WINDOW_VINYL ? 'transparent' : '#fff');
+  ctx.save();
+  if (isCabinet && isLit) {
+    ctx.shadowColor = withAlpha(background, 0.5 + 0.4 * night);
+    ctx.shadowBlur = height * 0.1 * (1 + 2 * night);
+  } else if (item.signType === SignType.FLAT_PANEL) {
+    ctx.shadowColor = `rgba(0,0,0,${0.4 * (1 - night)})`;
+    ctx.shadowBlur = 4 * scale;
+    ctx.shadowOffsetX = ctx.shadowOffsetY = 2 * scale;
+  }
+  ctx.fillStyle = lit(background);
+  ctx.fillRect(-width / 2, -height / 2, width, height);
+  ctx.restore();
+
+  if (isCabinet) {
+    const border = 4 * scale;
+    ctx.lineWidth = border;
+    ctx.strokeStyle = underAmbient('#333333', night);
+    ctx.strokeRect(-width / 2 + border / 2, -height / 2 + border / 2, width - border, height - border);
+  }
+
+  if (hasLayout(item)) {
+    // Every line at its arranged size, laid out on the face from the top left
+    const arrangement = arrangeLayout(item);
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'alphabetic';
+    ctx.fillStyle = lit(variant.color || '#fff');
+    arrangement.elements.forEach(e => {
+      ctx.font = `${e.heightIn / capHeightRatio(e.fontFamily) * ppi}px "${e.fontFamily}"`;
+      ctx.letterSpacing = e.letterSpacing;
+      ctx.fillText(e.text, -width / 2 + e.xIn * ppi, -height / 2 + (e.topIn + e.heightIn) * ppi);
+    });
+    const box = arrangement.logo;
+    if (box) drawLogo(ctx, { x: -width / 2 + box.xIn * ppi, y: -height / 2 + box.topIn * ppi, width: box.widthIn * ppi, height: box.heightIn * ppi }, logoImage(logos, item), isLit, false, scale, night);
+    return { canvas, origin };
+  }
+
+  // Same guess as the live preview: 60% of the face height, shrunk to fit inside the padding
+  const inner = width - 20 * scale;
+  ctx.font = `${height * 0.6}px "${variant.fontFamily}"`;
+  ctx.letterSpacing = variant.letterSpacing;
+  const textWidth = ctx.measureText(item.text).width;
+  if (textWidth > inner && textWidth > 0) {
+    ctx.font = `${height * 0.6 * inner / textWidth}px "${variant.fontFamily}"`;
+  }
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillStyle = lit(variant.color || '#fff');
+  ctx.fillText(item.text, 0, 0);
+
+  return { canvas, origin };
+};
+
+/** Draws the source triangle s0-s1-s2 onto d0-d1-d2 with the affine map between them. */
+const drawTriangle = (
+  ctx: CanvasRenderingContext2D,
+  source: HTMLCanvasElement,
+  s0: Point, s1: Point, s2: Point,
+  d0: Point, d1: Point, d2: Point
+) => {
+  const sx1 = s1.x - s0.x, sy1 = s1.y - s0.y, sx2 = s2.x - s0.x, sy2 = s2.y - s0.y;
+  const dx1 = d1.x - d0.x, dy1 = d1.y - d0.y, dx2 = d2.x - d0.x, dy2 = d2.y - d0.y;
+  const det = sx1 * sy2 - sx2 * sy1;
+  if (det === 0) return;
+  const a = (dx1 * sy2 - dx2 * sy1) / det;
+  const c = (dx2 * sx1 - dx1 * sx2) / det;
+  const b = (dy1 * sy2 - dy2 * sy1) / det;
+  const d = (dy2 * sx1 - dy1 * sx2) / det;
+  const e = d0.x - a * s0.x - c * s0.y;
+  const f = d0.y - b * s0.x - d * s0.y;
+
+  // Grow the clip a little past the edges so neighbouring triangles don't leave seams
+  const cx = (d0.x + d1.x + d2.x) / 3;
+  const cy = (d0.y + d1.y + d2.y) / 3;
+  const grow = (p: Point): Point => {
+    const len = Math.hypot(p.x - cx, p.y - cy) || 1;
+    return { x: p.x + (p.x - cx) / len * 0.75, y: p.y + (p.y - cy) / len * 0.75 };
+  };
+  const [g0, g1, g2] = [grow(d0), grow(d1), grow(d2)];
+
+  ctx.save();
+  ctx.beginPath();
+  ctx.moveTo(g0.x, g0.y);
+  ctx.lineTo(g1.x, g1.y);
+  ctx.lineTo(g2.x, g2.y);
+  ctx.closePath();
+  ctx.clip();
+  ctx.setTransform(a, b, c, d, e, f);
+  ctx.drawImage(source, 0, 0);
+  ctx.restore();
+};
+
+/** Projects a flat canvas onto the photo through homography H, one small triangle at a time. */
+const drawWarped = (ctx: CanvasRenderingContext2D, source: HTMLCanvasElement, H: Matrix3) => {
+  const stepX = source.width / WARP_DIVISIONS;
+  const stepY = source.height / WARP_DIVISIONS;
+  for (let row = 0; row < WARP_DIVISIONS; row++) {
+    for (let col = 0; col < WARP_DIVISIONS; col++) {
+      const s00 = { x: col * stepX, y: row * stepY };
+      const s10 = { x: (col + 1) * stepX, y: row * stepY };
+      const s01 = { x: col * stepX, y: (row + 1) * stepY };
+      const s11 = { x: (col + 1) * stepX, y: (row + 1) * stepY };
+      const [d00, d10, d01, d11] = [s00, s10, s01, s11].map(p => applyHomography(H, p));
+      drawTriangle(ctx, source, s00, s10, s11, d00, d10, d11);
+      drawTriangle(ctx, source, s00, s11, s01, d00, d11, d01);
+    }
+  }
+};
+
+/**
+ * Redraws the photo with every sign that has a chosen design, at the photo's
+ * native resolution unless a width is given. Signs follow the 4-point wall
+ * plane when there is one, the same way the live preview projects them.
+ */
+export const renderMockupCanvas = async (
+  imageUrl: string,
+  items: SignLineItem[],
+  view: MockupView,
+  options: MockupOptions = {}
+): Promise<HTMLCanvasElement> => {
+  const signs = items.filter(item => item.selectedVariant);
+  await Promise.all(signs.flatMap(item => layoutElements(item).map(e => loadFont(e.fontFamily))));
+  const logos: LogoImages = new Map();
+  await Promise.all(signs.map(async item => {
+    const url = item.layout?.logo?.artwork?.imageUrl;
+    if (url && !logos.has(url)) logos.set(url, await loadImage(url));
+  }));
+  const photo = await loadImage(imageUrl);
+
+  const width = Math.round(options.width || photo.naturalWidth);
+  const scale = width / view.displaySize.width;
+  const canvas = createCanvas(width, view.displaySize.height * scale);
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(photo, 0, 0, canvas.width, canvas.height);
+
+  const night = Math.min(1, Math.max(0, options.nightLevel || 0));
+  if (night > 0) {
+    // Darken and tint the photo the same way the preview overlay does
+    ctx.save();
+    ctx.globalCompositeOperation = 'multiply';
+    ctx.fillStyle = ambientColor(night);
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.restore();
+  }
+
+  const ppi = view.pxPerInch * scale;
+  let wallToImage: Matrix3 | null = null;
+  let imageToWall: Matrix3 | null = null;
+  if (view.perspective) {
+    try {
+      wallToImage = wallToImageMatrix(view.perspective, canvas.width, canvas.height);
+      imageToWall = invertMatrix3(wallToImage);
+    } catch (e) {
+      wallToImage = null; // Degenerate calibration: fall back to the flat preview
+    }
+  }
+
+  signs.forEach(item => {
+    const flat = item.signType === SignType.CHANNEL_LETTERS
+      ? drawChannelLetters(item, ppi, scale, view.pxPerInch, night, logos)
+      : drawPanel(item, ppi, scale, night, logos);
+    const center = signCenter(item);
+    const position = { x: center.x * canvas.width, y: center.y * canvas.height };
+
+    if (!wallToImage || !imageToWall) {
+      ctx.drawImage(flat.canvas, position.x - flat.origin.x, position.y - flat.origin.y);
+      return;
+    }
+    // Flat canvas px -> wall inches around the sign's spot on the wall -> photo px
+    const wallCenter = applyHomography(imageToWall, position);
+    const flatToWall = [1 / ppi, 0, wallCenter.x - flat.origin.x / ppi, 0, 1 / ppi, wallCenter.y - flat.origin.y / ppi, 0, 0, 1];
+    drawWarped(ctx, flat.canvas, multiplyMatrix3(wallToImage, flatToWall));
+  });
+
+  if (options.callouts?.length || options.gradeLine) {
+    drawMeasurements(ctx, options.callouts || [], options.gradeLine || null, scale);
+  }
+
+  return canvas;
+};
+
+/** The rendered mockup as a data URL, e.g. for thumbnails and the PDF. */
+export const renderMockup = async (
+  imageUrl: string,
+  items: SignLineItem[],
+  view: MockupView,
+  options: MockupOptions = {}
+): Promise<string> => {
+  const canvas = await renderMockupCanvas(imageUrl, items, view, options);
+  return canvas.toDataURL(options.mimeType || 'image/jpeg', options.quality ?? 0.9);
+};
+
+/**
+ * The day mockup and the night one (at options.nightLevel, full night by
+ * default) side by side with a label over each, for client presentations.
+ */
+export const renderDayNightCanvas = async (
+  imageUrl: string,
+  items: SignLineItem[],
+  view: MockupView,
+  options: MockupOptions = {}
+): Promise<HTMLCanvasElement> => {
+  const day = await renderMockupCanvas(imageUrl, items, view, { ...options, nightLevel: 0 });
+  const night = await renderMockupCanvas(imageUrl, items, view, { ...options, nightLevel: options.nightLevel || 1 });
+  const gap = Math.round(day.width * 0.02);
+  const canvas = createCanvas(day.width * 2 + gap, day.height);
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = '#fff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(day, 0, 0);
+  ctx.drawImage(night, day.width + gap, 0);
+
+  const fontPx = Math.max(14, Math.round(day.width * 0.03));
+  ctx.font = `bold ${fontPx}px sans-serif`;
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'top';
+  ctx.fillStyle = '#fff';
+  ctx.shadowColor = 'rgba(0,0,0,0.8)';
+  ctx.shadowBlur = fontPx / 4;
+  ctx.fillText('Day', fontPx, fontPx);
+  ctx.fillText('Night', day.width + gap + fontPx, fontPx);
+  return canvas;
+};
+
+const downloadCanvas = async (canvas: HTMLCanvasElement, fileName: string, options: MockupOptions) => {
+  const mimeType = options.mimeType || 'image/png';
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, mimeType, options.quality ?? 0.92));
+  if (!blob) throw new Error("The browser could not encode the mockup");
+
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/** Renders the mockup and downloads it as a PNG or JPEG file. */
+export const downloadMockup = async (
+  imageUrl: string,
+  items: SignLineItem[],
+  view: MockupView,
+  fileName: string,
+  options: MockupOptions = {}
+): Promise<void> =>
+  downloadCanvas(await renderMockupCanvas(imageUrl, items, view, options), fileName, options);
+
+/** Downloads the day and night mockups side by side as one image. */
+export const downloadDayNightMockup = async (
+  imageUrl: string,
+  items: SignLineItem[],
+  view: MockupView,
+  fileName: string,
+  options: MockupOptions = {}
+): Promise<void> =>
+  downloadCanvas(await renderDayNightCanvas(imageUrl, items, view, options), fileName, options);
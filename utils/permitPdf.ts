@@ -0,0 +1,361 @@
+import jsPDF from 'jspdf';
+import { BrandTemplate, InstallConfig, PermitTemplate, PricingRulebook, QuoteResult, SignLineItem, SignType } from "../types";
+import { BLADE_STANDOFF_IN, ComplianceResult, ComplianceSite, formatClock, signAreaSqFt } from "./compliance";
+import { describePowerSupplies } from "./electrical";
+import { formatFeetInches } from "./format";
+import { describeLineItem } from "./job";
+import { arrangeLayout, LayoutBox } from "./layout";
+import { drawLetterhead } from "./proposalPdf";
+
+// In mm, for A4 and letter alike
+const MARGIN = 20;
+const CONTENT_TOP = 42;
+const FOOTER_SPACE = 20;
+// Tallest an elevation is drawn, so two usually fit on a page
+const ELEVATION_MAX_HEIGHT = 80;
+// Helvetica's cap height as a share of its size, and mm per pt
+const CAP_HEIGHT = 0.72;
+const MM_PER_PT = 0.3528;
+
+export interface PermitPackageData {
+  template: PermitTemplate;
+  brand: BrandTemplate; // the applicant: us
+  compliance: ComplianceResult;
+  site: ComplianceSite;
+  quote: QuoteResult;
+  items: SignLineItem[];
+  installConfig: InstallConfig;
+  rulebook: PricingRulebook;
+  quoteNumber: string;
+  sitePhoto: { dataUrl: string; width: number; height: number } | null; // mockup with dimension callouts
+  mounting: Record<string, string[]>; // by line item id, as the shop drawing describes it
+  date?: Date;
+}
+
+const imageFormat = (dataUrl: string): string => dataUrl.startsWith('data:image/png') ? 'PNG' : 'JPEG';
+
+const sqft = (value: number) => `${value.toFixed(1)} sqft`;
+
+/**
+ * Permit submission for the job's signs: application page, site photo with
+ * dimensions, an elevation of each sign with its area, the electrical summary
+ * and how each sign is mounted, in the pages and order the city's template asks for.
+ */
+export const buildPermitPackage = (data: PermitPackageData): jsPDF => {
+  const { template, brand, compliance, site, quote, items, installConfig, rulebook, quoteNumber, sitePhoto, mounting } = data;
+  const date = data.date || new Date();
+  const signs = quote.lines
+    .map(line => ({ line, item: items.find(i => i.id === line.itemId) }))
+    .filter((entry): entry is { line: QuoteResult['lines'][number]; item: SignLineItem } => !!entry.item?.selectedVariant);
+  const doc = new jsPDF({ format: template.pageSize });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - MARGIN * 2;
+  const contentBottom = pageHeight - FOOTER_SPACE;
+  let y = CONTENT_TOP;
+  let pageCount = 0;
+
+  const startPage = () => {
+    if (pageCount > 0) doc.addPage();
+    pageCount++;
+    drawLetterhead(doc, brand);
+    doc.setLineWidth(0.2);
+    y = CONTENT_TOP;
+  };
+
+  const ensureSpace = (needed: number) => {
+    if (y + needed > contentBottom) startPage();
+  };
+
+  const heading = (title: string) => {
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(16);
+    doc.setTextColor(brand.accentColor);
+    doc.text(title, MARGIN, y);
+    doc.setTextColor('#000000');
+    y += 10;
+  };
+
+  const subheading = (title: string) => {
+    ensureSpace(12);
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(11);
+    doc.text(title, MARGIN, y);
+    y += 6;
+  };
+
+  const paragraph = (text: string, size: number = 10, indent: number = 0) => {
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(size);
+    const lines: string[] = doc.splitTextToSize(text, contentWidth - indent);
+    const lineHeight = size * 0.45;
+    lines.forEach(line => {
+      ensureSpace(lineHeight);
+      doc.text(line, MARGIN + indent, y);
+      y += lineHeight;
+    });
+  };
+
+  const labelled = (label: string, value: string, x: number = MARGIN, labelWidth: number = 32) => {
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(10);
+    if (label) doc.text(label, x, y);
+    doc.setFont("helvetica", "normal");
+    doc.text(value, x + labelWidth, y);
+  };
+
+  const drawApplication = () => {
+    startPage();
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(20);
+    doc.setTextColor(brand.accentColor);
+    doc.text(template.title, MARGIN, y + 4);
+    doc.setTextColor('#000000');
+    y += 12;
+    if (compliance.pack) {
+      paragraph(`${compliance.pack.municipality} · ${compliance.pack.source}`, 10);
+      y += 4;
+    }
+
+    // The business and site on the left, us as the applicant on the right
+    const half = MARGIN + contentWidth / 2;
+    const left: [string, string][] = [['Business', installConfig.clientName || '—'], ['Site address', installConfig.address || '—'], ['Date', date.toLocaleDateString()]];
+    const right = [brand.companyName, ...brand.letterhead.slice(0, 3), `Ref. ${quoteNumber}`];
+    for (let row = 0; row < Math.max(left.length, right.length); row++) {
+      if (left[row]) labelled(left[row][0], doc.splitTextToSize(left[row][1], contentWidth / 2 - 34)[0]);
+      if (right[row]) labelled(row === 0 ? 'Applicant' : '', right[row], half, 24);
+      y += 6;
+    }
+    y += 4;
+
+    subheading('Proposed signs');
+    const columns = [MARGIN, MARGIN + 8, MARGIN + 85, MARGIN + 120, MARGIN + 145];
+    doc.setFontSize(9);
+    doc.setFillColor('#f1f5f9');
+    doc.rect(MARGIN, y - 4, contentWidth, 6, 'F');
+    ['#', 'Sign', 'Size (W x H)', 'Area', 'Illuminated'].forEach((title, i) => doc.text(title, columns[i] + 1, y));
+    y += 6;
+    doc.setFont("helvetica", "normal");
+    let totalArea = 0;
+    signs.forEach(({ line, item }, idx) => {
+      const size = arrangeLayout(item);
+      const area = signAreaSqFt(item);
+      totalArea += area;
+      ensureSpace(5);
+      const faces = (item.signType === SignType.BLADE || item.signType === SignType.PYLON) && item.options.doubleSided ? ' x 2 faces' : '';
+      [String(idx + 1), describeLineItem(item), `${formatFeetInches(size.widthIn)} x ${formatFeetInches(size.heightIn)}`, `${sqft(area)}${faces}`, line.electrical ? 'Yes' : 'No']
+        .forEach((cell, i) => doc.text(i === 1 ? doc.splitTextToSize(cell, 75)[0] : cell, columns[i] + 1, y));
+      y += 5;
+    });
+    doc.setFont("helvetica", "bold");
+    doc.text(`Total sign area: ${sqft(totalArea)}`, columns[3] + 1, y + 1);
+    y += 10;
+
+    if (compliance.pack) {
+      subheading('Bylaw check');
+      if (site.frontageWidthIn && site.frontageHeightIn) {
+        paragraph(`Frontage: ${formatFeetInches(site.frontageWidthIn)} wide x ${formatFeetInches(site.frontageHeightIn)} high (${sqft(site.frontageWidthIn * site.frontageHeightIn / 144)}).`, 9);
+      }
+      const violations = compliance.issues.filter(i => i.severity === 'VIOLATION');
+      if (violations.length > 0) {
+        paragraph('Variance requested for:', 9);
+        violations.forEach(issue => paragraph(`- ${issue.message}`, 9, 4));
+      } else {
+        paragraph(`The signs are within the bylaw limits (${compliance.pack.source}).`, 9);
+      }
+      y += 4;
+    }
+
+    if (template.fields.length > 0) {
+      subheading('To be completed');
+      template.fields.forEach(field => {
+        ensureSpace(10);
+        y += 4;
+        doc.setFont("helvetica", "normal");
+        doc.setFontSize(9);
+        doc.text(field, MARGIN, y);
+        doc.line(MARGIN + 55, y, pageWidth - MARGIN, y);
+        y += 4;
+      });
+      y += 4;
+    }
+
+    if (template.instructions.length > 0) {
+      subheading('Submission notes');
+      template.instructions.forEach(note => {
+        paragraph(note, 9);
+        y += 2;
+      });
+    }
+  };
+
+  const drawSitePhoto = () => {
+    startPage();
+    heading('Site Photo');
+    if (!sitePhoto) {
+      paragraph('No site photo was taken for this job.');
+      return;
+    }
+    const maxHeight = contentBottom - y - 15;
+    let width = contentWidth;
+    let height = width * sitePhoto.height / sitePhoto.width;
+    if (height > maxHeight) {
+      height = maxHeight;
+      width = height * sitePhoto.width / sitePhoto.height;
+    }
+    doc.addImage(sitePhoto.dataUrl, imageFormat(sitePhoto.dataUrl), MARGIN + (contentWidth - width) / 2, y, width, height);
+    y += height + 6;
+    paragraph(`Proposed signs shown on the existing storefront at ${installConfig.address || 'the site'}. Dimensions in feet and inches.`, 9);
+  };
+
+  // A horizontal or vertical dimension line with ticks and its label, in mm
+  const dimension = (x1: number, y1: number, x2: number, y2: number, label: string) => {
+    doc.setDrawColor('#b45309');
+    doc.setTextColor('#b45309');
+    doc.line(x1, y1, x2, y2);
+    const vertical = x1 === x2;
+    [[x1, y1], [x2, y2]].forEach(([x, yy]) => vertical ? doc.line(x - 1.5, yy, x + 1.5, yy) : doc.line(x, yy - 1.5, x, yy + 1.5));
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(8);
+    if (vertical) {
+      doc.text(label, x1 + 2, (y1 + y2) / 2 + 1);
+    } else {
+      doc.text(label, (x1 + x2) / 2, y1 - 1.5, { align: 'center' });
+    }
+    doc.setDrawColor('#000000');
+    doc.setTextColor('#000000');
+  };
+
+  const drawElevation = (item: SignLineItem, idx: number) => {
+    const arrangement = arrangeLayout(item);
+    const { widthIn, heightIn } = arrangement;
+    const isLetters = item.signType === SignType.CHANNEL_LETTERS;
+    const isBlade = item.signType === SignType.BLADE;
+    const isPylon = item.signType === SignType.PYLON;
+    const poleIn = isPylon ? Math.max(0, (item.options.pylonHeightFt || 0) * 12 - heightIn) : 0;
+    const bracketIn = isBlade ? BLADE_STANDOFF_IN : 0;
+    // Room for the dimensions left and right of the drawing
+    const scale = Math.min((contentWidth - 40) / Math.max(1, widthIn + bracketIn), ELEVATION_MAX_HEIGHT / Math.max(1, heightIn + poleIn));
+    const drawnHeight = (heightIn + poleIn) * scale;
+
+    ensureSpace(drawnHeight + 45);
+    subheading(`${idx + 1}. ${describeLineItem(item)}`);
+    y += 6;
+    const x0 = MARGIN + 15 + bracketIn * scale;
+    const y0 = y;
+    const box = (b: LayoutBox) => ({ x: x0 + b.xIn * scale, y: y0 + b.topIn * scale, w: b.widthIn * scale, h: b.heightIn * scale });
+
+    // Letters: the box the area is measured in. Everything else: the face.
+    if (isLetters) doc.setLineDashPattern([1, 1], 0);
+    doc.rect(x0, y0, widthIn * scale, heightIn * scale);
+    doc.setLineDashPattern([], 0);
+
+    arrangement.elements.forEach(element => {
+      const b = box(element);
+      let size = b.h / CAP_HEIGHT / MM_PER_PT;
+      doc.setFont("helvetica", "bold");
+      doc.setFontSize(size);
+      const textWidth = doc.getTextWidth(element.text);
+      if (textWidth > b.w && textWidth > 0) {
+        size *= b.w / textWidth;
+        doc.setFontSize(size);
+      }
+      doc.text(element.text, b.x + b.w / 2, b.y + b.h, { align: 'center' });
+    });
+    if (arrangement.logo) {
+      const b = box(arrangement.logo);
+      doc.setDrawColor('#64748b');
+      doc.rect(b.x, b.y, b.w, b.h);
+      doc.setFont("helvetica", "normal");
+      doc.setFontSize(7);
+      doc.text('LOGO', b.x + b.w / 2, b.y + b.h / 2 + 1, { align: 'center' });
+      doc.setDrawColor('#000000');
+    }
+
+    const right = x0 + widthIn * scale;
+    const bottom = y0 + heightIn * scale;
+    if (isBlade) {
+      // Bracket back to the wall
+      doc.line(MARGIN + 15, y0 - 4, MARGIN + 15, bottom + 4);
+      doc.line(MARGIN + 15, y0, x0, y0);
+      dimension(MARGIN + 15, bottom + 5, right, bottom + 5, `${formatFeetInches(widthIn + bracketIn)} projection`);
+    }
+    if (isPylon && poleIn > 0) {
+      const poleX = x0 + widthIn * scale / 2;
+      doc.rect(poleX - 1.5, bottom, 3, poleIn * scale);
+      doc.line(x0 - 8, bottom + poleIn * scale, right + 8, bottom + poleIn * scale);
+      dimension(right + 12, y0, right + 12, bottom + poleIn * scale, `${formatFeetInches(heightIn + poleIn)} overall`);
+    }
+    dimension(x0, y0 - 3, right, y0 - 3, formatFeetInches(widthIn));
+    dimension(right + 3, y0, right + 3, bottom, formatFeetInches(heightIn));
+    y += drawnHeight + (isBlade ? 12 : 6);
+
+    const area = signAreaSqFt(item);
+    const notes = [`Area: ${formatFeetInches(widthIn)} x ${formatFeetInches(heightIn)} = ${sqft(area)}${isLetters ? ', measured round the copy' : ''}`];
+    if ((isBlade || isPylon) && item.options.doubleSided) notes.push(`Double-sided: ${sqft(area * 2)} over both faces`);
+    const clearance = site.clearanceIn[item.id];
+    if (clearance !== undefined) notes.push(`Clearance above grade: ${formatFeetInches(clearance)}`);
+    notes.forEach(note => paragraph(note, 9));
+    y += 8;
+  };
+
+  const drawElevations = () => {
+    startPage();
+    heading('Sign Elevations');
+    signs.forEach(({ item }, idx) => drawElevation(item, idx));
+  };
+
+  const drawElectrical = () => {
+    startPage();
+    heading('Electrical');
+    const lit = signs.filter(({ line }) => line.electrical);
+    if (lit.length === 0) {
+      paragraph('None of the signs are illuminated; no electrical work is required.');
+      return;
+    }
+    lit.forEach(({ line, item }) => {
+      const bom = line.electrical!;
+      subheading(describeLineItem(item));
+      paragraph(`${bom.ledModules} LED modules on ${describePowerSupplies(bom)} power supplies`, 10, 4);
+      paragraph(`LED load ${bom.loadWatts.toFixed(0)}W; ${bom.inputWatts.toFixed(0)}W (${bom.amps.toFixed(1)}A) from the line at ${rulebook.ELECTRICAL.LINE_VOLTAGE}V`, 10, 4);
+      y += 3;
+    });
+    if (quote.electrical) {
+      subheading('Total');
+      paragraph(`${quote.electrical.inputWatts.toFixed(0)}W, ${quote.electrical.amps.toFixed(1)}A at ${rulebook.ELECTRICAL.LINE_VOLTAGE}V on ${quote.electrical.circuits} x ${rulebook.ELECTRICAL.CIRCUIT_AMPS}A circuit${quote.electrical.circuits === 1 ? '' : 's'}`, 10, 4);
+      y += 3;
+    }
+    const curfew = compliance.pack?.illumination?.curfew;
+    if (curfew) paragraph(`Illuminated signs are on a timer, off from ${formatClock(curfew.from)} to ${formatClock(curfew.until)}.`, 10);
+  };
+
+  const drawMounting = () => {
+    startPage();
+    heading('Mounting');
+    signs.forEach(({ item }, idx) => {
+      subheading(`${idx + 1}. ${describeLineItem(item)}`);
+      const lines = mounting[item.id] || [];
+      (lines.length > 0 ? lines : ['As detailed on the shop drawing']).forEach(line => paragraph(`- ${line}`, 10, 4));
+      if (item.signType !== SignType.WINDOW_VINYL && item.signType !== SignType.PYLON) {
+        paragraph(`- Installed about ${installConfig.heightFeet} ft above grade`, 10, 4);
+      }
+      y += 3;
+    });
+  };
+
+  const pages = { APPLICATION: drawApplication, SITE_PHOTO: drawSitePhoto, ELEVATIONS: drawElevations, ELECTRICAL: drawElectrical, MOUNTING: drawMounting };
+  template.sections.forEach(section => pages[section]());
+  if (pageCount === 0) startPage();
+
+  const pagesTotal = doc.getNumberOfPages();
+  for (let page = 1; page <= pagesTotal; page++) {
+    doc.setPage(page);
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(7);
+    doc.setTextColor('#888888');
+    doc.text(`${template.title} · ${installConfig.address || quoteNumber}`, MARGIN, pageHeight - 10);
+    doc.text(`Page ${page} of ${pagesTotal}`, pageWidth - MARGIN, pageHeight - 10, { align: 'right' });
+  }
+  doc.setTextColor('#000000');
+  return doc;
+};
@@ -0,0 +1,160 @@
+import { PerspectiveCalibration } from "../types";
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Row-major 3x3 matrix: [h0 h1 h2; h3 h4 h5; h6 h7 h8]
+export type Matrix3 = number[];
+
+// Gaussian elimination with partial pivoting
+const solveLinear = (A: number[][], b: number[]): number[] => {
+  const n = b.length;
+  const m = A.map((row, i) => [...row, b[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+    }
+    if (Math.abs(m[pivot][col]) < 1e-12) {
+      throw new Error("Calibration points are degenerate (three corners in a line?)");
+    }
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = m[row][col] / m[col][col];
+      for (let k = col; k <= n; k++) m[row][k] -= factor * m[col][k];
+    }
+  }
+
+  const x = new Array(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = m[row][n];
+    for (let k = row + 1; k < n; k++) sum -= m[row][k] * x[k];
+    x[row] = sum / m[row][row];
+  }
+  return x;
+};
+
+/** Homography that maps each of the four `src` points onto the matching `dst` point. */
+export const computeHomography = (src: Point[], dst: Point[]): Matrix3 => {
+  const A: number[][] = [];
+  const b: number[] = [];
+  for (let i = 0; i < 4; i++) {
+    const { x, y } = src[i];
+    const { x: u, y: v } = dst[i];
+    A.push([x, y, 1, 0, 0, 0, -u * x, -u * y]);
+    b.push(u);
+    A.push([0, 0, 0, x, y, 1, -v * x, -v * y]);
+    b.push(v);
+  }
+  return [...solveLinear(A, b), 1];
+};
+
+export const applyHomography = (H: Matrix3, p: Point): Point => {
+  const w = H[6] * p.x + H[7] * p.y + H[8];
+  return {
+    x: (H[0] * p.x + H[1] * p.y + H[2]) / w,
+    y: (H[3] * p.x + H[4] * p.y + H[5]) / w
+  };
+};
+
+export const multiplyMatrix3 = (A: Matrix3, B: Matrix3): Matrix3 => {
+  const out: Matrix3 = new Array(9).fill(0);
+  for (let r = 0; r < 3; r++) {
+    for (let c = 0; c < 3; c++) {
+      out[r * 3 + c] = A[r * 3] * B[c] + A[r * 3 + 1] * B[3 + c] + A[r * 3 + 2] * B[6 + c];
+    }
+  }
+  return out;
+};
+
+export const invertMatrix3 = (m: Matrix3): Matrix3 => {
+  const [a, b, c, d, e, f, g, h, i] = m;
+  const A = e * i - f * h;
+  const B = -(d * i - f * g);
+  const C = d * h - e * g;
+  const det = a * A + b * B + c * C;
+  if (Math.abs(det) < 1e-12) throw new Error("Homography is not invertible");
+  return [
+    A / det, -(b * i - c * h) / det, (b * f - c * e) / det,
+    B / det, (a * i - c * g) / det, -(a * f - c * d) / det,
+    C / det, -(a * h - b * g) / det, (a * e - b * d) / det
+  ];
+};
+
+/** CSS transform that applies H to an element with `transform-origin: 0 0`. */
+export const toCssMatrix3d = (H: Matrix3): string =>
+  `matrix3d(${H[0]}, ${H[3]}, 0, ${H[6]}, ${H[1]}, ${H[4]}, 0, ${H[7]}, 0, 0, 1, 0, ${H[2]}, ${H[5]}, 0, ${H[8]})`;
+
+const distance = (a: Point, b: Point) => Math.hypot(b.x - a.x, b.y - a.y);
+
+/**
+ * Maps wall-plane inches (origin at the reference rectangle's top-left corner)
+ * to photo pixels for a photo displayed at `width` x `height`.
+ */
+export const wallToImageMatrix = (calibration: PerspectiveCalibration, width: number, height: number): Matrix3 => {
+  const { widthIn, heightIn, corners } = calibration;
+  const wallRect: Point[] = [
+    { x: 0, y: 0 },
+    { x: widthIn, y: 0 },
+    { x: widthIn, y: heightIn },
+    { x: 0, y: heightIn }
+  ];
+  const toPixels = corners.map(c => ({ x: c.x * width, y: c.y * height }));
+  return computeHomography(wallRect, toPixels);
+};
+
+/**
+ * Average pixels-per-inch across the reference rectangle. Used wherever a single
+ * scale is still needed (flat previews, exports) when the photo is calibrated in 4-point mode.
+ */
+export const averagePxPerInch = (calibration: PerspectiveCalibration, width: number, height: number): number => {
+  const [tl, tr, br, bl] = calibration.corners.map(c => ({ x: c.x * width, y: c.y * height }));
+  const horizontal = (distance(tl, tr) + distance(bl, br)) / 2 / calibration.widthIn;
+  const vertical = (distance(tl, bl) + distance(tr, br)) / 2 / calibration.heightIn;
+  return (horizontal + vertical) / 2;
+};
+
+/**
+ * A photo point (0-1 of the photo) in wall inches. Uses the wall plane when
+ * 4-point calibrated, otherwise the flat px/in scale from the photo's top-left.
+ */
+export const photoToWall = (
+  p: Point,
+  photoSize: { width: number; height: number },
+  pxPerInch: number,
+  perspective?: PerspectiveCalibration | null
+): Point => {
+  const px = { x: p.x * photoSize.width, y: p.y * photoSize.height };
+  if (perspective) {
+    const imageToWall = invertMatrix3(wallToImageMatrix(perspective, photoSize.width, photoSize.height));
+    return applyHomography(imageToWall, px);
+  }
+  return { x: px.x / pxPerInch, y: px.y / pxPerInch };
+};
+
+/** The inverse of photoToWall: wall inches back to 0-1 of the photo. */
+export const wallToPhoto = (
+  p: Point,
+  photoSize: { width: number; height: number },
+  pxPerInch: number,
+  perspective?: PerspectiveCalibration | null
+): Point => {
+  const px = perspective
+    ? applyHomography(wallToImageMatrix(perspective, photoSize.width, photoSize.height), p)
+    : { x: p.x * pxPerInch, y: p.y * pxPerInch };
+  return { x: px.x / photoSize.width, y: px.y / photoSize.height };
+};
+
+/** Real-world distance in inches between two photo points (0-1 of the photo). */
+export const imageDistanceInches = (
+  a: Point,
+  b: Point,
+  photoSize: { width: number; height: number },
+  pxPerInch: number,
+  perspective?: PerspectiveCalibration | null
+): number =>
+  distance(photoToWall(a, photoSize, pxPerInch, perspective), photoToWall(b, photoSize, pxPerInch, perspective));
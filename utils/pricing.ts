@@ -1,160 +1,356 @@
 import { PRICING } from "../constants";
-import { SignType, LightingType, InstallConfig, QuoteResult, DesignVariant } from "../types";
+import { SignType, LightingType, InstallConfig, QuoteResult, QuoteLine, DesignVariant, PricingRulebook, SignLineItem, LetterCost, ElectricalBom, JobElectrical, PriceLineItem } from "../types";
+import { formatPercent, roundMoney } from "./format";
+import { calculateTaxes, resolveTaxProfile } from "./tax";
+import { buildElectricalBom, letterLedModules, summarizeElectrical } from "./electrical";
+import { LineItemInput, makeLineItem, makeNote, sumLineItems } from "./lineItems";
+import { layoutElements, overallSizeIn, TextElement } from "./layout";
+import { logoGeometry } from "./logo";
 
-export const calculateQuote = (
-  signType: SignType,
-  dimensions: { widthIn: number; heightIn: number },
-  text: string,
+interface FabricationResult {
+  fabCost: number;
+  fabItems: PriceLineItem[];
+  letterBreakdown?: LetterCost[];
+  electrical?: ElectricalBom;
+}
+
+interface InstallationResult {
+  installationCost: number;
+  installLabor: number;
+  installLift: number;
+  installItems: PriceLineItem[];
+}
+
+/** Fabrication for a single sign line, including its minimum and rush surcharge. */
+export const calculateFabrication = (
+  item: SignLineItem,
   variant: DesignVariant,
-  installConfig: InstallConfig,
   isRush: boolean,
-  hasLamination: boolean = false,
-  lightboxDepth: number = 4
-): QuoteResult => {
-  let fabCost = 0;
-  const fabAdders: string[] = [];
+  rulebook: PricingRulebook = PRICING
+): FabricationResult => {
+  const { signType, dimensions, text, options } = item;
+  const { hasLamination = false, lightboxDepth = 4, pylonHeightFt = 0, doubleSided = true, isReface = false, channelPricing = 'PER_LETTER', returnDepthIn } = options;
+  const fabItems: PriceLineItem[] = [];
+  let letterBreakdown: LetterCost[] | undefined;
+
+  // Adds a fabrication row and returns its rounded amount
+  const add = (input: Omit<LineItemInput, 'category'> & { category?: LineItemInput['category'] }): number => {
+    const lineItem = makeLineItem({ category: 'FABRICATION', ...input });
+    fabItems.push(lineItem);
+    return lineItem.amount;
+  };
+
+  // Tops the line up to the sign type's minimum with an explicit adjustment row
+  const applyMinimum = (rawCost: number, minPrice: number, label = 'Minimum pricing applied') => {
+    if (rawCost >= minPrice) return;
+    add({ code: 'MINIMUM', label, quantity: 1, unit: 'job', unitPrice: roundMoney(minPrice - rawCost), category: 'ADJUSTMENT' });
+  };
+
+  // LEDs and power supplies for lit signs. Only perimeter-priced letters are charged for them
+  // at parts cost; everything else has a flat lighting adder, and the BOM just sizes the wiring.
+  const electrical = buildElectricalBom(item, variant, rulebook) || undefined;
+  const electricalPartsCost = (): number => {
+    if (!electrical) return 0;
+    return add({ code: 'LED_MODULES', label: 'LED modules', quantity: electrical.ledModules, unit: 'ea', unitPrice: rulebook.ELECTRICAL.LED_MODULE_COST, category: 'ELECTRICAL' })
+      + add({ code: 'POWER_SUPPLIES', label: `Power supplies (${electrical.powerSupply.watts}W)`, quantity: electrical.powerSupplyCount, unit: 'ea', unitPrice: electrical.powerSupply.cost, category: 'ELECTRICAL' });
+  };
 
   // --- Fabrication Calculation ---
   if (signType === SignType.CHANNEL_LETTERS) {
-    const rules = PRICING.FABRICATION[SignType.CHANNEL_LETTERS];
-    const letterCount = text.replace(/\s/g, '').length;
-    
+    const rules = rulebook.FABRICATION[SignType.CHANNEL_LETTERS];
+    // Each line of copy is counted at its own height. Measured metrics (from the
+    // chosen font) take precedence over counting characters.
+    const elements = layoutElements(item, variant);
+    const isMultiLine = elements.length > 1;
+    const elementLetters = (e: TextElement) => e.metrics ? e.metrics.glyphs.length : e.text.replace(/\s/g, '').length;
+    const letterCount = elements.reduce((sum, e) => sum + elementLetters(e), 0);
+    const allMeasured = elements.every(e => e.metrics);
+
     let rawCost = 0;
-    // Base cost per letter
-    const baseLettersCost = letterCount * rules.BASE_PER_LETTER;
-    fabAdders.push(`${letterCount} Letters Base @ $${rules.BASE_PER_LETTER}: $${baseLettersCost.toFixed(2)}`);
-    rawCost += baseLettersCost;
+    if (channelPricing === 'PERIMETER' && allMeasured) {
+      // Return metal by length and depth, faces by area; LEDs come from the electrical BOM
+      const depthIn = returnDepthIn || rules.DEFAULT_RETURN_DEPTH;
+      letterBreakdown = elements.flatMap(e => e.metrics!.glyphs).map(g => {
+        const returnFt = g.perimeterIn / 12;
+        const faceSqFt = g.faceAreaSqIn / 144;
+        const ledModules = electrical ? letterLedModules(faceSqFt, rulebook) : 0;
+        const cost = returnFt * depthIn * rules.RETURN_PER_FT_PER_INCH
+          + faceSqFt * rules.FACE_PER_SQFT
+          + ledModules * rulebook.ELECTRICAL.LED_MODULE_COST;
+        return { char: g.char, returnFt, faceSqFt, ledModules, cost };
+      });
 
-    // Height cost
-    const heightCost = letterCount * dimensions.heightIn * rules.PER_INCH_HEIGHT;
-    fabAdders.push(`Height Adder (${dimensions.heightIn}"): $${heightCost.toFixed(2)}`);
-    rawCost += heightCost;
+      const returnFt = letterBreakdown.reduce((sum, l) => sum + l.returnFt, 0);
+      rawCost += add({ code: 'CL_RETURNS', label: `Returns, ${depthIn}" deep`, quantity: returnFt, unit: 'ft', unitPrice: depthIn * rules.RETURN_PER_FT_PER_INCH });
 
-    // Lighting
-    if (variant.lighting === LightingType.FRONT_LIT) {
-      const litCost = letterCount * rules.LIGHTING_ADDER.FRONT_LIT;
-      fabAdders.push(`Front Lit Upgrade: $${litCost.toFixed(2)}`);
-      rawCost += litCost;
-    } else if (variant.lighting === LightingType.BACK_LIT) {
-      const litCost = letterCount * rules.LIGHTING_ADDER.BACK_LIT;
-      fabAdders.push(`Back Lit Upgrade: $${litCost.toFixed(2)}`);
-      rawCost += litCost;
+      const faceSqFt = letterBreakdown.reduce((sum, l) => sum + l.faceSqFt, 0);
+      rawCost += add({ code: 'CL_FACES', label: 'Letter faces', quantity: faceSqFt, unit: 'sqft', unitPrice: rules.FACE_PER_SQFT });
+      rawCost += electricalPartsCost();
+    } else {
+      if (channelPricing === 'PERIMETER') {
+        fabItems.push(makeNote('Perimeter pricing needs measured letters; priced per letter', 'FABRICATION'));
+      }
+
+      // Base cost per letter
+      rawCost += add({ code: 'CL_LETTERS', label: 'Letters base', quantity: letterCount, unit: 'letter', unitPrice: rules.BASE_PER_LETTER });
+
+      // Height cost; measured letters are charged by their actual ink height
+      elements.forEach(e => {
+        const line = isMultiLine ? `, "${e.text}"` : '';
+        if (e.metrics) {
+          const inkInches = e.metrics.glyphs.reduce((sum, g) => sum + g.inkHeightIn, 0);
+          rawCost += add({ code: 'CL_HEIGHT', label: `Height adder (measured${line})`, quantity: inkInches, unit: 'in', unitPrice: rules.PER_INCH_HEIGHT });
+        } else {
+          rawCost += add({ code: 'CL_HEIGHT', label: `Height adder (${e.heightIn}" letters${line})`, quantity: elementLetters(e) * e.heightIn, unit: 'in', unitPrice: rules.PER_INCH_HEIGHT });
+        }
+      });
+
+      // Lighting
+      if (variant.lighting === LightingType.FRONT_LIT) {
+        rawCost += add({ code: 'CL_FRONT_LIT', label: 'Front lit upgrade', quantity: letterCount, unit: 'letter', unitPrice: rules.LIGHTING_ADDER.FRONT_LIT });
+      } else if (variant.lighting === LightingType.BACK_LIT) {
+        rawCost += add({ code: 'CL_BACK_LIT', label: 'Back lit upgrade', quantity: letterCount, unit: 'letter', unitPrice: rules.LIGHTING_ADDER.BACK_LIT });
+      }
     }
 
     // Backer
     if (variant.roundedBacker) {
-      fabAdders.push(`Raceway/Backer: $${rules.BACKER_ADDER.toFixed(2)}`);
-      rawCost += rules.BACKER_ADDER;
+      rawCost += add({ code: 'CL_BACKER', label: 'Raceway/backer', quantity: 1, unit: 'ea', unitPrice: rules.BACKER_ADDER });
+      if (allMeasured) {
+        rawCost += add({ code: 'CL_BACKER_RUN', label: 'Raceway/backer run', quantity: overallSizeIn(item).widthIn / 12, unit: 'ft', unitPrice: rules.BACKER_PER_FT });
+      }
     }
 
-    fabCost = Math.max(rawCost, rules.MIN_PRICE);
-    if (fabCost === rules.MIN_PRICE && rawCost < rules.MIN_PRICE) {
-      fabAdders.push(`Minimum Pricing Applied: $${rules.MIN_PRICE}`);
-    }
+    applyMinimum(rawCost, rules.MIN_PRICE);
 
   } else if (signType === SignType.LIGHTBOX) {
-    const rules = PRICING.FABRICATION[SignType.LIGHTBOX];
+    const rules = rulebook.FABRICATION[SignType.LIGHTBOX];
     const sqft = (dimensions.widthIn * dimensions.heightIn) / 144;
-    
-    let rawCost = sqft * rules.PER_SQFT;
-    fabAdders.push(`Size ${sqft.toFixed(1)} sqft @ $${rules.PER_SQFT}: $${rawCost.toFixed(2)}`);
+
+    let rawCost = add({ code: 'LB_CABINET', label: 'Cabinet', quantity: sqft, unit: 'sqft', unitPrice: rules.PER_SQFT });
 
     // Depth
     if (lightboxDepth > rules.DEPTH_BASE) {
       const depthExcess = lightboxDepth - rules.DEPTH_BASE;
-      const depthCost = depthExcess * rules.DEPTH_ADDER_PER_INCH;
-      fabAdders.push(`Depth Adder (${depthExcess}" extra): $${depthCost.toFixed(2)}`);
-      rawCost += depthCost;
+      rawCost += add({ code: 'LB_DEPTH', label: 'Extra depth', quantity: depthExcess, unit: 'in', unitPrice: rules.DEPTH_ADDER_PER_INCH });
     }
 
     // Lighting (Assumed flat for lightbox based on simplified rules, or could be per sqft, but adhering to prompt "Lighting adder: 160")
     if (variant.lighting === LightingType.FRONT_LIT) {
-      fabAdders.push(`Internal Illumination: $${rules.LIGHTING_ADDER_FRONT_LIT}`);
-      rawCost += rules.LIGHTING_ADDER_FRONT_LIT;
+      rawCost += add({ code: 'LB_LIGHTING', label: 'Internal illumination', quantity: 1, unit: 'ea', unitPrice: rules.LIGHTING_ADDER_FRONT_LIT });
     }
 
-    fabCost = Math.max(rawCost, rules.MIN_PRICE);
-    if (fabCost === rules.MIN_PRICE && rawCost < rules.MIN_PRICE) {
-      fabAdders.push(`Minimum Pricing Applied: $${rules.MIN_PRICE}`);
-    }
+    applyMinimum(rawCost, rules.MIN_PRICE);
 
   } else if (signType === SignType.WINDOW_VINYL) {
-    const rules = PRICING.FABRICATION[SignType.WINDOW_VINYL];
+    const rules = rulebook.FABRICATION[SignType.WINDOW_VINYL];
     const sqft = (dimensions.widthIn * dimensions.heightIn) / 144;
-    
-    let rawCost = sqft * rules.PER_SQFT;
-    fabAdders.push(`Size ${sqft.toFixed(1)} sqft @ $${rules.PER_SQFT}: $${rawCost.toFixed(2)}`);
+
+    const vinylCost = add({ code: 'WV_VINYL', label: 'Vinyl', quantity: sqft, unit: 'sqft', unitPrice: rules.PER_SQFT });
+    let rawCost = vinylCost;
 
     if (hasLamination) {
-      const lamCost = rawCost * rules.LAMINATION_PERCENT;
-      fabAdders.push(`Lamination (+25%): $${lamCost.toFixed(2)}`);
-      rawCost += lamCost;
+      rawCost += add({ code: 'WV_LAMINATION', label: `Lamination (+${formatPercent(rules.LAMINATION_PERCENT)})`, quantity: 1, unit: 'job', unitPrice: vinylCost * rules.LAMINATION_PERCENT });
+    }
+
+    applyMinimum(rawCost, rules.MIN_PRICE);
+
+  } else if (signType === SignType.PYLON) {
+    const rules = rulebook.FABRICATION[SignType.PYLON];
+    const sqft = (dimensions.widthIn * dimensions.heightIn) / 144;
+
+    let rawCost = add({ code: 'PY_FACE', label: 'Cabinet face', quantity: sqft, unit: 'sqft', unitPrice: rules.PER_SQFT });
+
+    if (doubleSided) {
+      rawCost += add({ code: 'PY_SECOND_FACE', label: `Second face (+${formatPercent(rules.DOUBLE_SIDED_PERCENT)})`, quantity: sqft, unit: 'sqft', unitPrice: rules.PER_SQFT * rules.DOUBLE_SIDED_PERCENT });
+    }
+
+    if (variant.lighting !== LightingType.NON_LIT) {
+      rawCost += add({ code: 'PY_LIGHTING', label: 'Internal illumination', quantity: sqft, unit: 'sqft', unitPrice: rules.LIGHTING_PER_SQFT });
+    }
+
+    // A reface reuses the existing pole and footing
+    if (!isReface) {
+      rawCost += add({ code: 'PY_STRUCTURE', label: 'Pole structure', quantity: pylonHeightFt, unit: 'ft', unitPrice: rules.STRUCTURE_PER_FT });
+      rawCost += add({ code: 'PY_FOUNDATION', label: 'Foundation', quantity: 1, unit: 'ea', unitPrice: rules.FOUNDATION_BASE + pylonHeightFt * rules.FOUNDATION_PER_FT });
+    }
+
+    applyMinimum(rawCost, rules.MIN_PRICE);
+
+  } else if (signType === SignType.BLADE) {
+    const rules = rulebook.FABRICATION[SignType.BLADE];
+    const sqft = (dimensions.widthIn * dimensions.heightIn) / 144;
+
+    let rawCost = add({ code: 'BL_FACE', label: 'Blade face', quantity: sqft, unit: 'sqft', unitPrice: rules.PER_SQFT });
+
+    if (doubleSided) {
+      rawCost += add({ code: 'BL_SECOND_FACE', label: `Second face (+${formatPercent(rules.DOUBLE_SIDED_PERCENT)})`, quantity: sqft, unit: 'sqft', unitPrice: rules.PER_SQFT * rules.DOUBLE_SIDED_PERCENT });
+    }
+
+    if (variant.lighting !== LightingType.NON_LIT) {
+      rawCost += add({ code: 'BL_LIGHTING', label: 'Internal illumination', quantity: 1, unit: 'ea', unitPrice: rules.LIGHTING_ADDER });
+    }
+
+    if (!isReface) {
+      rawCost += add({ code: 'BL_BRACKET', label: 'Projecting bracket', quantity: 1, unit: 'ea', unitPrice: rules.BRACKET });
     }
 
-    fabCost = Math.max(rawCost, rules.MIN_PRICE);
+    applyMinimum(rawCost, rules.MIN_PRICE);
+
+  } else if (signType === SignType.FLAT_PANEL) {
+    const rules = rulebook.FABRICATION[SignType.FLAT_PANEL];
+    const sqft = (dimensions.widthIn * dimensions.heightIn) / 144;
+
+    const rawCost = add({ code: 'FP_PANEL', label: 'Panel', quantity: sqft, unit: 'sqft', unitPrice: rules.PER_SQFT });
+
+    applyMinimum(rawCost, rules.MIN_PRICE);
+  }
+
+  // Uploaded logo, priced by its traced outline. On cabinets and panels it is part of the face.
+  const logo = item.layout?.logo;
+  if (logo?.artwork && signType === SignType.CHANNEL_LETTERS) {
+    const rules = rulebook.FABRICATION.LOGO;
+    const shape = logoGeometry(logo);
+    let rawCost = 0;
+    if (logo.fabrication === 'CUT_OUT') {
+      // Formed like channel letters: every shape and counter gets a return
+      const letters = rulebook.FABRICATION[SignType.CHANNEL_LETTERS];
+      const depthIn = returnDepthIn || letters.DEFAULT_RETURN_DEPTH;
+      rawCost += add({ code: 'LOGO_RETURNS', label: `Logo returns, ${depthIn}" deep (${shape.shapes} shapes)`, quantity: shape.returnFt, unit: 'ft', unitPrice: depthIn * letters.RETURN_PER_FT_PER_INCH });
+      rawCost += add({ code: 'LOGO_FACES', label: 'Logo faces', quantity: shape.faceSqFt, unit: 'sqft', unitPrice: letters.FACE_PER_SQFT });
+    } else {
+      rawCost += add({ code: 'LOGO_CABINET', label: 'Logo cabinet, cut to outline', quantity: shape.outlineSqFt, unit: 'sqft', unitPrice: rules.CABINET_PER_SQFT });
+      rawCost += add({ code: 'LOGO_CABINET_RETURN', label: 'Logo cabinet return', quantity: shape.outlineFt, unit: 'ft', unitPrice: rules.CABINET_RETURN_PER_FT });
+    }
+    applyMinimum(rawCost, rules.MIN_PRICE, 'Logo minimum applied');
+  } else if (logo?.artwork) {
+    fabItems.push(makeNote('Logo printed on the face, included in the face price', 'FABRICATION'));
   }
 
   // Rush Order
   if (isRush) {
-    const rushFee = fabCost * PRICING.FABRICATION.RUSH_ORDER_PERCENT;
-    fabAdders.push(`Rush Order (+12%): $${rushFee.toFixed(2)}`);
-    fabCost += rushFee;
+    const rushPercent = rulebook.FABRICATION.RUSH_ORDER_PERCENT;
+    add({ code: 'RUSH', label: `Rush order (+${formatPercent(rushPercent)})`, quantity: 1, unit: 'job', unitPrice: sumLineItems(fabItems) * rushPercent, category: 'SURCHARGE' });
   }
 
-  // --- Installation Calculation ---
-  const iRules = PRICING.INSTALLATION;
-  const installAdders: string[] = [];
-  
-  let installBase = iRules.BASE_TRIP;
-  installAdders.push(`Base Trip Fee: $${iRules.BASE_TRIP}`);
+  return { fabCost: sumLineItems(fabItems), fabItems, letterBreakdown, electrical };
+};
+
+/**
+ * Installation for the whole job: one trip, one lift and one contingency no matter
+ * how many signs go up. Each sign after the first adds a share of the tier's hours.
+ * The electrical line grows with the circuits and power supplies the lit signs need.
+ */
+export const calculateInstallation = (
+  installConfig: InstallConfig,
+  signCount: number,
+  rulebook: PricingRulebook = PRICING,
+  electrical: JobElectrical | null = null
+): InstallationResult => {
+  const iRules = rulebook.INSTALLATION;
+  const installItems: PriceLineItem[] = [];
+  const add = (input: Omit<LineItemInput, 'category'>): number => {
+    const lineItem = makeLineItem({ category: 'INSTALLATION', ...input });
+    installItems.push(lineItem);
+    return lineItem.amount;
+  };
+
+  add({ code: 'TRIP', label: 'Base trip fee', quantity: 1, unit: 'job', unitPrice: iRules.BASE_TRIP });
 
   // Height -> Hours
   const tier = iRules.HEIGHT_TIERS.find(t => installConfig.heightFeet <= t.maxFt) || iRules.HEIGHT_TIERS[iRules.HEIGHT_TIERS.length - 1];
-  const laborCost = tier.hours * iRules.LABOR_RATE;
-  installAdders.push(`Labor (${tier.hours}hrs @ $${iRules.LABOR_RATE}/hr): $${laborCost.toFixed(2)}`);
-  
+  const extraSigns = Math.max(0, signCount - 1);
+  const hours = tier.hours * (1 + extraSigns * iRules.ADDITIONAL_SIGN_LABOR_PERCENT);
+  const laborCost = add({ code: 'LABOR', label: 'Labour', quantity: hours, unit: 'hr', unitPrice: iRules.LABOR_RATE });
+
   let liftCost = 0;
-  if (installConfig.liftType === 'SCISSOR') liftCost = iRules.LIFT.SCISSOR;
-  if (installConfig.liftType === 'BOOM') liftCost = iRules.LIFT.BOOM;
-  if (liftCost > 0) installAdders.push(`${installConfig.liftType} Lift: $${liftCost}`);
+  if (installConfig.liftType === 'SCISSOR') {
+    liftCost = add({ code: 'LIFT_SCISSOR', label: 'Scissor lift', quantity: 1, unit: 'job', unitPrice: iRules.LIFT.SCISSOR });
+  }
+  if (installConfig.liftType === 'BOOM') {
+    liftCost = add({ code: 'LIFT_BOOM', label: 'Boom lift', quantity: 1, unit: 'job', unitPrice: iRules.LIFT.BOOM });
+  }
 
-  let extras = 0;
   if (installConfig.electricalWork) {
-    extras += iRules.ELECTRICAL;
-    installAdders.push(`Electrical Hookup: $${iRules.ELECTRICAL}`);
+    if (electrical) {
+      const eRules = rulebook.ELECTRICAL;
+      add({ code: 'ELECTRICAL', label: `Electrical hookup (${electrical.amps.toFixed(1)}A total draw)`, quantity: 1, unit: 'job', unitPrice: iRules.ELECTRICAL });
+      if (electrical.circuits > 1) {
+        add({ code: 'ELECTRICAL_CIRCUITS', label: `Additional ${eRules.CIRCUIT_AMPS}A circuits`, quantity: electrical.circuits - 1, unit: 'ea', unitPrice: eRules.PER_EXTRA_CIRCUIT });
+      }
+      add({ code: 'ELECTRICAL_SUPPLIES', label: 'Power supply wiring', quantity: electrical.powerSupplyCount, unit: 'ea', unitPrice: eRules.PER_POWER_SUPPLY });
+    } else {
+      add({ code: 'ELECTRICAL', label: 'Electrical hookup', quantity: 1, unit: 'job', unitPrice: iRules.ELECTRICAL });
+    }
   }
   if (installConfig.permit) {
-    extras += iRules.PERMIT;
-    installAdders.push(`Permit Allowance: $${iRules.PERMIT}`);
+    add({ code: 'PERMIT', label: 'Permit allowance', quantity: 1, unit: 'job', unitPrice: iRules.PERMIT });
   }
   if (installConfig.hardAccess) {
-    extras += iRules.HARD_ACCESS;
-    installAdders.push(`Hard Access/Parking: $${iRules.HARD_ACCESS}`);
+    add({ code: 'HARD_ACCESS', label: 'Hard access/parking', quantity: 1, unit: 'job', unitPrice: iRules.HARD_ACCESS });
   }
 
-  const preContingencyInstall = installBase + laborCost + liftCost + extras;
-  const contingency = preContingencyInstall * iRules.CONTINGENCY_PERCENT;
-  installAdders.push(`Contingency (10%): $${contingency.toFixed(2)}`);
+  const preContingencyInstall = sumLineItems(installItems);
+  add({ code: 'CONTINGENCY', label: `Contingency (${formatPercent(iRules.CONTINGENCY_PERCENT)})`, quantity: 1, unit: 'job', unitPrice: preContingencyInstall * iRules.CONTINGENCY_PERCENT });
+
+  return {
+    installationCost: sumLineItems(installItems),
+    installLabor: laborCost,
+    installLift: liftCost,
+    installItems
+  };
+};
+
+/**
+ * Prices a whole job. Lines without a chosen design are skipped; each priced line
+ * carries its own fabrication rows and the installation is shared.
+ * Every row is rounded to cents and the totals are sums of rows, so they match what is printed.
+ */
+export const calculateQuote = (
+  items: SignLineItem[],
+  installConfig: InstallConfig,
+  isRush: boolean,
+  rulebook: PricingRulebook = PRICING,
+  taxProfileId: string | null = null
+): QuoteResult => {
+  const lines: QuoteLine[] = items
+    .filter(item => item.selectedVariant)
+    .map(item => {
+      const { fabCost, fabItems, letterBreakdown, electrical } = calculateFabrication(item, item.selectedVariant!, isRush, rulebook);
+      return { itemId: item.id, fabricationCost: fabCost, fabItems, letterBreakdown, electrical };
+    });
 
-  const installationCost = preContingencyInstall + contingency;
+  const fabItems = lines.flatMap(line => line.fabItems);
+  const fabCost = sumLineItems(fabItems);
+  const electrical = summarizeElectrical(lines.flatMap(line => line.electrical ? [line.electrical] : []), rulebook);
+  const install = calculateInstallation(installConfig, lines.length, rulebook, electrical);
 
   // --- Totals ---
-  const subtotal = fabCost + installationCost;
-  const gst = subtotal * PRICING.TAX.GST;
-  const total = subtotal + gst;
+  const subtotal = roundMoney(fabCost + install.installationCost);
+  const taxableSubtotal = sumLineItems([...fabItems, ...install.installItems].filter(i => i.taxable));
+  const taxProfile = resolveTaxProfile(rulebook, taxProfileId, installConfig.address);
+  const taxes = calculateTaxes(taxableSubtotal, taxProfile);
+  const taxTotal = roundMoney(taxes.reduce((sum, tax) => sum + tax.amount, 0));
+  const total = roundMoney(subtotal + taxTotal);
 
   return {
     fabricationCost: fabCost,
-    installationCost: installationCost,
+    installationCost: install.installationCost,
     subtotal,
-    gst,
+    taxableSubtotal,
+    taxProfileId: taxProfile.id,
+    currency: taxProfile.currency,
+    taxes,
+    taxTotal,
     total,
+    lines,
+    electrical,
     breakdown: {
       fabBase: fabCost, // This is total fab
-      fabAdders,
-      installLabor: laborCost,
-      installLift: liftCost,
-      installAdders
+      fabItems,
+      installLabor: install.installLabor,
+      installLift: install.installLift,
+      installItems: install.installItems
     }
   };
-};
\ No newline at end of file
+};
@@ -0,0 +1,617 @@
+import jsPDF from 'jspdf';
+import { BrandTemplate, InstallConfig, PriceLineItem, PricingRulebook, QuoteResult, QuoteTier, SignLineItem } from "../types";
+import { describePowerSupplies } from "./electrical";
+import { formatMoney, formatPercent } from "./format";
+import { describeLineItem, formatLineDimensions } from "./job";
+import { customerLineItems } from "./lineItems";
+
+// A4 portrait, in mm
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const MARGIN = 20;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const CONTENT_TOP = 42;
+const CONTENT_BOTTOM = PAGE_HEIGHT - 20;
+
+export interface ProposalData {
+  template: BrandTemplate;
+  quote: QuoteResult;
+  items: SignLineItem[];
+  installConfig: InstallConfig;
+  rulebook: PricingRulebook;
+  quoteNumber: string;
+  revision: number | null;
+  mockup: { dataUrl: string; width: number; height: number } | null;
+  date?: Date;
+}
+
+export interface TieredProposalData {
+  template: BrandTemplate;
+  tiers: QuoteTier[]; // cheapest first
+  installConfig: InstallConfig;
+  quoteNumber: string;
+  revision: number | null;
+  thumbnails: Record<number, string>; // JPEG mockups by the tier's variant index
+  photoAspect: number | null; // photo height over width, to size the thumbnails
+  date?: Date;
+}
+
+const imageFormat = (dataUrl: string): string => dataUrl.startsWith('data:image/png') ? 'PNG' : 'JPEG';
+
+const addDays = (date: Date, days: number): Date => {
+  const next = new Date(date);
+  next.setDate(next.getDate() + days);
+  return next;
+};
+
+/** Logo, company name and contact lines across the top of a page. */
+export const drawLetterhead = (doc: jsPDF, template: BrandTemplate) => {
+  const centered = template.headerLayout === 'CENTERED';
+  // Sized from the document, so letter-size permit packages get it too
+  const pageWidth = doc.internal.pageSize.getWidth();
+  let textX = centered ? pageWidth / 2 : MARGIN;
+
+  if (template.logoDataUrl) {
+    try {
+      const props = doc.getImageProperties(template.logoDataUrl);
+      const height = 16;
+      const width = Math.min(50, height * props.width / props.height);
+      const logoX = centered ? (pageWidth - width) / 2 : MARGIN;
+      doc.addImage(template.logoDataUrl, imageFormat(template.logoDataUrl), logoX, 10, width, height);
+      if (!centered) textX = MARGIN + width + 5;
+    } catch (e) {
+      console.error("Failed to draw the brand logo:", e);
+    }
+  }
+
+  doc.setTextColor(template.accentColor);
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(14);
+  if (centered) {
+    doc.text(template.companyName, pageWidth / 2, template.logoDataUrl ? 30 : 18, { align: 'center' });
+  } else {
+    doc.text(template.companyName, textX, 18);
+  }
+
+  doc.setTextColor('#666666');
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(8);
+  if (centered) {
+    if (template.letterhead.length > 0 && !template.logoDataUrl) {
+      doc.text(template.letterhead.join('  ·  '), pageWidth / 2, 24, { align: 'center' });
+    }
+  } else {
+    template.letterhead.slice(0, 4).forEach((line, i) => {
+      doc.text(line, pageWidth - MARGIN, 12 + i * 4, { align: 'right' });
+    });
+  }
+
+  doc.setDrawColor(template.accentColor);
+  doc.setLineWidth(0.6);
+  doc.line(MARGIN, 34, pageWidth - MARGIN, 34);
+  doc.setDrawColor('#000000');
+  doc.setTextColor('#000000');
+};
+
+/** Footer text and "Quote SQ-2026-0042 · Page 2 of 5" on every page. Call once the document is complete. */
+const drawFooters = (doc: jsPDF, template: BrandTemplate, quoteNumber: string) => {
+  const pages = doc.getNumberOfPages();
+  for (let page = 1; page <= pages; page++) {
+    doc.setPage(page);
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(7);
+    doc.setTextColor('#888888');
+    if (template.footer) doc.text(template.footer, MARGIN, PAGE_HEIGHT - 10);
+    doc.text(`Quote ${quoteNumber} · Page ${page} of ${pages}`, PAGE_WIDTH - MARGIN, PAGE_HEIGHT - 10, { align: 'right' });
+  }
+  doc.setTextColor('#000000');
+};
+
+/** Where the next line goes, with the page breaks and headings every proposal shares. */
+interface PageFlow {
+  y: number;
+  count: number;
+  startPage: () => void;
+  ensureSpace: (needed: number) => boolean; // starts a new page when the next block won't fit; true if it did
+  heading: (title: string) => void;
+  paragraph: (text: string, size?: number, style?: string) => void;
+}
+
+const createPageFlow = (doc: jsPDF, template: BrandTemplate): PageFlow => {
+  const page: PageFlow = {
+    y: CONTENT_TOP,
+    count: 0,
+    startPage: () => {
+      if (page.count > 0) doc.addPage();
+      page.count++;
+      drawLetterhead(doc, template);
+      page.y = CONTENT_TOP;
+    },
+    ensureSpace: (needed: number): boolean => {
+      if (page.y + needed <= CONTENT_BOTTOM) return false;
+      page.startPage();
+      return true;
+    },
+    heading: (title: string) => {
+      doc.setFont("helvetica", "bold");
+      doc.setFontSize(16);
+      doc.setTextColor(template.accentColor);
+      doc.text(title, MARGIN, page.y);
+      doc.setTextColor('#000000');
+      page.y += 10;
+    },
+    paragraph: (text: string, size: number = 10, style: string = "normal") => {
+      doc.setFont("helvetica", style);
+      doc.setFontSize(size);
+      const lines: string[] = doc.splitTextToSize(text, CONTENT_WIDTH);
+      const lineHeight = size * 0.45;
+      lines.forEach(line => {
+        page.ensureSpace(lineHeight);
+        doc.text(line, MARGIN, page.y);
+        page.y += lineHeight;
+      });
+    },
+  };
+  return page;
+};
+
+/** The big title and the client, quote, site and date lines that open a cover. */
+const drawCoverTitle = (doc: jsPDF, page: PageFlow, title: string, data: Pick<ProposalData, 'template' | 'installConfig' | 'quoteNumber' | 'revision'>, date: Date) => {
+  const { template, installConfig, quoteNumber, revision } = data;
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(24);
+  doc.setTextColor(template.accentColor);
+  doc.text(title, MARGIN, page.y + 6);
+  doc.setTextColor('#000000');
+  page.y += 18;
+
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(11);
+  doc.text(`Prepared for: ${installConfig.clientName || '—'}`, MARGIN, page.y);
+  doc.text(`Quote: ${quoteNumber}${revision ? ` (rev. ${revision})` : ''}`, PAGE_WIDTH - MARGIN, page.y, { align: 'right' });
+  page.y += 6;
+  doc.text(`Site: ${installConfig.address || '—'}`, MARGIN, page.y);
+  doc.text(`Date: ${date.toLocaleDateString()}`, PAGE_WIDTH - MARGIN, page.y, { align: 'right' });
+  page.y += 10;
+};
+
+/** Validity, deposit and the template's terms, then signature lines for both sides. */
+const drawTermsPage = (doc: jsPDF, page: PageFlow, template: BrandTemplate, date: Date, deposit: string) => {
+  page.startPage();
+  page.heading("Terms & Acceptance");
+
+  page.paragraph(`This proposal is valid for ${template.validDays} days, until ${addDays(date, template.validDays).toLocaleDateString()}.`
+    + (template.depositPercent > 0 ? ` A ${formatPercent(template.depositPercent)} deposit (${deposit}) is required to begin production.` : ''));
+  page.y += 3;
+  template.terms.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean).forEach(p => {
+    page.paragraph(p);
+    page.y += 3;
+  });
+
+  page.ensureSpace(45);
+  page.y += 10;
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(11);
+  doc.text("Accepted by", MARGIN, page.y);
+  doc.text(`For ${template.companyName}`, MARGIN + 95, page.y);
+  page.y += 18;
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(8);
+  [MARGIN, MARGIN + 95].forEach(x => {
+    doc.line(x, page.y, x + 75, page.y);
+    doc.text("Signature", x, page.y + 4);
+    doc.line(x, page.y + 14, x + 45, page.y + 14);
+    doc.text("Name", x, page.y + 18);
+    doc.line(x + 50, page.y + 14, x + 75, page.y + 14);
+    doc.text("Date", x + 50, page.y + 18);
+  });
+  page.y += 22;
+};
+
+/**
+ * Multi-page proposal: cover with the mockup, spec sheet, itemized pricing and
+ * terms with a signature block, in the order and style of the brand template.
+ */
+export const buildProposalPdf = (data: ProposalData): jsPDF => {
+  const { template, quote, items, rulebook, quoteNumber, mockup } = data;
+  const date = data.date || new Date();
+  const money = (amount: number) => formatMoney(amount, quote.currency);
+  const doc = new jsPDF();
+  const page = createPageFlow(doc, template);
+  const { startPage, ensureSpace, heading } = page;
+
+  const drawCover = () => {
+    startPage();
+    drawCoverTitle(doc, page, "Signage Proposal", data, date);
+
+    if (mockup) {
+      const maxHeight = 150;
+      let width = CONTENT_WIDTH;
+      let height = width * mockup.height / mockup.width;
+      if (height > maxHeight) {
+        height = maxHeight;
+        width = height * mockup.width / mockup.height;
+      }
+      doc.addImage(mockup.dataUrl, imageFormat(mockup.dataUrl), MARGIN + (CONTENT_WIDTH - width) / 2, page.y, width, height);
+      page.y += height + 10;
+    }
+
+    // Under a tall mockup the list and total may run onto a second page
+    quote.lines.forEach((line, idx) => {
+      const item = items.find(i => i.id === line.itemId);
+      if (!item) return;
+      ensureSpace(6);
+      doc.setFont("helvetica", "normal");
+      doc.setFontSize(11);
+      doc.text(`${idx + 1}. ${describeLineItem(item)}${item.selectedVariant ? ` – ${item.selectedVariant.name}` : ''}`, MARGIN, page.y);
+      page.y += 6;
+    });
+
+    page.y += 6;
+    ensureSpace(14);
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(18);
+    doc.text(`Total investment: ${money(quote.total)} ${quote.currency}`, MARGIN, page.y);
+    page.y += 7;
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(9);
+    doc.text(`Includes fabrication, installation and taxes. Valid until ${addDays(date, template.validDays).toLocaleDateString()}.`, MARGIN, page.y);
+  };
+
+  const drawSpecs = () => {
+    startPage();
+    heading("Specifications");
+
+    quote.lines.forEach((line, idx) => {
+      const item = items.find(i => i.id === line.itemId);
+      if (!item || !item.selectedVariant) return;
+      const variant = item.selectedVariant;
+      ensureSpace(40);
+
+      doc.setFont("helvetica", "bold");
+      doc.setFontSize(12);
+      doc.text(`${idx + 1}. ${describeLineItem(item)}`, MARGIN, page.y);
+      page.y += 6;
+
+      const specs: [string, string][] = [
+        ['Design', variant.name],
+        ['Dimensions', formatLineDimensions(item)],
+        ['Font', variant.fontFamily],
+        ['Illumination', variant.lighting],
+        ['Colours', [variant.color, variant.backgroundColor].filter(Boolean).join(' on ') || '—'],
+      ];
+      if (item.metrics) specs.push(['Overall run', `${item.metrics.overallWidthIn.toFixed(1)}"`]);
+      if (line.electrical) {
+        specs.push(['Electrical', `${line.electrical.ledModules} LED modules, ${describePowerSupplies(line.electrical)} power supplies, ${line.electrical.loadWatts.toFixed(0)}W load`]);
+      }
+
+      doc.setFontSize(10);
+      specs.forEach(([label, value]) => {
+        ensureSpace(5);
+        doc.setFont("helvetica", "bold");
+        doc.text(label, MARGIN + 5, page.y);
+        doc.setFont("helvetica", "normal");
+        doc.text(value, MARGIN + 40, page.y);
+        page.y += 5;
+      });
+      if (variant.description) {
+        page.y += 1;
+        page.paragraph(variant.description, 9, "italic");
+      }
+
+      if (line.letterBreakdown) {
+        ensureSpace(10);
+        page.y += 2;
+        doc.setFontSize(8);
+        doc.setFont("helvetica", "bold");
+        ['Letter', 'Return ft', 'Face sqft', 'LEDs'].forEach((title, i) => doc.text(title, MARGIN + 5 + i * 25, page.y));
+        page.y += 4;
+        doc.setFont("helvetica", "normal");
+        line.letterBreakdown.forEach(l => {
+          ensureSpace(4);
+          [l.char, l.returnFt.toFixed(1), l.faceSqFt.toFixed(2), String(l.ledModules)]
+            .forEach((cell, i) => doc.text(cell, MARGIN + 5 + i * 25, page.y));
+          page.y += 4;
+        });
+      }
+      page.y += 6;
+    });
+
+    if (quote.electrical) {
+      ensureSpace(12);
+      doc.setFont("helvetica", "bold");
+      doc.setFontSize(10);
+      doc.text("Power", MARGIN, page.y);
+      page.y += 5;
+      doc.setFont("helvetica", "normal");
+      doc.text(`Total draw ${quote.electrical.inputWatts.toFixed(0)}W (${quote.electrical.amps.toFixed(1)}A at ${rulebook.ELECTRICAL.LINE_VOLTAGE}V) on ${quote.electrical.circuits} x ${rulebook.ELECTRICAL.CIRCUIT_AMPS}A circuit${quote.electrical.circuits === 1 ? '' : 's'}`, MARGIN + 5, page.y);
+      page.y += 6;
+    }
+  };
+
+  const drawPricing = () => {
+    startPage();
+    heading("Pricing");
+
+    const columns = { qty: MARGIN + 110, unitPrice: MARGIN + 140, amount: PAGE_WIDTH - MARGIN };
+    const tableHeader = () => {
+      doc.setFont("helvetica", "bold");
+      doc.setFontSize(9);
+      doc.setFillColor('#f1f5f9');
+      doc.rect(MARGIN, page.y - 4, CONTENT_WIDTH, 6, 'F');
+      doc.text("Description", MARGIN + 2, page.y);
+      doc.text("Qty", columns.qty, page.y, { align: 'right' });
+      doc.text("Unit price", columns.unitPrice, page.y, { align: 'right' });
+      doc.text("Amount", columns.amount - 2, page.y, { align: 'right' });
+      page.y += 6;
+      doc.setFont("helvetica", "normal");
+    };
+    const row = (entry: PriceLineItem) => {
+      const label: string[] = doc.splitTextToSize(entry.label + (entry.taxable ? '' : ' (not taxed)'), 100);
+      if (ensureSpace(label.length * 4 + 1)) tableHeader();
+      doc.setFontSize(9);
+      doc.text(label, MARGIN + 4, page.y);
+      if (entry.unit !== 'job') {
+        doc.text(`${Number(entry.quantity.toFixed(2))} ${entry.unit}`, columns.qty, page.y, { align: 'right' });
+        doc.text(money(entry.unitPrice), columns.unitPrice, page.y, { align: 'right' });
+      }
+      doc.text(money(entry.amount), columns.amount - 2, page.y, { align: 'right' });
+      page.y += label.length * 4 + 1;
+    };
+    const group = (title: string, entries: PriceLineItem[], total: number) => {
+      if (ensureSpace(12)) tableHeader();
+      doc.setFont("helvetica", "bold");
+      doc.setFontSize(10);
+      doc.text(title, MARGIN + 2, page.y);
+      page.y += 5;
+      doc.setFont("helvetica", "normal");
+      entries.forEach(row);
+      if (ensureSpace(6)) tableHeader();
+      doc.setFont("helvetica", "bold");
+      doc.setFontSize(9);
+      doc.text(money(total), columns.amount - 2, page.y, { align: 'right' });
+      doc.setDrawColor('#cbd5e1');
+      doc.line(columns.unitPrice + 5, page.y - 3.5, columns.amount, page.y - 3.5);
+      doc.setDrawColor('#000000');
+      doc.setFont("helvetica", "normal");
+      page.y += 7;
+    };
+
+    tableHeader();
+    quote.lines.forEach((line, idx) => {
+      const item = items.find(i => i.id === line.itemId);
+      group(`${idx + 1}. ${item ? describeLineItem(item) : 'Sign'}`, customerLineItems(line.fabItems), line.fabricationCost);
+    });
+    group("Installation (single trip)", customerLineItems(quote.breakdown.installItems), quote.installationCost);
+
+    // Totals stay together at the bottom of the table
+    ensureSpace(20 + quote.taxes.length * 6);
+    const totalsX = columns.unitPrice - 30;
+    doc.setFontSize(10);
+    doc.text("Subtotal", totalsX, page.y);
+    doc.text(money(quote.subtotal), columns.amount - 2, page.y, { align: 'right' });
+    page.y += 6;
+    quote.taxes.forEach(tax => {
+      doc.text(`${tax.name} (${formatPercent(tax.rate)})`, totalsX, page.y);
+      doc.text(money(tax.amount), columns.amount - 2, page.y, { align: 'right' });
+      page.y += 6;
+    });
+    doc.setDrawColor(template.accentColor);
+    doc.line(totalsX, page.y - 3, columns.amount, page.y - 3);
+    doc.setDrawColor('#000000');
+    page.y += 3;
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(13);
+    doc.text("Total", totalsX, page.y);
+    doc.text(`${money(quote.total)} ${quote.currency}`, columns.amount - 2, page.y, { align: 'right' });
+    page.y += 6;
+    if (quote.taxes.length > 0 && quote.taxableSubtotal !== quote.subtotal) {
+      doc.setFont("helvetica", "normal");
+      doc.setFontSize(8);
+      doc.text(`Taxes apply to ${money(quote.taxableSubtotal)}; items marked "not taxed" are exempt.`, totalsX, page.y);
+      page.y += 5;
+    }
+  };
+
+  const drawTerms = () => drawTermsPage(doc, page, template, date, money(quote.total * template.depositPercent));
+
+  const pages = { COVER: drawCover, SPECS: drawSpecs, PRICING: drawPricing, TERMS: drawTerms };
+  template.sections.forEach(section => pages[section]());
+  if (page.count === 0) startPage();
+
+  drawFooters(doc, template, quoteNumber);
+  return doc;
+};
+
+/**
+ * Every design option side by side with its price and a box for the client to
+ * tick: cover, each option's specs, the comparison and terms, in the order and
+ * style of the brand template.
+ */
+export const buildTieredProposalPdf = (data: TieredProposalData): jsPDF => {
+  const { template, tiers, quoteNumber, thumbnails, photoAspect } = data;
+  const date = data.date || new Date();
+  const currency = tiers[0].quote.currency;
+  const money = (amount: number) => formatMoney(amount, currency);
+  const doc = new jsPDF();
+  const page = createPageFlow(doc, template);
+  const { startPage, ensureSpace, heading } = page;
+
+  const gap = 5;
+  const colWidth = (CONTENT_WIDTH - gap * (tiers.length - 1)) / tiers.length;
+  const colX = (col: number) => MARGIN + col * (colWidth + gap);
+  const baseTotal = tiers[0].quote.total;
+
+  const drawCover = () => {
+    startPage();
+    drawCoverTitle(doc, page, "Design Options", data, date);
+
+    tiers.forEach(tier => {
+      ensureSpace(6);
+      doc.setFont("helvetica", "normal");
+      doc.setFontSize(11);
+      doc.text(`${tier.name}: ${money(tier.quote.total)} ${currency}`, MARGIN, page.y);
+      page.y += 6;
+    });
+    page.y += 2;
+    ensureSpace(5);
+    doc.setFontSize(9);
+    doc.text(`Each option includes fabrication, installation and taxes. Valid until ${addDays(date, template.validDays).toLocaleDateString()}.`, MARGIN, page.y);
+    page.y += 5;
+  };
+
+  const drawSpecs = () => {
+    startPage();
+    heading("Specifications");
+
+    tiers.forEach(tier => {
+      ensureSpace(16);
+      doc.setFont("helvetica", "bold");
+      doc.setFontSize(12);
+      doc.text(tier.name, MARGIN, page.y);
+      page.y += 6;
+
+      tier.quote.lines.forEach(line => {
+        const item = tier.items.find(i => i.id === line.itemId);
+        if (!item || !item.selectedVariant) return;
+        const variant = item.selectedVariant;
+        const specs: [string, string][] = [
+          ['Design', variant.name],
+          ['Dimensions', formatLineDimensions(item)],
+          ['Font', variant.fontFamily],
+          ['Illumination', variant.lighting],
+        ];
+        ensureSpace(5 + specs.length * 5);
+        doc.setFont("helvetica", "bold");
+        doc.setFontSize(10);
+        doc.text(describeLineItem(item), MARGIN + 5, page.y);
+        page.y += 5;
+        specs.forEach(([label, value]) => {
+          doc.setFont("helvetica", "normal");
+          doc.text(label, MARGIN + 10, page.y);
+          doc.text(value, MARGIN + 45, page.y);
+          page.y += 5;
+        });
+        page.y += 2;
+      });
+      page.y += 4;
+    });
+  };
+
+  const drawComparison = () => {
+    startPage();
+    heading("Options Compared");
+
+    // Names head every page the columns run onto
+    const tierNames = () => {
+      tiers.forEach((tier, col) => {
+        doc.setFontSize(13);
+        doc.setFont("helvetica", "bold");
+        doc.text(tier.name, colX(col), page.y);
+        doc.setFontSize(8);
+        doc.setFont("helvetica", "normal");
+        const difference = tier.quote.total - baseTotal;
+        doc.text(difference > 0 ? `+${money(difference)}` : 'Lowest price', colX(col) + colWidth, page.y, { align: 'right' });
+      });
+      page.y += 6;
+    };
+
+    const imageHeight = photoAspect ? colWidth * photoAspect : 0;
+    if (imageHeight > 0 && tiers.some(tier => thumbnails[tier.variantIndex])) {
+      ensureSpace(imageHeight + 6);
+      tiers.forEach((tier, col) => {
+        const thumbnail = thumbnails[tier.variantIndex];
+        if (thumbnail) doc.addImage(thumbnail, 'JPEG', colX(col), page.y, colWidth, imageHeight);
+      });
+      page.y += imageHeight + 6;
+    }
+    tierNames();
+
+    // One row per sign, as tall as its longest cell
+    tiers[0].items.forEach(({ id }) => {
+      doc.setFontSize(8);
+      const cells = tiers.map(tier => {
+        const item = tier.items.find(i => i.id === id);
+        const line = tier.quote.lines.find(l => l.itemId === id);
+        if (!item || !item.selectedVariant || !line) return null;
+        doc.setFont("helvetica", "bold");
+        const title: string[] = doc.splitTextToSize(describeLineItem(item), colWidth);
+        doc.setFont("helvetica", "normal");
+        const option: string[] = doc.splitTextToSize(`${item.selectedVariant.name} · ${formatLineDimensions(item)}`, colWidth - 22);
+        return { variant: item.selectedVariant, line, title, option, height: (title.length + option.length) * 3.5 + 5.5 };
+      });
+      const rowHeight = Math.max(0, ...cells.map(cell => cell ? cell.height : 0));
+      if (rowHeight === 0) return;
+      if (ensureSpace(rowHeight)) tierNames();
+
+      cells.forEach((cell, col) => {
+        if (!cell) return;
+        const x = colX(col);
+        let y = page.y;
+        doc.setFontSize(8);
+        doc.setFont("helvetica", "bold");
+        doc.text(cell.title, x, y);
+        y += cell.title.length * 3.5;
+        doc.setFont("helvetica", "normal");
+        doc.text(cell.option, x, y);
+        doc.text(money(cell.line.fabricationCost), x + colWidth, y, { align: 'right' });
+        y += cell.option.length * 3.5 + 0.5;
+        doc.setFont("helvetica", "italic");
+        doc.text(`${cell.variant.fontFamily} · ${cell.variant.lighting}`, x, y);
+      });
+      page.y += rowHeight;
+    });
+
+    // Installation, subtotal, taxes and the total stay together
+    const totals = tiers.map(tier => [
+      ['Installation', tier.quote.installationCost],
+      ['Subtotal', tier.quote.subtotal],
+      ...tier.quote.taxes.map(tax => [`${tax.name} (${formatPercent(tax.rate)})`, tax.amount] as [string, number])
+    ] as [string, number][]);
+    const rowCount = Math.max(...totals.map(rows => rows.length));
+    if (ensureSpace(rowCount * 4 + 10)) tierNames();
+    doc.setFontSize(8);
+    doc.setFont("helvetica", "normal");
+    tiers.forEach((tier, col) => {
+      const x = colX(col);
+      let y = page.y;
+      doc.line(x, y - 2, x + colWidth, y - 2);
+      y += 2;
+      totals[col].forEach(([label, amount]) => {
+        doc.text(label, x, y);
+        doc.text(money(amount), x + colWidth, y, { align: 'right' });
+        y += 4;
+      });
+    });
+    page.y += 2 + rowCount * 4;
+    doc.setFontSize(11);
+    doc.setFont("helvetica", "bold");
+    tiers.forEach((tier, col) => {
+      doc.text("Total", colX(col), page.y + 2);
+      doc.text(money(tier.quote.total), colX(col) + colWidth, page.y + 2, { align: 'right' });
+    });
+    page.y += 15;
+
+    ensureSpace(8 + tiers.length * 8);
+    doc.setFontSize(12);
+    doc.text("Your Choice", MARGIN, page.y);
+    page.y += 8;
+    doc.setFontSize(10);
+    doc.setFont("helvetica", "normal");
+    tiers.forEach(tier => {
+      doc.rect(MARGIN, page.y - 3.5, 4, 4);
+      doc.text(`${tier.name}: ${money(tier.quote.total)} ${currency}`, MARGIN + 8, page.y);
+      page.y += 8;
+    });
+  };
+
+  // The chosen option sets the deposit, so the terms give it as a share of the total
+  const drawTerms = () => drawTermsPage(doc, page, template, date, 'of the chosen option\'s total');
+
+  const pages = { COVER: drawCover, SPECS: drawSpecs, PRICING: drawComparison, TERMS: drawTerms };
+  template.sections.forEach(section => pages[section]());
+  if (page.count === 0) startPage();
+
+  drawFooters(doc, template, quoteNumber);
+  return doc;
+};
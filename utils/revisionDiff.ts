@@ -0,0 +1,94 @@
+import { InstallConfig, QuoteSnapshot, SignLineItem, SignOptions } from "../types";
+import { describeLineItem } from "./job";
+
+const INSTALL_LABELS: Record<keyof InstallConfig, string> = {
+  clientName: 'Client',
+  address: 'Address',
+  heightFeet: 'Install height (ft)',
+  liftType: 'Lift',
+  electricalWork: 'Electrical',
+  permit: 'Permit',
+  hardAccess: 'Hard access',
+  frontageWidthIn: 'Frontage width (in)',
+  frontageHeightIn: 'Frontage height (in)',
+  windowWidthIn: 'Window width (in)',
+  windowHeightIn: 'Window height (in)',
+};
+
+const OPTION_LABELS: Record<keyof SignOptions, string> = {
+  hasLamination: 'Lamination',
+  lightboxDepth: 'Depth (in)',
+  pylonHeightFt: 'Overall height (ft)',
+  doubleSided: 'Double-sided',
+  isReface: 'Reface only',
+  channelPricing: 'Pricing method',
+  returnDepthIn: 'Return depth (in)',
+};
+
+const show = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'number') return String(Number(value.toFixed(2)));
+  return String(value);
+};
+
+const changed = (label: string, before: unknown, after: unknown, out: string[]) => {
+  if (show(before) !== show(after)) out.push(`${label}: ${show(before)} → ${show(after)}`);
+};
+
+const diffItem = (before: SignLineItem, after: SignLineItem, out: string[]) => {
+  const prefix = describeLineItem(after);
+  const lines: string[] = [];
+  changed('Type', before.signType, after.signType, lines);
+  changed('Text', before.text, after.text, lines);
+  changed('Width (in)', before.dimensions.widthIn, after.dimensions.widthIn, lines);
+  changed('Height (in)', before.dimensions.heightIn, after.dimensions.heightIn, lines);
+  (Object.keys(OPTION_LABELS) as (keyof SignOptions)[]).forEach(key => {
+    changed(OPTION_LABELS[key], before.options[key], after.options[key], lines);
+  });
+
+  const vb = before.selectedVariant;
+  const va = after.selectedVariant;
+  changed('Design', vb?.name, va?.name, lines);
+  changed('Font', vb?.fontFamily, va?.fontFamily, lines);
+  changed('Lighting', vb?.lighting, va?.lighting, lines);
+  changed('Colour', vb?.color, va?.color, lines);
+  changed('Backer', vb?.roundedBacker, va?.roundedBacker, lines);
+
+  lines.forEach(line => out.push(`${prefix}: ${line}`));
+};
+
+/**
+ * Human-readable list of what changed between two saved revisions of a job,
+ * e.g. "Client: Acme → Acme Ltd" or "Added Blade – "CAFE"".
+ */
+export const diffSnapshots = (before: QuoteSnapshot, after: QuoteSnapshot): string[] => {
+  const out: string[] = [];
+
+  (Object.keys(INSTALL_LABELS) as (keyof InstallConfig)[]).forEach(key => {
+    changed(INSTALL_LABELS[key], before.installConfig[key], after.installConfig[key], out);
+  });
+  changed('Rush order', before.isRush, after.isRush, out);
+  changed('Calibration (px/in)', before.pxPerInch, after.pxPerInch, out);
+  if (JSON.stringify(before.perspective || null) !== JSON.stringify(after.perspective || null)) {
+    out.push('4-point calibration changed');
+  }
+  if (before.imageId !== after.imageId) out.push('Photo replaced');
+  changed('Pricing rulebook', before.rulebookVersion, after.rulebookVersion, out);
+  changed('Tax profile', before.quote?.taxProfileId, after.quote?.taxProfileId, out);
+  changed('Bylaw rule pack', before.bylawPackId, after.bylawPackId, out);
+
+  const beforeById = new Map(before.items.map(i => [i.id, i]));
+  const afterIds = new Set(after.items.map(i => i.id));
+  after.items.forEach(item => {
+    const prev = beforeById.get(item.id);
+    if (prev) diffItem(prev, item, out);
+    else out.push(`Added ${describeLineItem(item)}`);
+  });
+  before.items
+    .filter(item => !afterIds.has(item.id))
+    .forEach(item => out.push(`Removed ${describeLineItem(item)}`));
+
+  changed('Total ($)', before.quote?.total, after.quote?.total, out);
+  return out;
+};
@@ -0,0 +1,87 @@
+import { PricingRulebook } from "../types";
+
+export interface RulebookIssue {
+  path: string;
+  message: string;
+}
+
+// Keys whose values are fractions (0.12 = 12%) rather than dollar amounts.
+const isFractionKey = (path: string) => path.endsWith('_PERCENT') || path.startsWith('TAX.');
+
+const collectNumberIssues = (value: unknown, path: string, issues: RulebookIssue[]) => {
+  if (Array.isArray(value)) {
+    value.forEach((item, i) => collectNumberIssues(item, `${path}[${i}]`, issues));
+    return;
+  }
+  if (value && typeof value === 'object') {
+    Object.entries(value).forEach(([key, child]) => {
+      collectNumberIssues(child, path ? `${path}.${key}` : key, issues);
+    });
+    return;
+  }
+  if (typeof value !== 'number') return;
+
+  if (!Number.isFinite(value)) {
+    issues.push({ path, message: 'must be a number' });
+  } else if (value < 0) {
+    issues.push({ path, message: 'cannot be negative' });
+  } else if (isFractionKey(path) && value > 1) {
+    issues.push({ path, message: 'must be between 0% and 100%' });
+  }
+};
+
+/**
+ * Checks a rulebook before it is saved or used for pricing.
+ * Returns an empty list when the rulebook is usable.
+ */
+export const validateRulebook = (rulebook: PricingRulebook): RulebookIssue[] => {
+  const issues: RulebookIssue[] = [];
+
+  if (!rulebook.versionLabel.trim()) {
+    issues.push({ path: 'versionLabel', message: 'is required' });
+  }
+
+  const { versionLabel, savedAt, ...rates } = rulebook;
+  collectNumberIssues(rates, '', issues);
+
+  const tiers = rulebook.INSTALLATION.HEIGHT_TIERS;
+  if (tiers.length === 0) {
+    issues.push({ path: 'INSTALLATION.HEIGHT_TIERS', message: 'needs at least one tier' });
+  }
+  tiers.forEach((tier, i) => {
+    if (tier.hours <= 0) {
+      issues.push({ path: `INSTALLATION.HEIGHT_TIERS[${i}].hours`, message: 'must be greater than 0' });
+    }
+    if (i > 0 && tier.maxFt <= tiers[i - 1].maxFt) {
+      issues.push({ path: `INSTALLATION.HEIGHT_TIERS[${i}].maxFt`, message: 'must be higher than the previous tier' });
+    }
+  });
+
+  const electrical = rulebook.ELECTRICAL;
+  if (electrical.POWER_SUPPLIES.length === 0) {
+    issues.push({ path: 'ELECTRICAL.POWER_SUPPLIES', message: 'needs at least one power supply size' });
+  }
+  electrical.POWER_SUPPLIES.forEach((supply, i) => {
+    if (supply.watts <= 0) {
+      issues.push({ path: `ELECTRICAL.POWER_SUPPLIES[${i}].watts`, message: 'must be greater than 0' });
+    }
+  });
+  (['SUPPLY_EFFICIENCY_PERCENT', 'LINE_VOLTAGE', 'CIRCUIT_AMPS', 'CIRCUIT_LOAD_PERCENT'] as const).forEach(key => {
+    if (electrical[key] <= 0) issues.push({ path: `ELECTRICAL.${key}`, message: 'must be greater than 0' });
+  });
+  if (electrical.LOAD_MARGIN_PERCENT >= 1) {
+    issues.push({ path: 'ELECTRICAL.LOAD_MARGIN_PERCENT', message: 'must be less than 100%' });
+  }
+
+  const taxProfiles = rulebook.TAX.PROFILES;
+  if (taxProfiles.length === 0) {
+    issues.push({ path: 'TAX.PROFILES', message: 'needs at least one tax profile' });
+  } else if (!taxProfiles.some(p => p.id === rulebook.TAX.DEFAULT_PROFILE)) {
+    issues.push({ path: 'TAX.DEFAULT_PROFILE', message: 'must be one of the tax profiles' });
+  }
+
+  return issues;
+};
+
+export const cloneRulebook = (rulebook: PricingRulebook): PricingRulebook =>
+  JSON.parse(JSON.stringify(rulebook));
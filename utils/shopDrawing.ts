@@ -0,0 +1,504 @@
+import { PRICING } from "../constants";
+import { InstallConfig, LightingType, PricingRulebook, SignLineItem, SignType } from "../types";
+import { pointInContours } from "./contours";
+import { buildElectricalBom, describePowerSupplies } from "./electrical";
+import { formatFeetInches } from "./format";
+import { describeLineItem } from "./job";
+import { Point } from "./perspective";
+import { arrangeLayout, hasLayout, PlacedLogo } from "./layout";
+import { logoGeometry, logoOutlines } from "./logo";
+import { letterOutlines, parseLetterSpacing } from "./textMetrics";
+
+// Everything is in inches with y pointing down, like the screen. The DXF writer flips y.
+
+export type DrawingLayer = 'FACE' | 'STROKE' | 'BACKER' | 'RETURN' | 'MOUNTING' | 'DIMENSION' | 'NOTES';
+
+export interface DrawingPath {
+  layer: DrawingLayer;
+  points: Point[];
+  closed: boolean;
+  width?: number; // drawn width in inches, e.g. the trim cap; hairline when unset
+}
+
+export interface DrawingCircle {
+  layer: DrawingLayer;
+  center: Point;
+  radius: number;
+}
+
+export interface DrawingText {
+  layer: DrawingLayer;
+  at: Point; // baseline
+  height: number;
+  text: string;
+  align?: 'left' | 'center' | 'right';
+}
+
+export interface ShopDrawing {
+  paths: DrawingPath[];
+  circles: DrawingCircle[];
+  texts: DrawingText[];
+  mounting: string[]; // how the sign is fixed, as listed under MOUNTING
+  bounds: { minX: number; minY: number; maxX: number; maxY: number };
+}
+
+export interface ShopDrawingInput {
+  item: SignLineItem; // needs a selected design; channel letters also need metrics
+  installConfig: InstallConfig;
+  companyName: string;
+  quoteNumber: string | null;
+  revision: number | null;
+  measurements?: { label: string; inches: number }[]; // site measurements taken off the photo
+  pxPerInch?: number | null; // converts px stroke widths from the preview
+  rulebook?: PricingRulebook;
+  date?: Date;
+}
+
+// Layer colours: AutoCAD colour index for the DXF and the matching SVG stroke
+const LAYERS: Record<DrawingLayer, { aci: number; color: string }> = {
+  FACE: { aci: 7, color: '#000000' },
+  STROKE: { aci: 1, color: '#dc2626' },
+  BACKER: { aci: 5, color: '#2563eb' },
+  RETURN: { aci: 8, color: '#6b7280' },
+  MOUNTING: { aci: 3, color: '#16a34a' },
+  DIMENSION: { aci: 30, color: '#b45309' },
+  NOTES: { aci: 7, color: '#000000' },
+};
+
+// Halo-lit letters stand off the wall so the light can spill out behind them
+const HALO_STANDOFF_IN = 1.5;
+const STUD_RADIUS_IN = 0.125; // 1/4" threaded studs
+const MAX_ANCHOR_SPACING_IN = 24;
+// Rough width of a character as a share of the text height, for laying out notes
+const CHAR_WIDTH_RATIO = 0.6;
+
+const rect = (x: number, y: number, width: number, height: number): Point[] => [
+  { x, y }, { x: x + width, y }, { x: x + width, y: y + height }, { x, y: y + height }
+];
+
+/** A rounded rectangle as a polyline, six segments per corner. */
+const roundedRect = (x: number, y: number, width: number, height: number, radius: number): Point[] => {
+  const r = Math.min(radius, width / 2, height / 2);
+  const corners = [
+    { cx: x + width - r, cy: y + r, start: -Math.PI / 2 },
+    { cx: x + width - r, cy: y + height - r, start: 0 },
+    { cx: x + r, cy: y + height - r, start: Math.PI / 2 },
+    { cx: x + r, cy: y + r, start: Math.PI },
+  ];
+  return corners.flatMap(({ cx, cy, start }) =>
+    Array.from({ length: 7 }, (_, i) => {
+      const angle = start + (Math.PI / 2) * (i / 6);
+      return { x: cx + r * Math.cos(angle), y: cy + r * Math.sin(angle) };
+    })
+  );
+};
+
+/** Points evenly spaced between two ends, inset from each, at most `spacing` apart. */
+const spreadPoints = (from: number, to: number, inset: number, spacing: number): number[] => {
+  const start = from + inset;
+  const end = to - inset;
+  if (end <= start) return [(from + to) / 2];
+  const count = Math.max(2, Math.ceil((end - start) / spacing) + 1);
+  return Array.from({ length: count }, (_, i) => start + (end - start) * i / (count - 1));
+};
+
+const formatDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const faceMaterial = (lighting: LightingType): string => {
+  if (lighting === LightingType.FRONT_LIT) return 'translucent acrylic';
+  if (lighting === LightingType.BACK_LIT) return 'aluminum (reverse lit)';
+  return 'aluminum';
+};
+
+/**
+ * Lays out the shop drawing for one sign: the front elevation at true scale,
+ * a section through the return or cabinet, the mounting layout, dimensions,
+ * material and colour callouts and a title block.
+ */
+export const buildShopDrawing = (input: ShopDrawingInput): ShopDrawing => {
+  const { item, installConfig, rulebook = PRICING } = input;
+  const variant = item.selectedVariant;
+  if (!variant) throw new Error("Choose a design before exporting a shop drawing");
+  const isLetters = item.signType === SignType.CHANNEL_LETTERS;
+  const arrangement = hasLayout(item) ? arrangeLayout(item) : null;
+  if (isLetters && (!item.metrics || arrangement?.elements.some(e => !e.metrics))) throw new Error("The letters haven't been measured yet");
+
+  const paths: DrawingPath[] = [];
+  const circles: DrawingCircle[] = [];
+  const texts: DrawingText[] = [];
+  const callouts: string[] = [];
+  const mounting: string[] = [];
+
+  const widthIn = arrangement && isLetters ? arrangement.widthIn : isLetters ? item.metrics!.overallWidthIn : item.dimensions.widthIn;
+  const heightIn = arrangement && isLetters ? arrangement.heightIn : item.dimensions.heightIn;
+  // Note text scales with the sign so it stays legible when the drawing is fitted to a page
+  const unit = Math.min(6, Math.max(0.75, Math.max(widthIn, heightIn) / 50));
+  const gap = unit * 3;
+
+  // Elevation: caps from y = -heightIn to the bottom line's baseline at 0 for letters, the cabinet face otherwise
+  const top = isLetters ? -heightIn : 0;
+  let elevation = { minX: 0, minY: top, maxX: widthIn, maxY: top + heightIn };
+  const grow = (x0: number, y0: number, x1: number, y1: number) => {
+    elevation = {
+      minX: Math.min(elevation.minX, x0), minY: Math.min(elevation.minY, y0),
+      maxX: Math.max(elevation.maxX, x1), maxY: Math.max(elevation.maxY, y1)
+    };
+  };
+
+  const dimension = (a: Point, b: Point, offset: Point, label: string) => {
+    const a2 = { x: a.x + offset.x, y: a.y + offset.y };
+    const b2 = { x: b.x + offset.x, y: b.y + offset.y };
+    const length = Math.hypot(offset.x, offset.y) || 1;
+    const over = { x: offset.x / length * unit * 0.5, y: offset.y / length * unit * 0.5 };
+    paths.push({ layer: 'DIMENSION', points: [a2, b2], closed: false });
+    paths.push({ layer: 'DIMENSION', points: [a, { x: a2.x + over.x, y: a2.y + over.y }], closed: false });
+    paths.push({ layer: 'DIMENSION', points: [b, { x: b2.x + over.x, y: b2.y + over.y }], closed: false });
+    const mid = { x: (a2.x + b2.x) / 2, y: (a2.y + b2.y) / 2 };
+    const vertical = Math.abs(b.x - a.x) < Math.abs(b.y - a.y);
+    texts.push(vertical
+      ? { layer: 'DIMENSION', at: { x: mid.x + (offset.x < 0 ? -unit * 0.5 : unit * 0.5), y: mid.y + unit * 0.4 }, height: unit, text: label, align: offset.x < 0 ? 'right' : 'left' }
+      : { layer: 'DIMENSION', at: { x: mid.x, y: mid.y - unit * 0.4 }, height: unit, text: label, align: 'center' });
+  };
+
+  // The traced logo at its place in the elevation, or a box where one will go
+  const drawLogo = (logo: PlacedLogo, dy: number, onWall: boolean) => {
+    if (!logo.artwork) {
+      paths.push({ layer: 'NOTES', points: rect(logo.xIn, logo.topIn + dy, logo.widthIn, logo.heightIn), closed: true });
+      texts.push({ layer: 'NOTES', at: { x: logo.xIn + logo.widthIn / 2, y: logo.topIn + dy + logo.heightIn / 2 + unit * 0.4 }, height: unit, text: 'LOGO', align: 'center' });
+      return;
+    }
+    logoOutlines(logo).forEach(loop =>
+      paths.push({ layer: 'FACE', points: loop.map(p => ({ x: p.x + logo.xIn, y: p.y + logo.topIn + dy })), closed: true }));
+    const size = `${formatFeetInches(logo.widthIn)} x ${formatFeetInches(logo.heightIn)}`;
+    if (!onWall) {
+      callouts.push(`Logo: ${logo.artwork.fileName}, ${size}, printed on the face`);
+    } else if (logo.fabrication === 'CUT_OUT') {
+      callouts.push(`Logo: ${logo.artwork.fileName}, ${size}, formed like the letters (${logoGeometry(logo).shapes} shapes)`);
+    } else {
+      callouts.push(`Logo: ${logo.artwork.fileName}, ${size}, cabinet cut to the outline`);
+    }
+  };
+
+  let sectionDepth = 0;
+  let standoff = 0;
+
+  if (isLetters) {
+    const metrics = item.metrics!;
+    const capIn = item.dimensions.heightIn;
+    // Each line's letters moved to where the layout puts them; a single line sits at the origin
+    const runs = arrangement
+      ? arrangement.elements.map(e => ({ capIn: e.heightIn, baseline: e.topIn + e.heightIn - heightIn, letters: letterOutlines(e.metrics!), dx: e.xIn }))
+      : [{ capIn, baseline: 0, letters: letterOutlines(metrics), dx: 0 }];
+    runs.forEach(run => run.letters.forEach(letter => {
+      letter.contours = letter.contours.map(loop => loop.map(p => ({ x: p.x + run.dx, y: p.y + run.baseline })));
+    }));
+    const letters = runs.flatMap(run => run.letters);
+    letters.forEach(letter => letter.contours.forEach(loop => paths.push({ layer: 'FACE', points: loop, closed: true })));
+    if (arrangement?.logo) drawLogo(arrangement.logo, -heightIn, true);
+
+    let strokeIn = 0;
+    if (variant.stroke) {
+      // Same CSS length as the preview's text stroke, centred on the outline
+      strokeIn = parseLetterSpacing(variant.strokeWidth, metrics.fontSizeIn, input.pxPerInch);
+      if (strokeIn > 0) {
+        letters.forEach(letter => letter.contours.forEach(loop => paths.push({ layer: 'STROKE', points: loop, closed: true, width: strokeIn })));
+      }
+    }
+
+    sectionDepth = item.options.returnDepthIn || rulebook.FABRICATION[SignType.CHANNEL_LETTERS].DEFAULT_RETURN_DEPTH;
+    standoff = variant.lighting === LightingType.BACK_LIT ? HALO_STANDOFF_IN : 0;
+
+    const face = variant.color || '#FFFFFF';
+    callouts.push(`Font: ${[...new Set(runs.length > 1 ? arrangement!.elements.map(e => e.fontFamily) : [variant.fontFamily])].join(', ')}`);
+    callouts.push(`Faces: ${faceMaterial(variant.lighting)}, ${face.toUpperCase()}`);
+    callouts.push(`Returns: ${formatFeetInches(sectionDepth)} deep aluminum, black`);
+    if (variant.stroke) {
+      callouts.push(`Trim cap: ${strokeIn > 0 ? formatFeetInches(strokeIn) : 'standard'}, ${(variant.backgroundColor || '#000000').toUpperCase()}`);
+    }
+
+    if (variant.roundedBacker) {
+      // Same proportions as the preview: 0.2 x the main height either side, 0.1 x above and below the type
+      const backerWidth = widthIn + capIn * 0.4;
+      const backerHeight = heightIn + metrics.fontSizeIn - capIn + capIn * 0.2;
+      const x = -capIn * 0.2;
+      const y = -heightIn / 2 - backerHeight / 2;
+      paths.push({ layer: 'BACKER', points: roundedRect(x, y, backerWidth, backerHeight, capIn * 0.5), closed: true });
+      grow(x, y, x + backerWidth, y + backerHeight);
+      callouts.push(`Backer / raceway: ${formatFeetInches(backerWidth)} x ${formatFeetInches(backerHeight)}, ${(variant.backgroundColor || '#333333').toUpperCase()}`);
+
+      const anchors = spreadPoints(x, x + backerWidth, Math.min(backerHeight, 6), MAX_ANCHOR_SPACING_IN);
+      anchors.forEach(ax => circles.push({ layer: 'MOUNTING', center: { x: ax, y: -heightIn / 2 }, radius: STUD_RADIUS_IN * 1.5 }));
+      mounting.push(`Backer anchored to the wall at ${anchors.length} points along its centreline`);
+      mounting.push('Letters fastened to the backer from behind');
+    } else {
+      // Studs inside each letter's ink, at least two and no more than a foot apart
+      let studs = 0;
+      runs.forEach(run => run.letters.forEach(({ contours }) => {
+        if (contours.length === 0) return;
+        const xs = contours.flat().map(p => p.x);
+        const left = Math.min(...xs);
+        const right = Math.max(...xs);
+        const count = Math.max(2, Math.ceil((right - left) / 12));
+        for (let k = 1; k <= count; k++) {
+          const x = left + (right - left) * k / (count + 1);
+          // Search out from mid-height for a spot inside the stroke of the letter, e.g. the bowl of an O
+          for (let step = 0; step <= 40; step++) {
+            const offset = (step % 2 === 0 ? 1 : -1) * Math.ceil(step / 2) * run.capIn / 40;
+            const p = { x, y: run.baseline - run.capIn / 2 + offset };
+            if (pointInContours(p, contours)) {
+              circles.push({ layer: 'MOUNTING', center: p, radius: STUD_RADIUS_IN });
+              studs++;
+              break;
+            }
+          }
+        }
+      }));
+      mounting.push(`${studs} x 1/4" threaded studs, shown in green`);
+      if (standoff > 0) mounting.push(`Letters held ${formatFeetInches(standoff)} off the wall on stand-offs for the halo`);
+    }
+  } else {
+    const x = 0;
+    const y = 0;
+    const isCabinet = item.signType === SignType.LIGHTBOX || item.signType === SignType.PYLON || item.signType === SignType.BLADE;
+    paths.push({ layer: 'FACE', points: rect(x, y, widthIn, heightIn), closed: true });
+    if (isCabinet) {
+      const inset = Math.min(1.5, widthIn / 10, heightIn / 10);
+      paths.push({ layer: 'RETURN', points: rect(x + inset, y + inset, widthIn - inset * 2, heightIn - inset * 2), closed: true });
+    }
+    if (arrangement) {
+      arrangement.elements.forEach(e => texts.push({ layer: 'NOTES', at: { x: e.xIn + e.widthIn / 2, y: e.topIn + e.heightIn }, height: e.heightIn, text: e.text, align: 'center' }));
+      if (arrangement.logo) drawLogo(arrangement.logo, 0, false);
+    } else if (item.text) {
+      texts.push({ layer: 'NOTES', at: { x: widthIn / 2, y: heightIn / 2 + heightIn * 0.15 }, height: Math.min(heightIn * 0.4, widthIn / Math.max(1, item.text.length) / CHAR_WIDTH_RATIO), text: item.text, align: 'center' });
+    }
+    (arrangement ? arrangement.elements : [{ text: item.text, fontFamily: variant.fontFamily }]).forEach(e =>
+      callouts.push(`Copy: "${e.text}" in ${e.fontFamily}, ${(variant.color || '#FFFFFF').toUpperCase()}`));
+    callouts.push(`Face: ${(variant.backgroundColor || (item.signType === SignType.WINDOW_VINYL ? 'clear' : '#FFFFFF')).toUpperCase()}`);
+    if (item.signType === SignType.LIGHTBOX) {
+      sectionDepth = item.options.lightboxDepth || 4;
+      callouts.push(`Cabinet: ${formatFeetInches(sectionDepth)} deep aluminum extrusion`);
+    }
+
+    if (item.signType === SignType.PYLON) {
+      const poleHeight = Math.max(0, (item.options.pylonHeightFt || 0) * 12 - heightIn);
+      const poleWidth = 10;
+      paths.push({ layer: 'MOUNTING', points: rect(widthIn / 2 - poleWidth / 2, heightIn, poleWidth, poleHeight), closed: true });
+      paths.push({ layer: 'MOUNTING', points: [{ x: -widthIn * 0.25, y: heightIn + poleHeight }, { x: widthIn * 1.25, y: heightIn + poleHeight }], closed: false });
+      texts.push({ layer: 'MOUNTING', at: { x: widthIn * 1.25, y: heightIn + poleHeight - unit * 0.3 }, height: unit, text: 'GRADE', align: 'right' });
+      grow(-widthIn * 0.25, y, widthIn * 1.25, heightIn + poleHeight);
+      if (poleHeight > 0) dimension({ x: widthIn / 2 + poleWidth / 2, y: heightIn }, { x: widthIn / 2 + poleWidth / 2, y: heightIn + poleHeight }, { x: gap, y: 0 }, formatFeetInches(poleHeight));
+      mounting.push(`${poleWidth}" steel pole to grade, footing by engineer`);
+      if (item.options.doubleSided) mounting.push('Double-sided cabinet');
+    } else if (item.signType === SignType.BLADE) {
+      const bracket = Math.max(2, widthIn * 0.25);
+      paths.push({ layer: 'MOUNTING', points: rect(-bracket, -2, widthIn + bracket, 1), closed: true });
+      paths.push({ layer: 'MOUNTING', points: [{ x: -bracket, y: -heightIn * 0.25 }, { x: -bracket, y: heightIn * 1.25 }], closed: false });
+      texts.push({ layer: 'MOUNTING', at: { x: -bracket - unit * 0.5, y: -heightIn * 0.25 + unit }, height: unit, text: 'WALL', align: 'right' });
+      grow(-bracket, -heightIn * 0.25, widthIn, heightIn * 1.25);
+      mounting.push('Hung from a projecting wall bracket');
+      if (item.options.doubleSided) mounting.push('Double-sided cabinet');
+    } else if (item.signType === SignType.WINDOW_VINYL) {
+      mounting.push('Applied to the inside face of the glass');
+    } else {
+      const anchors = spreadPoints(0, widthIn, Math.min(3, widthIn / 4), MAX_ANCHOR_SPACING_IN);
+      [Math.min(3, heightIn / 4), heightIn - Math.min(3, heightIn / 4)].forEach(ay =>
+        anchors.forEach(ax => circles.push({ layer: 'MOUNTING', center: { x: ax, y: ay }, radius: STUD_RADIUS_IN * 1.5 })));
+      mounting.push(`${anchors.length * 2} wall anchors through the ${item.signType === SignType.LIGHTBOX ? 'cabinet back' : 'panel'}`);
+    }
+  }
+
+  const bom = buildElectricalBom(item, variant, rulebook);
+  callouts.push(bom
+    ? `Illumination: ${bom.ledModules} LED modules, ${describePowerSupplies(bom)} power supplies`
+    : 'Non-illuminated');
+
+  // Overall dimensions round the elevation
+  dimension({ x: 0, y: top }, { x: widthIn, y: top }, { x: 0, y: elevation.minY - top - gap }, formatFeetInches(widthIn));
+  dimension({ x: 0, y: top }, { x: 0, y: top + heightIn }, { x: elevation.minX - gap, y: 0 }, formatFeetInches(heightIn));
+
+  // Section A-A beside the elevation: return (or cabinet) depth against the wall
+  let right = elevation.maxX + gap * 2;
+  if (sectionDepth > 0) {
+    const x = right;
+    paths.push({ layer: 'RETURN', points: rect(x, top, sectionDepth, heightIn), closed: true });
+    const wallX = x + sectionDepth + standoff;
+    paths.push({ layer: 'NOTES', points: [{ x: wallX, y: top - unit * 2 }, { x: wallX, y: top + heightIn + unit * 2 }], closed: false });
+    texts.push({ layer: 'NOTES', at: { x: wallX + unit * 0.5, y: top - unit }, height: unit, text: 'WALL' });
+    texts.push({ layer: 'NOTES', at: { x: x + sectionDepth / 2, y: top + heightIn + unit * 5 }, height: unit, text: 'SECTION A-A', align: 'center' });
+    dimension({ x, y: top + heightIn }, { x: x + sectionDepth, y: top + heightIn }, { x: 0, y: gap / 2 }, formatFeetInches(sectionDepth));
+    if (standoff > 0) {
+      dimension({ x: x + sectionDepth, y: top }, { x: wallX, y: top }, { x: 0, y: -gap / 2 }, formatFeetInches(standoff));
+    }
+    right = wallX + gap;
+  }
+
+  // Callouts and title block under the drawing
+  const notesTop = elevation.maxY + gap * 2;
+  const lineHeight = unit * 1.6;
+  const column = (x: number, heading: string, lines: string[], startY: number): number => {
+    texts.push({ layer: 'NOTES', at: { x, y: startY }, height: unit * 1.2, text: heading });
+    lines.forEach((line, i) => texts.push({ layer: 'NOTES', at: { x, y: startY + lineHeight * (i + 1.2) }, height: unit, text: line }));
+    return startY + lineHeight * (lines.length + 2);
+  };
+  const textWidth = (lines: string[]) => Math.max(...lines.map(l => l.length)) * unit * CHAR_WIDTH_RATIO;
+
+  const siteLines = (input.measurements || []).map(m => `${m.label}: ${formatFeetInches(m.inches)}`);
+  const leftX = elevation.minX - gap;
+  let leftY = column(leftX, 'MATERIALS & COLOURS', callouts, notesTop);
+  leftY = column(leftX, 'MOUNTING', mounting, leftY);
+  if (siteLines.length > 0) leftY = column(leftX, 'SITE MEASUREMENTS', siteLines, leftY);
+
+  const titleLines = [
+    `Client: ${installConfig.clientName || '-'}`,
+    `Site: ${installConfig.address || '-'}`,
+    `Quote: ${input.quoteNumber || '-'}${input.revision ? ` R${input.revision}` : ''}`,
+    `Sign: ${describeLineItem(item)}`,
+    `Date: ${formatDate(input.date || new Date())}`,
+    'Units: inches, drawn 1:1',
+  ];
+  const titleX = Math.max(right, leftX + textWidth([...callouts, ...mounting, ...siteLines]) + gap);
+  const titleWidth = textWidth([input.companyName, ...titleLines]) + unit * 2;
+  texts.push({ layer: 'NOTES', at: { x: titleX + unit, y: notesTop }, height: unit * 1.4, text: input.companyName });
+  const titleBottom = column(titleX + unit, 'SHOP DRAWING', titleLines, notesTop + lineHeight * 1.2) - lineHeight * 0.5;
+  paths.push({ layer: 'NOTES', points: rect(titleX, notesTop - unit * 2, titleWidth, titleBottom - notesTop + unit * 2), closed: true });
+
+  // Bounds of everything, allowing for text that runs right of its anchor
+  const xs: number[] = [];
+  const ys: number[] = [];
+  paths.forEach(path => path.points.forEach(p => { xs.push(p.x); ys.push(p.y); }));
+  circles.forEach(c => { xs.push(c.center.x - c.radius, c.center.x + c.radius); ys.push(c.center.y - c.radius, c.center.y + c.radius); });
+  texts.forEach(t => {
+    const w = t.text.length * t.height * CHAR_WIDTH_RATIO;
+    const x0 = t.align === 'center' ? t.at.x - w / 2 : t.align === 'right' ? t.at.x - w : t.at.x;
+    xs.push(x0, x0 + w);
+    ys.push(t.at.y - t.height, t.at.y);
+  });
+  const margin = unit * 2;
+  return {
+    paths,
+    circles,
+    texts,
+    mounting,
+    bounds: {
+      minX: Math.min(...xs) - margin,
+      minY: Math.min(...ys) - margin,
+      maxX: Math.max(...xs) + margin,
+      maxY: Math.max(...ys, leftY) + margin
+    }
+  };
+};
+
+const num = (n: number) => Number(n.toFixed(4)).toString();
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/** The drawing as SVG sized in real inches, one group per layer. */
+export const shopDrawingSvg = (drawing: ShopDrawing): string => {
+  const { minX, minY, maxX, maxY } = drawing.bounds;
+  const width = maxX - minX;
+  const height = maxY - minY;
+  const groups = (Object.keys(LAYERS) as DrawingLayer[]).map(layer => {
+    const { color } = LAYERS[layer];
+    const shapes = [
+      ...drawing.paths.filter(p => p.layer === layer).map(p => {
+        const d = p.points.map((pt, i) => `${i === 0 ? 'M' : 'L'}${num(pt.x)},${num(pt.y)}`).join(' ') + (p.closed ? ' Z' : '');
+        return p.width
+          ? `<path d="${d}" fill="none" stroke="${color}" stroke-opacity="0.5" stroke-width="${num(p.width)}" stroke-linejoin="round"/>`
+          : `<path d="${d}" fill="none" stroke="${color}" stroke-width="1" vector-effect="non-scaling-stroke"/>`;
+      }),
+      ...drawing.circles.filter(c => c.layer === layer).map(c =>
+        `<circle cx="${num(c.center.x)}" cy="${num(c.center.y)}" r="${num(c.radius)}" fill="none" stroke="${color}" stroke-width="1" vector-effect="non-scaling-stroke"/>`),
+      ...drawing.texts.filter(t => t.layer === layer).map(t => {
+        const anchor = t.align === 'center' ? 'middle' : t.align === 'right' ? 'end' : 'start';
+        return `<text x="${num(t.at.x)}" y="${num(t.at.y)}" font-size="${num(t.height)}" font-family="sans-serif" text-anchor="${anchor}" fill="${color}">${escapeXml(t.text)}</text>`;
+      }),
+    ];
+    return shapes.length > 0 ? `  <g id="${layer}">\n    ${shapes.join('\n    ')}\n  </g>` : '';
+  }).filter(Boolean);
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${num(width)}in" height="${num(height)}in" viewBox="${num(minX)} ${num(minY)} ${num(width)} ${num(height)}">`,
+    ...groups,
+    '</svg>',
+    ''
+  ].join('\n');
+};
+
+// DXF text is ASCII; anything else goes in as a \U+XXXX escape
+const dxfText = (text: string) =>
+  Array.from(text).map(ch => ch.charCodeAt(0) > 126 ? `\\U+${ch.codePointAt(0)!.toString(16).toUpperCase().padStart(4, '0')}` : ch).join('');
+
+/** The drawing as an R12 ASCII DXF in inches, y up, one layer per DrawingLayer. */
+export const shopDrawingDxf = (drawing: ShopDrawing): string => {
+  const out: (string | number)[] = [];
+  const pair = (code: number, value: string | number) => out.push(code, typeof value === 'number' ? num(value) : value);
+  const point = (p: Point, xCode = 10) => {
+    pair(xCode, p.x);
+    pair(xCode + 10, -p.y);
+    pair(xCode + 20, 0);
+  };
+  const layers = Object.keys(LAYERS) as DrawingLayer[];
+
+  pair(0, 'SECTION'); pair(2, 'HEADER');
+  pair(9, '$ACADVER'); pair(1, 'AC1009');
+  pair(9, '$INSUNITS'); pair(70, 1);
+  pair(0, 'ENDSEC');
+
+  pair(0, 'SECTION'); pair(2, 'TABLES');
+  pair(0, 'TABLE'); pair(2, 'LTYPE'); pair(70, 1);
+  pair(0, 'LTYPE'); pair(2, 'CONTINUOUS'); pair(70, 0); pair(3, 'Solid line'); pair(72, 65); pair(73, 0); pair(40, 0);
+  pair(0, 'ENDTAB');
+  pair(0, 'TABLE'); pair(2, 'LAYER'); pair(70, layers.length);
+  layers.forEach(layer => {
+    pair(0, 'LAYER'); pair(2, layer); pair(70, 0); pair(62, LAYERS[layer].aci); pair(6, 'CONTINUOUS');
+  });
+  pair(0, 'ENDTAB');
+  pair(0, 'ENDSEC');
+
+  pair(0, 'SECTION'); pair(2, 'ENTITIES');
+  drawing.paths.forEach(path => {
+    pair(0, 'POLYLINE'); pair(8, path.layer); pair(66, 1); pair(70, path.closed ? 1 : 0);
+    point({ x: 0, y: 0 });
+    if (path.width) { pair(40, path.width); pair(41, path.width); }
+    path.points.forEach(p => {
+      pair(0, 'VERTEX'); pair(8, path.layer);
+      point(p);
+    });
+    pair(0, 'SEQEND'); pair(8, path.layer);
+  });
+  drawing.circles.forEach(circle => {
+    pair(0, 'CIRCLE'); pair(8, circle.layer);
+    point(circle.center);
+    pair(40, circle.radius);
+  });
+  drawing.texts.forEach(text => {
+    pair(0, 'TEXT'); pair(8, text.layer);
+    point(text.at);
+    pair(40, text.height);
+    pair(1, dxfText(text.text));
+    if (text.align && text.align !== 'left') {
+      pair(72, text.align === 'center' ? 1 : 2);
+      point(text.at, 11);
+    }
+  });
+  pair(0, 'ENDSEC');
+  pair(0, 'EOF');
+
+  return out.join('\n') + '\n';
+};
+
+/** Downloads the drawing as an SVG or DXF file. */
+export const downloadShopDrawing = (drawing: ShopDrawing, format: 'svg' | 'dxf', fileName: string) => {
+  const blob = format === 'svg'
+    ? new Blob([shopDrawingSvg(drawing)], { type: 'image/svg+xml' })
+    : new Blob([shopDrawingDxf(drawing)], { type: 'application/dxf' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
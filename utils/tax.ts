@@ -0,0 +1,90 @@
+import { PRICING } from "../constants";
+import { PricingRulebook, TaxLine, TaxProfile } from "../types";
+import { roundMoney } from "./format";
+
+const REGION_NAMES: Record<string, string> = {
+  'ALBERTA': 'AB',
+  'BRITISH COLUMBIA': 'BC',
+  'SASKATCHEWAN': 'SK',
+  'MANITOBA': 'MB',
+  'ONTARIO': 'ON',
+  'QUEBEC': 'QC',
+  'QUÉBEC': 'QC',
+  'NEW BRUNSWICK': 'NB',
+  'NOVA SCOTIA': 'NS',
+  'PRINCE EDWARD ISLAND': 'PE',
+  'NEWFOUNDLAND': 'NL',
+  'YUKON': 'YT',
+  'NORTHWEST TERRITORIES': 'NT',
+  'NUNAVUT': 'NU',
+  'WASHINGTON': 'WA',
+  'OREGON': 'OR',
+  'IDAHO': 'ID',
+  'MONTANA': 'MT',
+  'CALIFORNIA': 'CA',
+  'NEW YORK': 'NY',
+};
+
+const REGION_CODES = new Set(Object.values(REGION_NAMES));
+
+// First letter of a Canadian postal code. X covers both NT and NU, which tax the same.
+const POSTAL_PREFIXES: Record<string, string> = {
+  A: 'NL', B: 'NS', C: 'PE', E: 'NB', G: 'QC', H: 'QC', J: 'QC',
+  K: 'ON', L: 'ON', M: 'ON', N: 'ON', P: 'ON',
+  R: 'MB', S: 'SK', T: 'AB', V: 'BC', X: 'NT', Y: 'YT',
+};
+
+/**
+ * Province or state code from a free-form address, e.g. "12 Main St, Calgary AB T2P 1J9".
+ * Tries, in order: a code before a postal/ZIP code, a trailing code, the
+ * postal code's first letter, then a spelled-out name. Codes go first since
+ * names also turn up in street names, as in "Washington Ave, Portland OR".
+ */
+export const detectRegion = (address: string): string | null => {
+  const upper = address.toUpperCase();
+
+  const beforePostal = upper.match(/(?:^|[\s,])([A-Z]{2})[\s,]+(?:[A-Z]\d[A-Z]\s?\d[A-Z]\d|\d{5}(?:-\d{4})?)\b/);
+  if (beforePostal && REGION_CODES.has(beforePostal[1])) return beforePostal[1];
+
+  const trailing = upper.match(/[\s,]([A-Z]{2})\s*(?:,\s*(?:CANADA|USA|US))?\s*$/);
+  if (trailing && REGION_CODES.has(trailing[1])) return trailing[1];
+
+  const postal = upper.match(/\b([A-Z])\d[A-Z]\s?\d[A-Z]\d\b/);
+  if (postal && POSTAL_PREFIXES[postal[1]]) return POSTAL_PREFIXES[postal[1]];
+
+  // The region comes after the street, so the name nearest the end wins
+  const names = upper.match(new RegExp(`\\b(${Object.keys(REGION_NAMES).join('|')})\\b`, 'g'));
+  if (names) return REGION_NAMES[names[names.length - 1]];
+
+  return null;
+};
+
+export const detectTaxProfile = (address: string, rulebook: PricingRulebook = PRICING): TaxProfile | null => {
+  const region = detectRegion(address);
+  if (!region) return null;
+  return rulebook.TAX.PROFILES.find(p => p.regions.includes(region)) || null;
+};
+
+export const getDefaultTaxProfile = (rulebook: PricingRulebook = PRICING): TaxProfile =>
+  rulebook.TAX.PROFILES.find(p => p.id === rulebook.TAX.DEFAULT_PROFILE) || rulebook.TAX.PROFILES[0];
+
+/**
+ * The job's tax profile: the one chosen by hand, otherwise the one for the
+ * install address, otherwise the rulebook default.
+ */
+export const resolveTaxProfile = (
+  rulebook: PricingRulebook,
+  taxProfileId: string | null | undefined,
+  address: string
+): TaxProfile => {
+  const chosen = taxProfileId ? rulebook.TAX.PROFILES.find(p => p.id === taxProfileId) : undefined;
+  return chosen || detectTaxProfile(address, rulebook) || getDefaultTaxProfile(rulebook);
+};
+
+/** Each tax on the (already rounded) subtotal, rounded to cents. */
+export const calculateTaxes = (subtotal: number, profile: TaxProfile): TaxLine[] =>
+  profile.taxes.map(tax => ({
+    name: tax.name,
+    rate: tax.rate,
+    amount: roundMoney(subtotal * tax.rate)
+  }));
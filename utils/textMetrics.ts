@@ -0,0 +1,183 @@
+import { GlyphMetrics, TextMetrics } from "../types";
+import { Point } from "./perspective";
+import { maskFromImageData, polygonArea, polygonPerimeter, simplifyLoop, traceContours } from "./contours";
+
+// Glyphs are rasterised at this size; large enough that outline error stays well under 1%
+const REFERENCE_FONT_PX = 200;
+const PAD_PX = 4;
+// Typical cap height / font size, used if the font can't be measured
+const DEFAULT_CAP_HEIGHT_RATIO = 0.7;
+
+export interface GlyphOutline {
+  advancePx: number;
+  inkLeftPx: number;
+  inkRightPx: number;
+  inkAscentPx: number;
+  inkDescentPx: number;
+  areaPx: number;
+  perimeterPx: number;
+  contours: Point[][]; // px at REFERENCE_FONT_PX, origin at the pen position on the baseline
+}
+
+const outlineCache = new Map<string, GlyphOutline>();
+let canvas: HTMLCanvasElement | null = null;        // resized per glyph for rasterising
+let measureCanvas: HTMLCanvasElement | null = null; // never resized, so its font sticks
+
+const fontString = (fontFamily: string, px: number) => `${px}px "${fontFamily}"`;
+
+const getContext = (width: number, height: number, fontFamily: string): CanvasRenderingContext2D => {
+  if (!canvas) canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  ctx.font = fontString(fontFamily, REFERENCE_FONT_PX);
+  ctx.textBaseline = 'alphabetic';
+  return ctx;
+};
+
+const getMeasureContext = (fontFamily: string): CanvasRenderingContext2D => {
+  if (!measureCanvas) measureCanvas = document.createElement('canvas');
+  const ctx = measureCanvas.getContext('2d')!;
+  ctx.font = fontString(fontFamily, REFERENCE_FONT_PX);
+  return ctx;
+};
+
+/** Waits for a web font to be available so canvas measurements use it, not a fallback. */
+export const loadFont = async (fontFamily: string): Promise<void> => {
+  try {
+    await document.fonts.load(fontString(fontFamily, REFERENCE_FONT_PX));
+  } catch (e) {
+    console.error(`Failed to load the font "${fontFamily}", measuring with a fallback:`, e);
+  }
+};
+
+export const capHeightRatio = (fontFamily: string): number => {
+  const ascent = getMeasureContext(fontFamily).measureText('H').actualBoundingBoxAscent;
+  return ascent > 0 ? ascent / REFERENCE_FONT_PX : DEFAULT_CAP_HEIGHT_RATIO;
+};
+
+/** Rasterises one character and traces its outline. Cached per font. */
+export const traceGlyph = (char: string, fontFamily: string): GlyphOutline => {
+  const cacheKey = `${fontFamily}|${char}`;
+  const cached = outlineCache.get(cacheKey);
+  if (cached) return cached;
+
+  const m = getMeasureContext(fontFamily).measureText(char);
+  const inkLeftPx = Math.ceil(m.actualBoundingBoxLeft);
+  const inkRightPx = Math.ceil(m.actualBoundingBoxRight);
+  const inkAscentPx = Math.ceil(m.actualBoundingBoxAscent);
+  const inkDescentPx = Math.ceil(m.actualBoundingBoxDescent);
+  const width = inkLeftPx + inkRightPx + PAD_PX * 2;
+  const height = inkAscentPx + inkDescentPx + PAD_PX * 2;
+
+  let contours: Point[][] = [];
+  if (!/\s/.test(char) && width > PAD_PX * 2 && height > PAD_PX * 2) {
+    const originX = PAD_PX + inkLeftPx;
+    const originY = PAD_PX + inkAscentPx;
+    const ctx = getContext(width, height, fontFamily);
+    ctx.fillStyle = '#000';
+    ctx.fillText(char, originX, originY);
+    const mask = maskFromImageData(ctx.getImageData(0, 0, width, height));
+    contours = traceContours(mask, width, height)
+      .map(loop => simplifyLoop(loop))
+      .map(loop => loop.map(p => ({ x: p.x - originX, y: p.y - originY })));
+  }
+
+  const outline: GlyphOutline = {
+    advancePx: m.width,
+    inkLeftPx,
+    inkRightPx,
+    inkAscentPx,
+    inkDescentPx,
+    areaPx: contours.reduce((sum, loop) => sum + polygonArea(loop), 0),
+    perimeterPx: contours.reduce((sum, loop) => sum + polygonPerimeter(loop), 0),
+    contours
+  };
+  outlineCache.set(cacheKey, outline);
+  return outline;
+};
+
+/** Every letter's traced outline in inches, laid out as measured: x from the start of the run, y down from the baseline. */
+export const letterOutlines = (metrics: TextMetrics): { char: string; contours: Point[][] }[] => {
+  const inPerPx = metrics.fontSizeIn / REFERENCE_FONT_PX;
+  return metrics.glyphs.map(glyph => ({
+    char: glyph.char,
+    contours: traceGlyph(glyph.char, metrics.fontFamily).contours
+      .map(loop => loop.map(p => ({ x: glyph.xIn + p.x * inPerPx, y: p.y * inPerPx })))
+  }));
+};
+
+/** Converts a CSS letter-spacing ("0.05em", "2px", "0.5in") to inches. */
+export const parseLetterSpacing = (spacing: string, fontSizeIn: number, pxPerInch?: number | null): number => {
+  const value = parseFloat(spacing);
+  if (isNaN(value)) return 0;
+  if (spacing.trim().endsWith('em')) return value * fontSizeIn;
+  if (spacing.trim().endsWith('in')) return value;
+  if (spacing.trim().endsWith('px')) return pxPerInch ? value / pxPerInch : 0;
+  return 0;
+};
+
+export const metricsKey = (
+  text: string,
+  fontFamily: string,
+  letterHeightIn: number,
+  letterSpacing: string,
+  pxPerInch?: number | null
+): string => [text, fontFamily, letterHeightIn, letterSpacing, pxPerInch ? pxPerInch.toFixed(3) : ''].join('|');
+
+/**
+ * Measures a line of letters at real size. `letterHeightIn` is the cap height,
+ * the way channel letters are specified. Assumes the font is already loaded.
+ */
+export const measureText = (
+  text: string,
+  fontFamily: string,
+  letterHeightIn: number,
+  letterSpacing: string,
+  pxPerInch?: number | null
+): TextMetrics => {
+  const fontSizeIn = letterHeightIn / capHeightRatio(fontFamily);
+  const inPerPx = fontSizeIn / REFERENCE_FONT_PX;
+  const spacingIn = parseLetterSpacing(letterSpacing, fontSizeIn, pxPerInch);
+  const ctx = getMeasureContext(fontFamily);
+  const chars = Array.from(text);
+
+  const glyphs: GlyphMetrics[] = [];
+  chars.forEach((char, i) => {
+    if (/\s/.test(char)) return;
+    // Measure the prefix rather than summing advances so kerning is respected
+    const xIn = ctx.measureText(chars.slice(0, i).join('')).width * inPerPx + i * spacingIn;
+    const outline = traceGlyph(char, fontFamily);
+    glyphs.push({
+      char,
+      xIn,
+      advanceIn: outline.advancePx * inPerPx,
+      inkWidthIn: (outline.inkLeftPx + outline.inkRightPx) * inPerPx,
+      inkHeightIn: (outline.inkAscentPx + outline.inkDescentPx) * inPerPx,
+      perimeterIn: outline.perimeterPx * inPerPx,
+      faceAreaSqIn: outline.areaPx * inPerPx * inPerPx
+    });
+  });
+
+  const runPx = ctx.measureText(text).width;
+  return {
+    sourceKey: metricsKey(text, fontFamily, letterHeightIn, letterSpacing, pxPerInch),
+    fontFamily,
+    letterHeightIn,
+    fontSizeIn,
+    letterSpacingIn: spacingIn,
+    overallWidthIn: Math.max(0, runPx * inPerPx + spacingIn * (chars.length - 1)),
+    glyphs
+  };
+};
+
+export const measureTextAsync = async (
+  text: string,
+  fontFamily: string,
+  letterHeightIn: number,
+  letterSpacing: string,
+  pxPerInch?: number | null
+): Promise<TextMetrics> => {
+  await loadFont(fontFamily);
+  return measureText(text, fontFamily, letterHeightIn, letterSpacing, pxPerInch);
+};
@@ -0,0 +1,70 @@
+import { PRICING } from "../constants";
+import { DesignVariant, InstallConfig, PricingRulebook, QuoteTier, SignLineItem, SignType, TextMetrics } from "../types";
+import { calculateQuote } from "./pricing";
+
+const TIER_NAMES = ['Good', 'Better', 'Best'];
+
+/** The line with `variant` chosen, set up the same way as picking its style card. */
+export const withVariant = (
+  item: SignLineItem,
+  variant: DesignVariant,
+  metricsFor?: (item: SignLineItem) => TextMetrics | undefined
+): SignLineItem => {
+  if (item.selectedVariant === variant) return item;
+  if (item.signType !== SignType.CHANNEL_LETTERS) return { ...item, selectedVariant: variant };
+
+  // Letter sizes depend on the font and height, so the old measurement no longer applies
+  const next: SignLineItem = {
+    ...item,
+    selectedVariant: variant,
+    dimensions: { ...item.dimensions, heightIn: variant.recommendedLetterHeightIn },
+    metrics: undefined
+  };
+  const metrics = metricsFor?.(next);
+  return metrics
+    ? { ...next, metrics, dimensions: { ...next.dimensions, widthIn: Math.round(metrics.overallWidthIn * 10) / 10 } }
+    : next;
+};
+
+/** Every line switched to its variant at `index`. Lines without that many variants are left as they are. */
+export const applyTier = (
+  items: SignLineItem[],
+  index: number,
+  metricsFor?: (item: SignLineItem) => TextMetrics | undefined
+): SignLineItem[] =>
+  items.map(item => item.variants[index] ? withVariant(item, item.variants[index], metricsFor) : item);
+
+/**
+ * Prices the job once per design option (A, B, C...) with the same install
+ * config, then names the results Good, Better and Best from cheapest up.
+ * Empty when no line has more than one variant to compare.
+ */
+export const buildQuoteTiers = (
+  items: SignLineItem[],
+  installConfig: InstallConfig,
+  isRush: boolean,
+  rulebook: PricingRulebook = PRICING,
+  taxProfileId: string | null = null,
+  metricsFor?: (item: SignLineItem) => TextMetrics | undefined
+): QuoteTier[] => {
+  const tierCount = Math.max(0, ...items.map(item => item.variants.length));
+  if (tierCount < 2) return [];
+
+  const tiers = Array.from({ length: tierCount }, (_, variantIndex) => {
+    const tierItems = applyTier(items, variantIndex, metricsFor);
+    return {
+      name: '',
+      variantIndex,
+      items: tierItems,
+      quote: calculateQuote(tierItems, installConfig, isRush, rulebook, taxProfileId)
+    };
+  });
+
+  return tiers
+    .sort((a, b) => a.quote.total - b.quote.total || a.variantIndex - b.variantIndex)
+    .map((tier, rank) => ({ ...tier, name: TIER_NAMES[rank] || `Option ${rank + 1}` }));
+};
+
+/** Whether the job's current selections are exactly this tier. */
+export const isTierSelected = (items: SignLineItem[], tier: QuoteTier): boolean =>
+  items.every(item => !item.variants[tier.variantIndex] || item.selectedVariant === item.variants[tier.variantIndex]);
@@ -0,0 +1,106 @@
+import { DesignVariant, SignLineItem } from "../types";
+
+/** Every version option `index` has had, oldest first. Lines saved before history was kept start from the current one. */
+export const variantVersions = (item: SignLineItem, index: number): DesignVariant[] =>
+  item.variantHistory?.[index]?.length ? item.variantHistory[index] : item.variants[index] ? [item.variants[index]] : [];
+
+/** Which version in the history option `index` shows now; saved jobs come back as copies, so match by value too. */
+export const currentVersion = (item: SignLineItem, index: number): number => {
+  const versions = variantVersions(item, index);
+  const current = item.variants[index];
+  const found = versions.indexOf(current);
+  if (found >= 0) return found;
+  const json = JSON.stringify(current);
+  const match = versions.findIndex(v => JSON.stringify(v) === json);
+  return match >= 0 ? match : versions.length - 1;
+};
+
+export const isVariantLocked = (item: SignLineItem, index: number): boolean =>
+  !!item.lockedVariants?.includes(index);
+
+export const toggleVariantLock = (item: SignLineItem, index: number): Partial<SignLineItem> => ({
+  lockedVariants: isVariantLocked(item, index)
+    ? item.lockedVariants!.filter(i => i !== index)
+    : [...(item.lockedVariants || []), index]
+});
+
+// Keeps the sign pointing at the same option when that option's design changes
+const followSelection = (item: SignLineItem, variants: DesignVariant[]): DesignVariant | null => {
+  const selectedIndex = item.selectedVariant ? item.variants.indexOf(item.selectedVariant) : -1;
+  return selectedIndex >= 0 ? variants[selectedIndex] || null : item.selectedVariant;
+};
+
+/**
+ * A fresh set of variants from "Generate Variations". Locked and custom options
+ * keep their current design; the others take the new one and add it to their history.
+ */
+export const mergeGeneratedVariants = (item: SignLineItem, generated: DesignVariant[]): Partial<SignLineItem> => {
+  const count = Math.max(generated.length, item.variants.length);
+  const variants: DesignVariant[] = [];
+  const variantHistory: DesignVariant[][] = [];
+  for (let index = 0; index < count; index++) {
+    const versions = variantVersions(item, index);
+    const current = item.variants[index];
+    const keep = current && (current.custom || isVariantLocked(item, index)) ? current : null;
+    const next = keep ? item.variants[index] : generated[index];
+    if (!next) continue;
+    variants.push(next);
+    variantHistory.push(keep ? versions : [...versions, next]);
+  }
+  return { variants, variantHistory };
+};
+
+/** Option `index` replaced by a regenerated or refined design, keeping the old one in its history. */
+export const replaceVariant = (item: SignLineItem, index: number, variant: DesignVariant): Partial<SignLineItem> => {
+  const variants = item.variants.map((v, i) => i === index ? variant : v);
+  const variantHistory = item.variants.map((_, i) =>
+    i === index ? [...variantVersions(item, i), variant] : variantVersions(item, i));
+  return { variants, variantHistory, selectedVariant: followSelection(item, variants) };
+};
+
+/**
+ * A copy of `base` added after A/B/C as the next custom option and picked, so
+ * edits never overwrite what the designer suggested.
+ */
+export const addCustomVariant = (item: SignLineItem, base: DesignVariant, patch: Partial<DesignVariant>): Partial<SignLineItem> => {
+  let number = item.variants.filter(v => v.custom).length + 1;
+  while (item.variants.some(v => v.name === `Custom ${number}`)) number++;
+  const custom: DesignVariant = {
+    ...base,
+    ...patch,
+    name: `Custom ${number}`,
+    description: `Edited from ${base.name.replace(" (Recommended)", "")}.`,
+    custom: true
+  };
+  return {
+    variants: [...item.variants, custom],
+    variantHistory: [...item.variants.map((_, i) => variantVersions(item, i)), [custom]],
+    selectedVariant: custom
+  };
+};
+
+/** Option `index` edited in place, without adding to its history; for live editor changes. */
+export const updateVariant = (item: SignLineItem, index: number, patch: Partial<DesignVariant>): Partial<SignLineItem> => {
+  const variants = item.variants.map((v, i) => i === index ? { ...v, ...patch } : v);
+  const variantHistory = item.variants.map((_, i) => i === index ? [variants[i]] : variantVersions(item, i));
+  return { variants, variantHistory, selectedVariant: followSelection(item, variants) };
+};
+
+/** Removes a custom option; if it was picked, Option A is picked instead. */
+export const removeVariant = (item: SignLineItem, index: number): Partial<SignLineItem> => {
+  const variants = item.variants.filter((_, i) => i !== index);
+  return {
+    variants,
+    variantHistory: item.variants.map((_, i) => variantVersions(item, i)).filter((_, i) => i !== index),
+    lockedVariants: (item.lockedVariants || []).filter(i => i !== index).map(i => i > index ? i - 1 : i),
+    selectedVariant: item.selectedVariant === item.variants[index] ? variants[0] || null : item.selectedVariant
+  };
+};
+
+/** Option `index` back to an earlier (or later) version from its history. The history itself is unchanged. */
+export const restoreVariantVersion = (item: SignLineItem, index: number, version: number): Partial<SignLineItem> => {
+  const restored = variantVersions(item, index)[version];
+  if (!restored) return {};
+  const variants = item.variants.map((v, i) => i === index ? restored : v);
+  return { variants, selectedVariant: followSelection(item, variants) };
+};